@@ -108,29 +108,121 @@ document.addEventListener('DOMContentLoaded', () => {
     });
 
   // Display helpers
-  function displaySuggestions(title, suggestions) {
+  function createSuggestionList(title) {
     resultsContainer.innerHTML = '';
     const heading = document.createElement('h3');
     heading.textContent = title;
     resultsContainer.appendChild(heading);
 
     const list = document.createElement('ul');
-    suggestions.forEach((s) => {
-      const item = document.createElement('li');
-      const name = document.createElement('strong');
-      name.textContent = s.name || s.title || 'Unnamed';
-      const desc = document.createElement('p');
-      desc.textContent = s.description || s.brief || '';
-      const viewBtn = document.createElement('button');
-      viewBtn.textContent = 'View Details';
-      viewBtn.addEventListener('click', () => viewDetails(s));
-      item.appendChild(name);
-      item.appendChild(desc);
-      item.appendChild(viewBtn);
-      list.appendChild(item);
-    });
     resultsContainer.appendChild(list);
     showPanel(panelRecipes);
+    return list;
+  }
+
+  function appendSuggestion(list, s) {
+    const item = document.createElement('li');
+    const name = document.createElement('strong');
+    name.textContent = s.name || s.title || 'Unnamed';
+    const desc = document.createElement('p');
+    desc.textContent = s.description || s.brief || '';
+    const viewBtn = document.createElement('button');
+    viewBtn.textContent = 'View Details';
+    viewBtn.addEventListener('click', () => viewDetails(s));
+    item.appendChild(name);
+    item.appendChild(desc);
+    item.appendChild(viewBtn);
+    list.appendChild(item);
+  }
+
+  function displaySuggestions(title, suggestions) {
+    const list = createSuggestionList(title);
+    suggestions.forEach(s => appendSuggestion(list, s));
+  }
+
+  // Parse one Server-Sent Events frame ("event: x\ndata: {...}")
+  function parseEventFrame(frame) {
+    let event = 'message';
+    let data = '';
+    frame.split('\n').forEach(line => {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      if (line.startsWith('data:')) data += line.slice(5).trim();
+    });
+    return { event, data: data ? JSON.parse(data) : null };
+  }
+
+  // POST to a streaming endpoint and render each suggestion as it arrives
+  function streamSuggestions(title, url, body) {
+    const list = createSuggestionList(title);
+    const status = document.createElement('p');
+    status.className = 'stream-status';
+    status.textContent = 'Connecting...';
+    resultsContainer.insertBefore(status, list);
+
+    function handleFrame(frame) {
+      if (!frame.trim()) return;
+      const { event, data } = parseEventFrame(frame);
+      if (event === 'progress') {
+        status.textContent = data.message + '...';
+      } else if (event === 'recipe') {
+        appendSuggestion(list, data.data);
+      } else if (event === 'done') {
+        status.textContent = `${data.count} result(s)${data.cached ? ' (cached)' : ''}`;
+      } else if (event === 'error') {
+        status.textContent = `Error: ${data.message} (${data.code})`;
+      }
+    }
+
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+      body: JSON.stringify(body)
+    })
+      .then(res => {
+        if (!res.ok || !res.body) {
+          return res.json().then(json => displayResults('Error', json));
+        }
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        function read() {
+          return reader.read().then(({ done, value }) => {
+            if (done) {
+              handleFrame(buffer);
+              return;
+            }
+            buffer += decoder.decode(value, { stream: true });
+            const frames = buffer.split('\n\n');
+            buffer = frames.pop();
+            frames.forEach(handleFrame);
+            return read();
+          });
+        }
+
+        return read();
+      })
+      .catch(err => displayResults('Error', { error: err.message || err }));
+  }
+
+  // Generated suggestions and variations are saved as drafts; flatten a draft (or a suggestion carrying its
+  // draft id) into the recipe shape displayDetails works with
+  function asDraft(item) {
+    if (item && item.kind && item.recipe) {
+      return {
+        ...item.recipe,
+        id: item.id,
+        source: item.source,
+        servingSize: item.servingSize,
+        promotedRecipeId: item.promotedRecipeId,
+        isDraft: true
+      };
+    }
+    if (item && item.id && item.source && item.source.prompt) {
+      return { ...item, servingSize: item.servingSize || item.source.prompt.servingSize, isDraft: true };
+    }
+    return item;
   }
 
   function displayDetails(recipe) {
@@ -140,6 +232,12 @@ document.addEventListener('DOMContentLoaded', () => {
       return;
     }
 
+    recipe = asDraft(recipe);
+    const recipeId = recipe.id || recipe.recipeId;
+    const baseUrl = recipe.isDraft
+      ? `/api/recipes/drafts/${encodeURIComponent(recipeId)}`
+      : `/api/recipes/${encodeURIComponent(recipeId)}`;
+
     const title = document.createElement('h3');
     title.textContent = recipe.name || recipe.title || 'Recipe';
     recipeDetails.appendChild(title);
@@ -156,22 +254,23 @@ document.addEventListener('DOMContentLoaded', () => {
       <label>Serving Size: <input id="detail-serving-size" type="number" min="1" value="${recipe.servingSize || 1}" /></label>
       <button id="scale-btn">Scale</button>
       <button id="substitute-btn">Suggest Substitutes</button>
+      ${recipe.isDraft ? '<button id="promote-btn">Save as Recipe</button>' : ''}
     `;
     recipeDetails.appendChild(servingDiv);
 
     // Scale handler
     recipeDetails.querySelector('#scale-btn').addEventListener('click', () => {
       const newSize = parseInt(recipeDetails.querySelector('#detail-serving-size').value, 10) || recipe.servingSize || 1;
-      const id = recipe.id || recipe.recipeId;
-      if (!id) {
+      if (!recipeId) {
         recipeDetails.innerHTML = '<pre>Cannot scale: missing recipe id</pre>';
         return;
       }
 
-      fetch(`/api/recipes/${encodeURIComponent(id)}/scale`, {
+      const body = recipe.isDraft ? { newServingSize: newSize } : { recipeId, newServingSize: newSize };
+      fetch(`${baseUrl}/scale`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ recipeId: id, newServingSize: newSize })
+        body: JSON.stringify(body)
       })
         .then(res => res.json())
         .then(json => {
@@ -189,11 +288,15 @@ document.addEventListener('DOMContentLoaded', () => {
       const ingredient = prompt('Ingredient to substitute (e.g. milk):');
       if (!ingredient) return;
       const restrictions = getSelectedRestrictions();
+      // A draft is its own recipe context on the server
       const context = recipe.description || recipe.instructions?.join(' ') || '';
-      fetch(`/api/recipes/${encodeURIComponent(recipe.id || recipe.recipeId)}/substitute`, {
+      const body = recipe.isDraft
+        ? { ingredient, dietaryRestrictions: restrictions }
+        : { ingredient, dietaryRestrictions: restrictions, recipeContext: context };
+      fetch(`${baseUrl}/substitute`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ingredient, dietaryRestrictions: restrictions, recipeContext: context })
+        body: JSON.stringify(body)
       })
         .then(res => res.json())
         .then(json => {
@@ -206,6 +309,27 @@ document.addEventListener('DOMContentLoaded', () => {
         .catch(err => showJSON(recipeDetails, { error: err.message || err }));
     });
 
+    // Promote handler: save the draft as a stored recipe by id
+    const promoteBtn = recipeDetails.querySelector('#promote-btn');
+    if (promoteBtn) {
+      promoteBtn.addEventListener('click', () => {
+        fetch(`${baseUrl}/promote`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({})
+        })
+          .then(res => res.json())
+          .then(json => {
+            if (json.success) {
+              displayDetails(json.data);
+            } else {
+              showJSON(recipeDetails, json);
+            }
+          })
+          .catch(err => showJSON(recipeDetails, { error: err.message || err }));
+      });
+    }
+
     // Ingredients
     if (Array.isArray(recipe.ingredients)) {
       const ingHeader = document.createElement('h4');
@@ -252,11 +376,17 @@ document.addEventListener('DOMContentLoaded', () => {
       return;
     }
 
-    // Otherwise create-detailed (POST /api/recipes/create-detailed)
-    fetch('/api/recipes/create-detailed', {
+    // Draft-backed suggestions are promoted by id (POST /api/recipes/drafts/:id/promote);
+    // anything else goes through create-detailed (POST /api/recipes/create-detailed)
+    const draft = asDraft(suggestion);
+    const request = draft.isDraft
+      ? { url: `/api/recipes/drafts/${encodeURIComponent(draft.id)}/promote`, body: {} }
+      : { url: '/api/recipes/create-detailed', body: { suggestion } };
+
+    fetch(request.url, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ suggestion })
+      body: JSON.stringify(request.body)
     })
       .then(res => res.json())
       .then(json => {
@@ -284,20 +414,9 @@ document.addEventListener('DOMContentLoaded', () => {
     const servingSize = parseInt(servingSizeIng.value, 10) || 1;
     const dietaryRestrictions = getSelectedRestrictions();
 
-    fetch('/api/recipes/by-ingredients', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ ingredients, dietaryRestrictions, servingSize })
-    })
-      .then(res => res.json())
-      .then(json => {
-        if (json.success) {
-          displaySuggestions('Recipes by Ingredients', json.data);
-        } else {
-          displayResults('Error', json);
-        }
-      })
-      .catch(err => displayResults('Error', { error: err.message || err }));
+    streamSuggestions('Recipes by Ingredients', '/api/recipes/by-ingredients/stream', {
+      ingredients, dietaryRestrictions, servingSize
+    });
   });
 
   // Search by name
@@ -306,20 +425,9 @@ document.addEventListener('DOMContentLoaded', () => {
     const servingSize = parseInt(servingSizeName.value, 10) || 1;
     const dietaryRestrictions = getSelectedRestrictions();
 
-    fetch('/api/recipes/by-name', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ foodName, dietaryRestrictions, servingSize })
-    })
-      .then(res => res.json())
-      .then(json => {
-        if (json.success) {
-          displaySuggestions('Recipe Variations', json.data);
-        } else {
-          displayResults('Error', json);
-        }
-      })
-      .catch(err => displayResults('Error', { error: err.message || err }));
+    streamSuggestions('Recipe Variations', '/api/recipes/by-name/stream', {
+      foodName, dietaryRestrictions, servingSize
+    });
   });
 
   // Free text search (GET /api/recipes/search?q=)
@@ -12,6 +12,12 @@ import { database } from './models/database';
 // Import routes
 import recipesRouter from './routes/recipes';
 import preferencesRouter from './routes/preferences';
+import pantryRouter from './routes/pantry';
+import usersRouter from './routes/users';
+import householdsRouter from './routes/households';
+import mealPlansRouter from './routes/mealPlans';
+import shoppingListsRouter from './routes/shoppingLists';
+import ingredientsRouter from './routes/ingredients';
 import healthRouter from './routes/health';
 
 // Validate configuration on startup
@@ -47,8 +53,8 @@ app.use(helmet({
 app.use(cors({
   origin: config.corsOrigin,
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Admin-Key']
 }));
 
 // Rate limiting
@@ -86,6 +92,12 @@ app.use(express.static(path.join(__dirname, '../../public')));
 // API Routes
 app.use('/api/recipes', recipesRouter);
 app.use('/api/preferences', preferencesRouter);
+app.use('/api/pantry', pantryRouter);
+app.use('/api/users', usersRouter);
+app.use('/api/households', householdsRouter);
+app.use('/api/meal-plans', mealPlansRouter);
+app.use('/api/shopping-lists', shoppingListsRouter);
+app.use('/api/ingredients', ingredientsRouter);
 app.use('/api/health', healthRouter);
 
 // Root endpoint
@@ -98,13 +110,34 @@ app.get('/', (req, res) => {
       health: '/api/health',
       config: '/api/health/config',
       recipes: {
+        list: 'GET /api/recipes',
+        create: 'POST /api/recipes',
+        update: 'PUT /api/recipes/:id',
+        patch: 'PATCH /api/recipes/:id',
+        delete: 'DELETE /api/recipes/:id',
         byIngredients: 'POST /api/recipes/by-ingredients',
         byName: 'POST /api/recipes/by-name',
+        matchPantry: 'POST /api/recipes/match-pantry',
+        byIngredientsStream: 'POST /api/recipes/by-ingredients/stream',
+        byNameStream: 'POST /api/recipes/by-name/stream',
         getRecipe: 'GET /api/recipes/:id',
         scaleRecipe: 'POST /api/recipes/:id/scale',
         substitute: 'POST /api/recipes/:id/substitute',
+        dietaryAnalysis: 'POST /api/recipes/:id/dietary-analysis',
+        calculateNutrition: 'POST /api/recipes/:id/nutrition/calculate',
+        nutritionLabel: 'GET /api/recipes/:id/nutrition-label?userId=&format=json|html|svg',
+        fit: 'GET /api/recipes/:id/fit?userId=',
+        cooked: 'POST /api/recipes/:id/cooked',
+        versions: 'GET /api/recipes/:id/versions',
+        getVersion: 'GET /api/recipes/:id/versions/:version',
+        restoreVersion: 'POST /api/recipes/:id/versions/:version/restore',
+        diffVersions: 'GET /api/recipes/:id/versions/diff?from=&to=',
         popular: 'GET /api/recipes/popular',
-        search: 'GET /api/recipes/search'
+        search: 'GET /api/recipes/search',
+        getDraft: 'GET /api/recipes/drafts/:id',
+        scaleDraft: 'POST /api/recipes/drafts/:id/scale',
+        substituteDraft: 'POST /api/recipes/drafts/:id/substitute',
+        promoteDraft: 'POST /api/recipes/drafts/:id/promote'
       },
       preferences: {
         get: 'GET /api/preferences/:userId',
@@ -113,6 +146,57 @@ app.get('/', (req, res) => {
         delete: 'DELETE /api/preferences/:userId',
         restrictions: 'GET /api/preferences/:userId/restrictions',
         goals: 'GET /api/preferences/:userId/goals'
+      },
+      pantry: {
+        list: 'GET /api/pantry/:userId',
+        add: 'POST /api/pantry/:userId',
+        get: 'GET /api/pantry/:userId/:itemId',
+        update: 'PUT /api/pantry/:userId/:itemId',
+        delete: 'DELETE /api/pantry/:userId/:itemId',
+        deleteExpired: 'DELETE /api/pantry/:userId/expired'
+      },
+      users: {
+        history: 'GET /api/users/:userId/history'
+      },
+      households: {
+        create: 'POST /api/households',
+        list: 'GET /api/households?userId=',
+        get: 'GET /api/households/:id',
+        update: 'PUT /api/households/:id',
+        delete: 'DELETE /api/households/:id',
+        addMember: 'POST /api/households/:id/members',
+        updateMember: 'PUT /api/households/:id/members/:userId',
+        removeMember: 'DELETE /api/households/:id/members/:userId',
+        restrictions: 'GET /api/households/:id/restrictions'
+      },
+      mealPlans: {
+        generate: 'POST /api/meal-plans',
+        list: 'GET /api/meal-plans?userId=',
+        get: 'GET /api/meal-plans/:id',
+        delete: 'DELETE /api/meal-plans/:id',
+        regenerate: 'POST /api/meal-plans/:id/regenerate',
+        lockEntry: 'PATCH /api/meal-plans/:id/entries/:entryId',
+        regenerateEntry: 'POST /api/meal-plans/:id/entries/:entryId/regenerate'
+      },
+      shoppingLists: {
+        create: 'POST /api/shopping-lists',
+        list: 'GET /api/shopping-lists?userId=',
+        get: 'GET /api/shopping-lists/:id',
+        export: 'GET /api/shopping-lists/:id/export?format=text|csv',
+        checkItem: 'PATCH /api/shopping-lists/:id/items/:itemId',
+        delete: 'DELETE /api/shopping-lists/:id'
+      },
+      ingredients: {
+        list: 'GET /api/ingredients',
+        get: 'GET /api/ingredients/:id',
+        match: 'GET /api/ingredients/match?name=',
+        parse: 'POST /api/ingredients/parse',
+        create: 'POST /api/ingredients (admin)',
+        update: 'PUT /api/ingredients/:id (admin)',
+        delete: 'DELETE /api/ingredients/:id (admin)',
+        addAliases: 'POST /api/ingredients/:id/aliases (admin)',
+        removeAlias: 'DELETE /api/ingredients/:id/aliases/:alias (admin)',
+        relink: 'POST /api/ingredients/relink (admin)'
       }
     },
     documentation: 'See README.md for detailed API documentation'
@@ -206,8 +290,9 @@ export const startServer = async () => {
       throw new Error('Database health check failed');
     }
 
-    // Clean up old cache entries on startup
+    // Clean up expired cache entries on startup and periodically afterwards
     await database.cleanupCache();
+    database.startCacheCleanup();
 
     const server = app.listen(config.port, () => {
       console.log(`
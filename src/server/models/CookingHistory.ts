@@ -0,0 +1,134 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from './database';
+import {
+  CookingHistoryEntry,
+  CookingHistoryStats,
+  RecipeError
+} from '../../types';
+
+export class CookingHistoryModel {
+  // Log that a user cooked a recipe
+  static async create(entryData: Omit<CookingHistoryEntry, 'id' | 'createdAt'>): Promise<CookingHistoryEntry> {
+    const entry: CookingHistoryEntry = {
+      ...entryData,
+      id: uuidv4(),
+      createdAt: new Date()
+    };
+
+    try {
+      await database.run(`
+        INSERT INTO cooking_history (
+          id, user_id, recipe_id, recipe_name, cuisine, servings,
+          cooked_on, notes, ingredients, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        entry.id,
+        entry.userId,
+        entry.recipeId,
+        entry.recipeName,
+        entry.cuisine,
+        entry.servings,
+        entry.cookedOn,
+        entry.notes || null,
+        JSON.stringify(entry.ingredients),
+        entry.createdAt.toISOString()
+      ]);
+
+      return entry;
+    } catch (error) {
+      throw new RecipeError('Failed to record cooking history', 'CREATE_FAILED', 500);
+    }
+  }
+
+  // A user's cooking timeline, most recent first, optionally within a date range
+  static async findByUserId(
+    userId: string,
+    options: { from?: string; to?: string; limit?: number } = {}
+  ): Promise<CookingHistoryEntry[]> {
+    try {
+      const { clause, params } = this.rangeFilter(userId, options);
+      const rows = await database.all(
+        `SELECT * FROM cooking_history WHERE ${clause} ORDER BY cooked_on DESC, created_at DESC LIMIT ?`,
+        [...params, options.limit || 50]
+      );
+      return rows.map(row => this.mapRowToEntry(row));
+    } catch (error) {
+      throw new RecipeError('Failed to fetch cooking history', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Totals per cuisine and per week (Monday start) over the same range as the timeline
+  static async getStats(
+    userId: string,
+    options: { from?: string; to?: string } = {}
+  ): Promise<CookingHistoryStats> {
+    try {
+      const { clause, params } = this.rangeFilter(userId, options);
+
+      const [totals, byCuisine, byWeek] = await Promise.all([
+        database.get(
+          `SELECT COUNT(*) AS count, COALESCE(SUM(servings), 0) AS servings FROM cooking_history WHERE ${clause}`,
+          params
+        ),
+        database.all(`
+          SELECT COALESCE(NULLIF(cuisine, ''), 'Unspecified') AS cuisine, COUNT(*) AS count
+          FROM cooking_history WHERE ${clause}
+          GROUP BY lower(COALESCE(NULLIF(cuisine, ''), 'Unspecified'))
+          ORDER BY count DESC, cuisine
+        `, params),
+        database.all(`
+          SELECT date(cooked_on, 'weekday 0', '-6 days') AS weekStart,
+            COUNT(*) AS count, SUM(servings) AS servings
+          FROM cooking_history WHERE ${clause}
+          GROUP BY weekStart
+          ORDER BY weekStart DESC
+        `, params)
+      ]);
+
+      return {
+        totalCooked: totals.count,
+        totalServings: totals.servings,
+        byCuisine,
+        byWeek
+      };
+    } catch (error) {
+      throw new RecipeError('Failed to fetch cooking history stats', 'FETCH_FAILED', 500);
+    }
+  }
+
+  private static rangeFilter(
+    userId: string,
+    options: { from?: string; to?: string }
+  ): { clause: string; params: any[] } {
+    let clause = 'user_id = ?';
+    const params: any[] = [userId];
+
+    if (options.from) {
+      clause += ' AND cooked_on >= ?';
+      params.push(options.from);
+    }
+
+    if (options.to) {
+      clause += ' AND cooked_on <= ?';
+      params.push(options.to);
+    }
+
+    return { clause, params };
+  }
+
+  // Helper method to map database row to CookingHistoryEntry object
+  private static mapRowToEntry(row: any): CookingHistoryEntry {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      recipeId: row.recipe_id,
+      recipeName: row.recipe_name,
+      cuisine: row.cuisine || '',
+      servings: row.servings,
+      cookedOn: row.cooked_on,
+      notes: row.notes || undefined,
+      ingredients: JSON.parse(row.ingredients),
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
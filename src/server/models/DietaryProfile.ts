@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { database } from './database';
+import { RestrictionGraph } from '../utils/restrictionGraph';
 import {
   DietaryProfile,
   DietaryRestriction,
@@ -37,8 +38,8 @@ export class DietaryProfileModel {
       await database.run(`
         INSERT INTO dietary_profiles (
           id, user_id, allergies, dietary_preferences, health_conditions,
-          nutritional_goals, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          nutritional_goals, allergy_strict, custom_restrictions, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         profile.id,
         profile.userId,
@@ -46,6 +47,8 @@ export class DietaryProfileModel {
         JSON.stringify(profile.dietaryPreferences),
         JSON.stringify(profile.healthConditions),
         JSON.stringify(profile.nutritionalGoals),
+        profile.allergyStrict ? 1 : 0,
+        JSON.stringify(profile.customRestrictions),
         profile.createdAt.toISOString(),
         profile.updatedAt.toISOString()
       ]);
@@ -99,13 +102,15 @@ export class DietaryProfileModel {
       await database.run(`
         UPDATE dietary_profiles SET
           allergies = ?, dietary_preferences = ?, health_conditions = ?,
-          nutritional_goals = ?, updated_at = ?
+          nutritional_goals = ?, allergy_strict = ?, custom_restrictions = ?, updated_at = ?
         WHERE id = ?
       `, [
         JSON.stringify(updatedProfile.allergies),
         JSON.stringify(updatedProfile.dietaryPreferences),
         JSON.stringify(updatedProfile.healthConditions),
         JSON.stringify(updatedProfile.nutritionalGoals),
+        updatedProfile.allergyStrict ? 1 : 0,
+        JSON.stringify(updatedProfile.customRestrictions),
         updatedProfile.updatedAt.toISOString(),
         id
       ]);
@@ -136,11 +141,12 @@ export class DietaryProfileModel {
     const profile = await this.findByUserId(userId);
     if (!profile) return [];
 
-    return [
+    // Include what the declared restrictions imply, e.g. vegan implies dairy-free and egg-free
+    return RestrictionGraph.expand([
       ...profile.allergies,
       ...profile.dietaryPreferences,
       ...profile.healthConditions
-    ];
+    ]);
   }
 
   // Check if user has specific restriction
@@ -164,6 +170,8 @@ export class DietaryProfileModel {
       dietaryPreferences: JSON.parse(row.dietary_preferences || '[]'),
       healthConditions: JSON.parse(row.health_conditions || '[]'),
       nutritionalGoals: JSON.parse(row.nutritional_goals || '{}'),
+      allergyStrict: row.allergy_strict === 1,
+      customRestrictions: JSON.parse(row.custom_restrictions || '[]'),
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at)
     };
@@ -172,7 +180,7 @@ export class DietaryProfileModel {
 
 // Nutrition Model
 export class NutritionModel {
-  // Save nutritional information for a recipe
+  // Save nutritional information for a recipe; nutrition without a method was entered by hand
   static async saveNutrition(recipeId: string, servingSize: number, nutrition: Omit<NutritionalInfo, 'servingSize'>): Promise<void> {
     const id = uuidv4();
     
@@ -180,8 +188,9 @@ export class NutritionModel {
       await database.run(`
         INSERT OR REPLACE INTO recipe_nutrition (
           id, recipe_id, serving_size, calories, protein, carbohydrates,
-          fat, fiber, sugar, sodium, vitamins, minerals, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+          fat, fiber, sugar, sodium, vitamins, minerals, method,
+          unresolved_ingredients, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
       `, [
         id,
         recipeId,
@@ -194,7 +203,9 @@ export class NutritionModel {
         nutrition.sugar,
         nutrition.sodium,
         JSON.stringify(nutrition.vitamins),
-        JSON.stringify(nutrition.minerals)
+        JSON.stringify(nutrition.minerals),
+        nutrition.method || 'manual',
+        JSON.stringify(nutrition.unresolvedIngredients || [])
       ]);
     } catch (error) {
       throw new RecipeError('Failed to save nutritional information', 'SAVE_FAILED', 500);
@@ -212,24 +223,35 @@ export class NutritionModel {
         params.push(servingSize.toString());
       }
 
-      query += ' ORDER BY created_at DESC LIMIT 1';
+      query += ' ORDER BY created_at DESC, rowid DESC LIMIT 1';
 
       const row = await database.get(query, params);
       
-      if (!row) return null;
+      return row ? this.mapRowToNutrition(row) : null;
+    } catch (error) {
+      throw new RecipeError('Failed to fetch nutritional information', 'FETCH_FAILED', 500);
+    }
+  }
 
-      return {
-        calories: row.calories,
-        protein: row.protein,
-        carbohydrates: row.carbohydrates,
-        fat: row.fat,
-        fiber: row.fiber,
-        sugar: row.sugar,
-        sodium: row.sodium,
-        vitamins: JSON.parse(row.vitamins || '{}'),
-        minerals: JSON.parse(row.minerals || '{}'),
-        servingSize: row.serving_size
-      };
+  // Latest nutritional information for many recipes in one query; recipes without any are left out
+  static async getNutritionForRecipes(recipeIds: string[]): Promise<Map<string, NutritionalInfo>> {
+    const nutrition = new Map<string, NutritionalInfo>();
+    if (recipeIds.length === 0) return nutrition;
+
+    try {
+      const rows = await database.all(`
+        SELECT * FROM recipe_nutrition
+        WHERE recipe_id IN (${recipeIds.map(() => '?').join(', ')})
+        ORDER BY created_at DESC, rowid DESC
+      `, recipeIds);
+
+      for (const row of rows) {
+        if (!nutrition.has(row.recipe_id)) {
+          nutrition.set(row.recipe_id, this.mapRowToNutrition(row));
+        }
+      }
+
+      return nutrition;
     } catch (error) {
       throw new RecipeError('Failed to fetch nutritional information', 'FETCH_FAILED', 500);
     }
@@ -262,6 +284,24 @@ export class NutritionModel {
       servingSize: newServings
     };
   }
+
+  // Helper method to map database row to NutritionalInfo object
+  private static mapRowToNutrition(row: any): NutritionalInfo {
+    return {
+      calories: row.calories,
+      protein: row.protein,
+      carbohydrates: row.carbohydrates,
+      fat: row.fat,
+      fiber: row.fiber,
+      sugar: row.sugar,
+      sodium: row.sodium,
+      vitamins: JSON.parse(row.vitamins || '{}'),
+      minerals: JSON.parse(row.minerals || '{}'),
+      servingSize: row.serving_size,
+      ...(row.method && { method: row.method }),
+      ...(row.unresolved_ingredients && { unresolvedIngredients: JSON.parse(row.unresolved_ingredients) })
+    };
+  }
 }
 
 // Ingredient Substitution Model
@@ -0,0 +1,131 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from './database';
+import {
+  Household,
+  HouseholdInput,
+  HouseholdMember,
+  RecipeError
+} from '../../types';
+
+export class HouseholdModel {
+  // Create a household with its members, in the order given
+  static async create(input: HouseholdInput): Promise<Household> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    try {
+      await database.run(
+        'INSERT INTO households (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)',
+        [id, input.name, now, now]
+      );
+      await this.saveMembers(id, input.members);
+    } catch (error) {
+      throw new RecipeError('Failed to create household', 'CREATE_FAILED', 500);
+    }
+
+    return (await this.findById(id))!;
+  }
+
+  // Get a household with its members
+  static async findById(id: string): Promise<Household | null> {
+    try {
+      const row = await database.get('SELECT * FROM households WHERE id = ?', [id]);
+      if (!row) return null;
+
+      const members = await database.all(
+        'SELECT * FROM household_members WHERE household_id = ? ORDER BY position',
+        [id]
+      );
+
+      return this.mapRowToHousehold(row, members);
+    } catch (error) {
+      throw new RecipeError('Failed to fetch household', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Households a user is a member of
+  static async findByUserId(userId: string): Promise<Household[]> {
+    try {
+      const rows = await database.all(`
+        SELECT h.id FROM households h
+        JOIN household_members m ON m.household_id = h.id
+        WHERE m.user_id = ?
+        ORDER BY h.name
+      `, [userId]);
+
+      const households: Household[] = [];
+      for (const row of rows) {
+        const household = await this.findById(row.id);
+        if (household) households.push(household);
+      }
+
+      return households;
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to fetch households', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Rename a household and/or replace its member list
+  static async update(id: string, updates: Partial<HouseholdInput>): Promise<Household> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        throw new RecipeError('Household not found', 'NOT_FOUND', 404);
+      }
+
+      await database.run(
+        'UPDATE households SET name = ?, updated_at = ? WHERE id = ?',
+        [updates.name ?? existing.name, new Date().toISOString(), id]
+      );
+
+      if (updates.members) {
+        await this.saveMembers(id, updates.members);
+      }
+
+      return (await this.findById(id))!;
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to update household', 'UPDATE_FAILED', 500);
+    }
+  }
+
+  static async delete(id: string): Promise<void> {
+    try {
+      const result = await database.run('DELETE FROM households WHERE id = ?', [id]);
+
+      if (result.changes === 0) {
+        throw new RecipeError('Household not found', 'NOT_FOUND', 404);
+      }
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to delete household', 'DELETE_FAILED', 500);
+    }
+  }
+
+  private static async saveMembers(householdId: string, members: HouseholdMember[]): Promise<void> {
+    await database.run('DELETE FROM household_members WHERE household_id = ?', [householdId]);
+
+    for (const [position, member] of members.entries()) {
+      await database.run(`
+        INSERT INTO household_members (household_id, user_id, name, servings, position)
+        VALUES (?, ?, ?, ?, ?)
+      `, [householdId, member.userId, member.name ?? null, member.servings, position]);
+    }
+  }
+
+  // Helper method to map database rows to a Household object
+  private static mapRowToHousehold(row: any, memberRows: any[]): Household {
+    return {
+      id: row.id,
+      name: row.name,
+      members: memberRows.map(member => ({
+        userId: member.user_id,
+        ...(member.name !== null && { name: member.name }),
+        servings: member.servings
+      })),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
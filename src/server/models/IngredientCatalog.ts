@@ -0,0 +1,322 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from './database';
+import { IngredientNormalizer } from '../utils/ingredientNormalizer';
+import {
+  AisleCategory,
+  DietaryRestriction,
+  Ingredient,
+  IngredientCatalogEntry,
+  IngredientCatalogInput,
+  IngredientCatalogMatch,
+  RecipeError
+} from '../../types';
+
+export class IngredientCatalogModel {
+  // Add a catalog entry; its canonical name, aliases and plurals must not belong to another entry
+  static async create(input: IngredientCatalogInput): Promise<IngredientCatalogEntry> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    try {
+      await this.assertKeysAvailable(id, input.canonicalName, input.aliases, input.pluralForms);
+
+      await database.run(`
+        INSERT INTO ingredients_catalog (
+          id, canonical_name, aliases, plural_forms, category, default_unit,
+          density, allergens, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        id,
+        input.canonicalName,
+        JSON.stringify(input.aliases),
+        JSON.stringify(input.pluralForms),
+        input.category,
+        input.defaultUnit,
+        input.density ?? null,
+        JSON.stringify(input.allergens),
+        now,
+        now
+      ]);
+
+      await this.saveAliasKeys(id, input.canonicalName, input.aliases, input.pluralForms);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to create catalog entry', 'CREATE_FAILED', 500);
+    }
+
+    return (await this.findById(id))!;
+  }
+
+  static async findById(id: string): Promise<IngredientCatalogEntry | null> {
+    try {
+      const row = await database.get('SELECT * FROM ingredients_catalog WHERE id = ?', [id]);
+      return row ? this.mapRowToEntry(row) : null;
+    } catch (error) {
+      throw new RecipeError('Failed to fetch catalog entry', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Browse the catalog, optionally filtered by a name/alias substring and aisle category
+  static async list(options: {
+    q?: string;
+    category?: AisleCategory;
+    limit: number;
+    offset: number;
+  }): Promise<{ entries: IngredientCatalogEntry[]; total: number }> {
+    try {
+      let where = 'WHERE 1=1';
+      const params: any[] = [];
+
+      if (options.q) {
+        where += ` AND id IN (SELECT catalog_id FROM ingredient_aliases WHERE alias LIKE ?)`;
+        params.push(`%${IngredientNormalizer.normalizeName(options.q)}%`);
+      }
+
+      if (options.category) {
+        where += ' AND category = ?';
+        params.push(options.category);
+      }
+
+      const [rows, count] = await Promise.all([
+        database.all(
+          `SELECT * FROM ingredients_catalog ${where} ORDER BY canonical_name LIMIT ? OFFSET ?`,
+          [...params, options.limit, options.offset]
+        ),
+        database.get(`SELECT COUNT(*) AS total FROM ingredients_catalog ${where}`, params)
+      ]);
+
+      return { entries: rows.map(row => this.mapRowToEntry(row)), total: count.total };
+    } catch (error) {
+      throw new RecipeError('Failed to list catalog entries', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Resolve free text ("2 large eggs, beaten") to a catalog entry, trying the most specific key first
+  static async match(text: string): Promise<IngredientCatalogMatch> {
+    const keys = IngredientNormalizer.lookupKeys(text);
+    if (keys.length === 0) return { input: text, entry: null };
+
+    try {
+      const rows = await database.all(
+        `SELECT alias, catalog_id FROM ingredient_aliases WHERE alias IN (${keys.map(() => '?').join(', ')})`,
+        keys
+      );
+
+      const hit = keys
+        .map(key => rows.find(row => row.alias === key))
+        .find(row => row !== undefined);
+
+      if (!hit) return { input: text, entry: null };
+
+      return {
+        input: text,
+        entry: await this.findById(hit.catalog_id),
+        matchedKey: hit.alias
+      };
+    } catch (error) {
+      throw new RecipeError('Failed to match ingredient', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Set catalogId on each ingredient (clearing stale ids); the original name is kept as written
+  static async annotate(ingredients: Ingredient[]): Promise<Ingredient[]> {
+    const annotated: Ingredient[] = [];
+
+    for (const ingredient of ingredients) {
+      const { entry } = await this.match(ingredient.name);
+      const { catalogId, ...rest } = ingredient;
+      annotated.push(entry ? { ...rest, catalogId: entry.id } : rest);
+    }
+
+    return annotated;
+  }
+
+  // Catalog entry for an ingredient: the one it is linked to, else a match on its name (also when the linked
+  // entry has since been deleted)
+  static async resolve(ingredient: Ingredient): Promise<IngredientCatalogEntry | null> {
+    const linked = ingredient.catalogId ? await this.findById(ingredient.catalogId) : null;
+    return linked || (await this.match(ingredient.name)).entry;
+  }
+
+  // Allergens declared by each ingredient's catalog entry, keyed by the ingredient name as written
+  static async allergensFor(ingredients: Ingredient[]): Promise<Record<string, DietaryRestriction[]>> {
+    const allergens: Record<string, DietaryRestriction[]> = {};
+
+    for (const ingredient of ingredients) {
+      const entry = await this.resolve(ingredient);
+
+      if (entry) {
+        allergens[ingredient.name] = entry.allergens;
+      }
+    }
+
+    return allergens;
+  }
+
+  // Re-resolve stored recipes' ingredients, e.g. after aliases change; with a catalogId, only recipes linked to
+  // that entry. Returns recipes updated
+  static async relinkRecipes(catalogId?: string): Promise<number> {
+    try {
+      const rows = catalogId
+        ? await database.all(`
+            SELECT id, ingredients FROM recipes r
+            WHERE EXISTS (SELECT 1 FROM json_each(r.ingredients) i WHERE json_extract(i.value, '$.catalogId') = ?)
+          `, [catalogId])
+        : await database.all('SELECT id, ingredients FROM recipes');
+      let updated = 0;
+
+      for (const row of rows) {
+        const ingredients: Ingredient[] = JSON.parse(row.ingredients);
+        const annotated = await this.annotate(ingredients);
+
+        if (JSON.stringify(annotated) !== JSON.stringify(ingredients)) {
+          await database.run('UPDATE recipes SET ingredients = ? WHERE id = ?', [JSON.stringify(annotated), row.id]);
+          updated++;
+        }
+      }
+
+      return updated;
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to relink recipe ingredients', 'UPDATE_FAILED', 500);
+    }
+  }
+
+  // Update an entry's fields; name/alias/plural changes rebuild its lookup keys
+  static async update(id: string, updates: Partial<IngredientCatalogInput>): Promise<IngredientCatalogEntry> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        throw new RecipeError('Catalog entry not found', 'NOT_FOUND', 404);
+      }
+
+      const next = { ...existing, ...updates };
+      await this.assertKeysAvailable(id, next.canonicalName, next.aliases, next.pluralForms);
+
+      await database.run(`
+        UPDATE ingredients_catalog SET
+          canonical_name = ?, aliases = ?, plural_forms = ?, category = ?,
+          default_unit = ?, density = ?, allergens = ?, updated_at = ?
+        WHERE id = ?
+      `, [
+        next.canonicalName,
+        JSON.stringify(next.aliases),
+        JSON.stringify(next.pluralForms),
+        next.category,
+        next.defaultUnit,
+        next.density ?? null,
+        JSON.stringify(next.allergens),
+        new Date().toISOString(),
+        id
+      ]);
+
+      await this.saveAliasKeys(id, next.canonicalName, next.aliases, next.pluralForms);
+
+      return (await this.findById(id))!;
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to update catalog entry', 'UPDATE_FAILED', 500);
+    }
+  }
+
+  static async addAliases(id: string, aliases: string[]): Promise<IngredientCatalogEntry> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      throw new RecipeError('Catalog entry not found', 'NOT_FOUND', 404);
+    }
+
+    const known = new Set(existing.aliases.map(alias => alias.toLowerCase()));
+    const added = aliases.filter(alias => !known.has(alias.toLowerCase()));
+
+    return this.update(id, { aliases: [...existing.aliases, ...added] });
+  }
+
+  static async removeAlias(id: string, alias: string): Promise<IngredientCatalogEntry> {
+    const existing = await this.findById(id);
+    if (!existing) {
+      throw new RecipeError('Catalog entry not found', 'NOT_FOUND', 404);
+    }
+
+    const key = IngredientNormalizer.normalizeName(alias);
+    const remaining = existing.aliases.filter(a => IngredientNormalizer.normalizeName(a) !== key);
+
+    if (remaining.length === existing.aliases.length) {
+      throw new RecipeError(`"${alias}" is not an alias of ${existing.canonicalName}`, 'ALIAS_NOT_FOUND', 404);
+    }
+
+    return this.update(id, { aliases: remaining });
+  }
+
+  static async delete(id: string): Promise<void> {
+    try {
+      const result = await database.run('DELETE FROM ingredients_catalog WHERE id = ?', [id]);
+
+      if (result.changes === 0) {
+        throw new RecipeError('Catalog entry not found', 'NOT_FOUND', 404);
+      }
+
+      // Recipes linked to the entry get relinked to whatever their names match now, or unlinked
+      await this.relinkRecipes(id);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to delete catalog entry', 'DELETE_FAILED', 500);
+    }
+  }
+
+  // Every lookup key maps to exactly one entry
+  private static async assertKeysAvailable(
+    id: string,
+    canonicalName: string,
+    aliases: string[],
+    pluralForms: string[]
+  ): Promise<void> {
+    const keys = IngredientNormalizer.aliasKeys(canonicalName, aliases, pluralForms).map(key => key.alias);
+
+    const taken = await database.get(`
+      SELECT a.alias, c.canonical_name FROM ingredient_aliases a
+      JOIN ingredients_catalog c ON c.id = a.catalog_id
+      WHERE a.alias IN (${keys.map(() => '?').join(', ')}) AND a.catalog_id != ?
+      LIMIT 1
+    `, [...keys, id]);
+
+    if (taken) {
+      throw new RecipeError(
+        `"${taken.alias}" already refers to ${taken.canonical_name}`,
+        'ALIAS_CONFLICT',
+        409
+      );
+    }
+  }
+
+  private static async saveAliasKeys(
+    id: string,
+    canonicalName: string,
+    aliases: string[],
+    pluralForms: string[]
+  ): Promise<void> {
+    await database.run('DELETE FROM ingredient_aliases WHERE catalog_id = ?', [id]);
+
+    for (const { alias, kind } of IngredientNormalizer.aliasKeys(canonicalName, aliases, pluralForms)) {
+      await database.run(
+        'INSERT INTO ingredient_aliases (alias, catalog_id, kind) VALUES (?, ?, ?)',
+        [alias, id, kind]
+      );
+    }
+  }
+
+  // Helper method to map database row to IngredientCatalogEntry object
+  private static mapRowToEntry(row: any): IngredientCatalogEntry {
+    return {
+      id: row.id,
+      canonicalName: row.canonical_name,
+      aliases: JSON.parse(row.aliases),
+      pluralForms: JSON.parse(row.plural_forms),
+      category: row.category,
+      defaultUnit: row.default_unit,
+      density: row.density ?? undefined,
+      allergens: JSON.parse(row.allergens),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
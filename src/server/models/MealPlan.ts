@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from './database';
+import { MealPlanner } from '../utils/mealPlanner';
+import {
+  MealPlan,
+  MealPlanEntry,
+  RecipeError
+} from '../../types';
+
+export type MealPlanEntryInput = Omit<MealPlanEntry, 'id' | 'planId' | 'date' | 'locked'>;
+
+export class MealPlanModel {
+  // Create a plan together with its entries
+  static async create(
+    planData: Omit<MealPlan, 'id' | 'entries' | 'summary' | 'createdAt' | 'updatedAt'>,
+    entries: MealPlanEntryInput[]
+  ): Promise<MealPlan> {
+    const id = uuidv4();
+    const now = new Date();
+
+    try {
+      await database.run(`
+        INSERT INTO meal_plans (
+          id, user_id, week_start, slots, restrictions, targets, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        id,
+        planData.userId,
+        planData.weekStart,
+        JSON.stringify(planData.slots),
+        JSON.stringify(planData.restrictions),
+        JSON.stringify(planData.targets),
+        now.toISOString(),
+        now.toISOString()
+      ]);
+
+      for (const entry of entries) {
+        await this.saveEntry(id, entry);
+      }
+    } catch (error) {
+      throw new RecipeError('Failed to create meal plan', 'CREATE_FAILED', 500);
+    }
+
+    return (await this.findById(id))!;
+  }
+
+  // Get a plan with its entries
+  static async findById(id: string): Promise<MealPlan | null> {
+    try {
+      const row = await database.get('SELECT * FROM meal_plans WHERE id = ?', [id]);
+      if (!row) return null;
+
+      const entries = await database.all(
+        'SELECT * FROM meal_plan_entries WHERE plan_id = ? ORDER BY day',
+        [id]
+      );
+
+      return this.mapRowToPlan(row, entries);
+    } catch (error) {
+      throw new RecipeError('Failed to fetch meal plan', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // List a user's plans (without entries), newest week first
+  static async findByUserId(userId: string): Promise<MealPlan[]> {
+    try {
+      const rows = await database.all(
+        'SELECT * FROM meal_plans WHERE user_id = ? ORDER BY week_start DESC, created_at DESC',
+        [userId]
+      );
+      return rows.map(row => this.mapRowToPlan(row, []));
+    } catch (error) {
+      throw new RecipeError('Failed to fetch meal plans', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Insert or replace the meal in a (day, slot); the lock flag is kept
+  static async saveEntry(planId: string, entry: MealPlanEntryInput): Promise<void> {
+    await database.run(`
+      INSERT INTO meal_plan_entries (
+        id, plan_id, day, slot, recipe_id, recipe_name, source, servings, nutrition
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(plan_id, day, slot) DO UPDATE SET
+        recipe_id = excluded.recipe_id,
+        recipe_name = excluded.recipe_name,
+        source = excluded.source,
+        servings = excluded.servings,
+        nutrition = excluded.nutrition
+    `, [
+      uuidv4(),
+      planId,
+      entry.day,
+      entry.slot,
+      entry.recipeId,
+      entry.recipeName,
+      entry.source,
+      entry.servings,
+      JSON.stringify(entry.nutrition)
+    ]);
+  }
+
+  // Replace meals in a plan and bump its updated_at
+  static async replaceEntries(planId: string, entries: MealPlanEntryInput[]): Promise<void> {
+    try {
+      for (const entry of entries) {
+        await this.saveEntry(planId, entry);
+      }
+
+      await database.run(
+        'UPDATE meal_plans SET updated_at = ? WHERE id = ?',
+        [new Date().toISOString(), planId]
+      );
+    } catch (error) {
+      throw new RecipeError('Failed to update meal plan', 'UPDATE_FAILED', 500);
+    }
+  }
+
+  // Lock or unlock a single entry
+  static async setLocked(planId: string, entryId: string, locked: boolean): Promise<void> {
+    try {
+      const result = await database.run(
+        'UPDATE meal_plan_entries SET locked = ? WHERE id = ? AND plan_id = ?',
+        [locked ? 1 : 0, entryId, planId]
+      );
+
+      if (result.changes === 0) {
+        throw new RecipeError('Meal plan entry not found', 'NOT_FOUND', 404);
+      }
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to update meal plan entry', 'UPDATE_FAILED', 500);
+    }
+  }
+
+  // Delete a plan (entries cascade)
+  static async delete(id: string): Promise<void> {
+    try {
+      const result = await database.run('DELETE FROM meal_plans WHERE id = ?', [id]);
+
+      if (result.changes === 0) {
+        throw new RecipeError('Meal plan not found', 'NOT_FOUND', 404);
+      }
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to delete meal plan', 'DELETE_FAILED', 500);
+    }
+  }
+
+  // Helper method to map database rows to a MealPlan object
+  private static mapRowToPlan(row: any, entryRows: any[]): MealPlan {
+    const slots = JSON.parse(row.slots);
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      weekStart: row.week_start,
+      slots,
+      restrictions: JSON.parse(row.restrictions),
+      targets: JSON.parse(row.targets),
+      entries: entryRows
+        .map(entry => ({
+          id: entry.id,
+          planId: entry.plan_id,
+          day: entry.day,
+          date: MealPlanner.dateForDay(row.week_start, entry.day),
+          slot: entry.slot,
+          recipeId: entry.recipe_id,
+          recipeName: entry.recipe_name,
+          source: entry.source,
+          servings: entry.servings,
+          nutrition: JSON.parse(entry.nutrition),
+          locked: entry.locked === 1
+        }))
+        .sort((a, b) => a.day - b.day || MealPlanner.SLOTS.indexOf(a.slot) - MealPlanner.SLOTS.indexOf(b.slot)),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
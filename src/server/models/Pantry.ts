@@ -0,0 +1,194 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from './database';
+import { IngredientNormalizer } from '../utils/ingredientNormalizer';
+import {
+  PantryItem,
+  PantryItemInput,
+  RecipeError
+} from '../../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class PantryModel {
+  // Add an item to a user's pantry
+  static async create(userId: string, itemData: PantryItemInput): Promise<PantryItem> {
+    const now = new Date();
+
+    const item: PantryItem = {
+      ...itemData,
+      id: uuidv4(),
+      userId,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    try {
+      await database.run(`
+        INSERT INTO pantry_items (
+          id, user_id, name, normalized_name, quantity, unit,
+          purchased_on, expires_on, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        item.id,
+        item.userId,
+        item.name,
+        IngredientNormalizer.normalizeName(item.name),
+        item.quantity,
+        item.unit,
+        item.purchasedOn || null,
+        item.expiresOn || null,
+        item.createdAt.toISOString(),
+        item.updatedAt.toISOString()
+      ]);
+
+      return this.withExpiry(item);
+    } catch (error) {
+      throw new RecipeError('Failed to add pantry item', 'CREATE_FAILED', 500);
+    }
+  }
+
+  // List a user's pantry, soonest expiry first (items without an expiry date last)
+  static async findByUserId(
+    userId: string,
+    options: { expiringWithinDays?: number; includeExpired?: boolean } = {}
+  ): Promise<PantryItem[]> {
+    try {
+      let query = 'SELECT * FROM pantry_items WHERE user_id = ?';
+      const params: any[] = [userId];
+
+      if (options.includeExpired === false) {
+        query += ' AND (expires_on IS NULL OR expires_on >= ?)';
+        params.push(this.today());
+      }
+
+      if (options.expiringWithinDays !== undefined) {
+        query += ' AND expires_on IS NOT NULL AND expires_on <= ?';
+        params.push(this.dateInDays(options.expiringWithinDays));
+      }
+
+      query += ' ORDER BY expires_on IS NULL, expires_on, name';
+
+      const rows = await database.all(query, params);
+      return rows.map(row => this.mapRowToItem(row));
+    } catch (error) {
+      throw new RecipeError('Failed to fetch pantry items', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Get a single pantry item belonging to a user
+  static async findById(userId: string, id: string): Promise<PantryItem | null> {
+    try {
+      const row = await database.get(
+        'SELECT * FROM pantry_items WHERE id = ? AND user_id = ?',
+        [id, userId]
+      );
+
+      if (!row) return null;
+
+      return this.mapRowToItem(row);
+    } catch (error) {
+      throw new RecipeError('Failed to fetch pantry item', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Update a pantry item
+  static async update(userId: string, id: string, updates: Partial<PantryItemInput>): Promise<PantryItem> {
+    try {
+      const existing = await this.findById(userId, id);
+      if (!existing) {
+        throw new RecipeError('Pantry item not found', 'NOT_FOUND', 404);
+      }
+
+      const updatedItem: PantryItem = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date()
+      };
+
+      await database.run(`
+        UPDATE pantry_items SET
+          name = ?, normalized_name = ?, quantity = ?, unit = ?,
+          purchased_on = ?, expires_on = ?, updated_at = ?
+        WHERE id = ? AND user_id = ?
+      `, [
+        updatedItem.name,
+        IngredientNormalizer.normalizeName(updatedItem.name),
+        updatedItem.quantity,
+        updatedItem.unit,
+        updatedItem.purchasedOn || null,
+        updatedItem.expiresOn || null,
+        updatedItem.updatedAt.toISOString(),
+        id,
+        userId
+      ]);
+
+      return this.withExpiry(updatedItem);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to update pantry item', 'UPDATE_FAILED', 500);
+    }
+  }
+
+  // Remove an item from a user's pantry
+  static async delete(userId: string, id: string): Promise<void> {
+    try {
+      const result = await database.run(
+        'DELETE FROM pantry_items WHERE id = ? AND user_id = ?',
+        [id, userId]
+      );
+
+      if (result.changes === 0) {
+        throw new RecipeError('Pantry item not found', 'NOT_FOUND', 404);
+      }
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to delete pantry item', 'DELETE_FAILED', 500);
+    }
+  }
+
+  // Remove every expired item from a user's pantry, returning how many were removed
+  static async deleteExpired(userId: string): Promise<number> {
+    try {
+      const result = await database.run(
+        'DELETE FROM pantry_items WHERE user_id = ? AND expires_on < ?',
+        [userId, this.today()]
+      );
+      return result.changes;
+    } catch (error) {
+      throw new RecipeError('Failed to delete expired pantry items', 'DELETE_FAILED', 500);
+    }
+  }
+
+  private static today(): string {
+    return this.dateInDays(0);
+  }
+
+  private static dateInDays(days: number): string {
+    return new Date(Date.now() + days * MS_PER_DAY).toISOString().slice(0, 10);
+  }
+
+  // Derive daysUntilExpiry; cleared dates (null from an update) come back as undefined
+  private static withExpiry(item: PantryItem): PantryItem {
+    const expiresOn = item.expiresOn || undefined;
+    const daysUntilExpiry = expiresOn
+      ? Math.round((Date.parse(expiresOn) - Date.parse(this.today())) / MS_PER_DAY)
+      : undefined;
+
+    return { ...item, purchasedOn: item.purchasedOn || undefined, expiresOn, daysUntilExpiry };
+  }
+
+  // Helper method to map database row to PantryItem object
+  private static mapRowToItem(row: any): PantryItem {
+    return this.withExpiry({
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      quantity: row.quantity,
+      unit: row.unit,
+      purchasedOn: row.purchased_on || undefined,
+      expiresOn: row.expires_on || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    });
+  }
+}
@@ -1,26 +1,46 @@
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { database } from './database';
+import { config } from '../utils/config';
+import { IngredientNormalizer } from '../utils/ingredientNormalizer';
+import { DietaryRuleEngine } from '../utils/dietaryRules';
+import { RestrictionGraph } from '../utils/restrictionGraph';
 import { 
   Recipe, 
   Ingredient, 
   NutritionalInfo, 
   DietaryRestriction,
+  CustomRestriction,
   RecipeCache,
-  RecipeError 
+  RecipeCacheQuery,
+  RecipeCacheQueryType,
+  RecipeCacheStats,
+  RecipeListOptions,
+  RecipeSortField,
+  PaginatedResult,
+  RecipeInput,
+  RecipeSearchOptions,
+  RecipeSearchResult,
+  PopularityMetric,
+  RecipeError,
+  ValidationError
 } from '../../types';
 
 export class RecipeModel {
   // Create a new recipe
-  static async create(recipeData: Omit<Recipe, 'id' | 'createdAt' | 'updatedAt' | 'popularity'>): Promise<Recipe> {
+  static async create(recipeData: RecipeInput): Promise<Recipe> {
     const id = uuidv4();
     const now = new Date();
     
     const recipe: Recipe = {
       ...recipeData,
+      // Store implied tags too, so "vegan" recipes also match dairy-free and egg-free filters
+      dietaryCompatibility: RestrictionGraph.expand(recipeData.dietaryCompatibility),
       id,
       createdAt: now,
       updatedAt: now,
-      popularity: 0
+      popularity: 0,
+      cookCount: 0
     };
 
     try {
@@ -66,29 +86,36 @@ export class RecipeModel {
     }
   }
 
-  // Search recipes by ingredients
-  static async findByIngredients(ingredients: string[], dietaryRestrictions: DietaryRestriction[] = []): Promise<Recipe[]> {
+  // Search recipes by ingredients (whole-word matches on ingredient names, so "egg" does not match "eggplant")
+  static async findByIngredients(
+    ingredients: string[],
+    dietaryRestrictions: DietaryRestriction[] = [],
+    limit: number = 20
+  ): Promise<Recipe[]> {
     try {
-      let query = 'SELECT * FROM recipes WHERE 1=1';
+      let query = 'SELECT r.* FROM recipes r';
       const params: any[] = [];
 
-      // Filter by dietary restrictions
-      if (dietaryRestrictions.length > 0) {
-        const restrictionPlaceholders = dietaryRestrictions.map(() => '?').join(',');
-        query += ` AND dietary_compatibility LIKE '%' || ? || '%'`;
-        params.push(JSON.stringify(dietaryRestrictions));
-      }
+      const phrases = ingredients
+        .map(ingredient => this.quoteFtsPhrase(ingredient))
+        .filter(Boolean);
 
-      // Add ingredient matching (simplified - in production, you'd want more sophisticated matching)
-      if (ingredients.length > 0) {
-        const ingredientConditions = ingredients.map(() => 'ingredients LIKE ?').join(' OR ');
-        query += ` AND (${ingredientConditions})`;
-        ingredients.forEach(ingredient => {
-          params.push(`%${ingredient.toLowerCase()}%`);
-        });
+      if (phrases.length > 0) {
+        query += ' JOIN recipes_fts ON recipes_fts.rowid = r.rowid WHERE recipes_fts MATCH ?';
+        params.push(`ingredients : (${phrases.join(' OR ')})`);
+      } else {
+        query += ' WHERE 1=1';
       }
 
-      query += ' ORDER BY popularity DESC, created_at DESC LIMIT 20';
+      // Filter by dietary restrictions
+      const dietary = this.dietaryFilter(dietaryRestrictions, 'r.id');
+      query += dietary.clause;
+      params.push(...dietary.params);
+
+      query += phrases.length > 0
+        ? ' ORDER BY recipes_fts.rank, r.popularity DESC LIMIT ?'
+        : ' ORDER BY r.popularity DESC, r.created_at DESC LIMIT ?';
+      params.push(limit);
 
       const rows = await database.all(query, params);
       return rows.map(row => this.mapRowToRecipe(row));
@@ -99,28 +126,150 @@ export class RecipeModel {
 
   // Search recipes by name/cuisine
   static async findByName(searchTerm: string, dietaryRestrictions: DietaryRestriction[] = []): Promise<Recipe[]> {
+    const result = await this.search({
+      query: searchTerm,
+      dietaryRestrictions,
+      limit: 20,
+      offset: 0
+    });
+
+    return result.hits;
+  }
+
+  // Full-text search ranked by BM25, with highlighted snippets and facet counts over all matches
+  static async search(options: RecipeSearchOptions): Promise<RecipeSearchResult> {
+    const match = this.buildMatchExpression(options.query);
+    if (!match) {
+      throw new ValidationError('Search query must contain at least one word', 'q');
+    }
+
     try {
-      let query = `
-        SELECT * FROM recipes 
-        WHERE (name LIKE ? OR description LIKE ? OR cuisine LIKE ?)
-      `;
-      const params = [`%${searchTerm}%`, `%${searchTerm}%`, `%${searchTerm}%`];
+      let where = 'recipes_fts MATCH ?';
+      const params: any[] = [match];
 
-      // Filter by dietary restrictions
-      if (dietaryRestrictions.length > 0) {
-        query += ` AND dietary_compatibility LIKE ?`;
-        params.push(`%${JSON.stringify(dietaryRestrictions)}%`);
+      const dietary = this.dietaryFilter(options.dietaryRestrictions, 'r.id');
+      where += dietary.clause;
+      params.push(...dietary.params);
+
+      if (options.cuisine) {
+        where += ' AND lower(r.cuisine) = lower(?)';
+        params.push(options.cuisine);
       }
 
-      query += ' ORDER BY popularity DESC, created_at DESC LIMIT 20';
+      if (options.difficulty !== undefined) {
+        where += ' AND r.difficulty = ?';
+        params.push(options.difficulty);
+      }
 
-      const rows = await database.all(query, params);
-      return rows.map(row => this.mapRowToRecipe(row));
+      if (options.maxCookingTime !== undefined) {
+        where += ' AND r.cooking_time <= ?';
+        params.push(options.maxCookingTime);
+      }
+
+      const from = `FROM recipes r JOIN recipes_fts ON recipes_fts.rowid = r.rowid WHERE ${where}`;
+
+      const rows = await database.all(`
+        SELECT r.*,
+          bm25(recipes_fts, ${this.SEARCH_WEIGHTS.join(', ')}) AS score,
+          highlight(recipes_fts, 1, '${this.MATCH_OPEN}', '${this.MATCH_CLOSE}') AS name_highlight,
+          snippet(recipes_fts, -1, '${this.MATCH_OPEN}', '${this.MATCH_CLOSE}', '…', 16) AS snippet
+        ${from}
+        ORDER BY score, r.popularity DESC
+        LIMIT ? OFFSET ?
+      `, [...params, options.limit, options.offset]);
+
+      const [total, cuisine, difficulty, dietaryTags] = await Promise.all([
+        database.get(`SELECT COUNT(*) AS count ${from}`, params),
+        database.all(`
+          SELECT r.cuisine AS value, COUNT(*) AS count ${from} AND r.cuisine IS NOT NULL AND r.cuisine != ''
+          GROUP BY lower(r.cuisine) ORDER BY count DESC, value
+        `, params),
+        database.all(`SELECT r.difficulty AS value, COUNT(*) AS count ${from} GROUP BY r.difficulty ORDER BY value`, params),
+        database.all(`
+          SELECT tag.restriction AS value, COUNT(*) AS count
+          FROM recipes r
+          JOIN recipes_fts ON recipes_fts.rowid = r.rowid
+          JOIN recipe_dietary_tags tag ON tag.recipe_id = r.id
+          WHERE ${where}
+          GROUP BY tag.restriction ORDER BY count DESC, value
+        `, params)
+      ]);
+
+      return {
+        hits: rows.map(row => ({
+          ...this.mapRowToRecipe(row),
+          // bm25() is lower-is-better; flip it so clients can sort descending
+          score: Math.round(-row.score * 1000) / 1000,
+          highlights: {
+            name: this.toHighlightHtml(row.name_highlight),
+            snippet: this.toHighlightHtml(row.snippet)
+          }
+        })),
+        total: total.count,
+        facets: { cuisine, difficulty, dietaryTags }
+      };
     } catch (error) {
-      throw new RecipeError('Failed to search recipes by name', 'SEARCH_FAILED', 500);
+      throw new RecipeError('Failed to search recipes', 'SEARCH_FAILED', 500);
     }
   }
 
+  // bm25() weights in recipes_fts column order: recipe_id, name, description, cuisine, tags, ingredients, instructions
+  private static readonly SEARCH_WEIGHTS = [0, 10, 2, 4, 4, 5, 1];
+  // FTS5 wraps matches in these control characters; they become <mark> tags once the recipe text is escaped
+  private static readonly MATCH_OPEN = '\u0002';
+  private static readonly MATCH_CLOSE = '\u0003';
+
+  // Recipe text is user input, so only the match markers may come out as HTML
+  private static toHighlightHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+      .split(this.MATCH_OPEN).join('<mark>')
+      .split(this.MATCH_CLOSE).join('</mark>');
+  }
+
+  // Turn user input into a safe FTS5 expression: "quoted phrases", prefix*, OR, implicit AND otherwise
+  static buildMatchExpression(input: string): string | null {
+    const parts: string[] = [];
+    const tokens = input.match(/"[^"]*"|\S+/g) || [];
+
+    for (const token of tokens) {
+      if (token === 'OR') {
+        // Only meaningful between two terms
+        if (parts.length > 0 && parts[parts.length - 1] !== 'OR') parts.push('OR');
+        continue;
+      }
+
+      if (token.startsWith('"')) {
+        const phrase = this.quoteFtsPhrase(token.replace(/"/g, ''));
+        if (phrase) parts.push(phrase);
+        continue;
+      }
+
+      const prefix = token.endsWith('*');
+      const phrase = this.quoteFtsPhrase(token);
+      if (phrase) parts.push(prefix ? `${phrase}*` : phrase);
+    }
+
+    if (parts[parts.length - 1] === 'OR') parts.pop();
+
+    return parts.length > 0 ? parts.join(' ') : null;
+  }
+
+  // Quote text as an FTS5 phrase, dropping characters that are not part of any token
+  private static quoteFtsPhrase(text: string): string | null {
+    const words = text
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean);
+
+    return words.length > 0 ? `"${words.join(' ')}"` : null;
+  }
+
   // Update recipe
   static async update(id: string, updates: Partial<Recipe>): Promise<Recipe> {
     try {
@@ -132,6 +281,7 @@ export class RecipeModel {
       const updatedRecipe = {
         ...existing,
         ...updates,
+        dietaryCompatibility: RestrictionGraph.expand(updates.dietaryCompatibility || existing.dietaryCompatibility),
         updatedAt: new Date()
       };
 
@@ -190,18 +340,35 @@ export class RecipeModel {
     }
   }
 
-  // Get popular recipes
-  static async getPopular(limit: number = 10, dietaryRestrictions: DietaryRestriction[] = []): Promise<Recipe[]> {
+  // Record that a recipe was cooked
+  static async incrementCookCount(id: string): Promise<void> {
+    try {
+      await database.run(
+        'UPDATE recipes SET cook_count = cook_count + 1 WHERE id = ?',
+        [id]
+      );
+    } catch (error) {
+      throw new RecipeError('Failed to update recipe cook count', 'UPDATE_FAILED', 500);
+    }
+  }
+
+  // Get popular recipes, ranked by views (popularity) or by times cooked
+  static async getPopular(
+    limit: number = 10,
+    dietaryRestrictions: DietaryRestriction[] = [],
+    metric: PopularityMetric = 'popularity'
+  ): Promise<Recipe[]> {
     try {
       let query = 'SELECT * FROM recipes WHERE 1=1';
       const params: any[] = [];
 
-      if (dietaryRestrictions.length > 0) {
-        query += ` AND dietary_compatibility LIKE ?`;
-        params.push(`%${JSON.stringify(dietaryRestrictions)}%`);
-      }
+      const dietary = this.dietaryFilter(dietaryRestrictions);
+      query += dietary.clause;
+      params.push(...dietary.params);
 
-      query += ' ORDER BY popularity DESC, created_at DESC LIMIT ?';
+      query += metric === 'cookCount'
+        ? ' ORDER BY cook_count DESC, popularity DESC, created_at DESC LIMIT ?'
+        : ' ORDER BY popularity DESC, created_at DESC LIMIT ?';
       params.push(limit);
 
       const rows = await database.all(query, params);
@@ -211,6 +378,70 @@ export class RecipeModel {
     }
   }
 
+  // List recipes with filters, sorting and keyset (cursor) pagination
+  static async list(options: RecipeListOptions): Promise<PaginatedResult<Recipe>> {
+    const column = this.SORT_COLUMNS[options.sort];
+    const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+    const comparator = options.order === 'asc' ? '>' : '<';
+    const cursor = options.cursor ? this.decodeCursor(options.cursor) : null;
+
+    try {
+      let query = 'SELECT * FROM recipes WHERE 1=1';
+      const params: any[] = [];
+
+      if (options.cuisine) {
+        query += ' AND lower(cuisine) = lower(?)';
+        params.push(options.cuisine);
+      }
+
+      // Recipe must carry every requested tag
+      for (const tag of options.tags || []) {
+        query += ' AND EXISTS (SELECT 1 FROM json_each(recipes.tags) WHERE lower(json_each.value) = lower(?))';
+        params.push(tag);
+      }
+
+      const dietary = this.dietaryFilter(options.dietaryRestrictions || []);
+      query += dietary.clause;
+      params.push(...dietary.params);
+
+      if (options.maxCookingTime !== undefined) {
+        query += ' AND cooking_time <= ?';
+        params.push(options.maxCookingTime);
+      }
+
+      if (options.minDifficulty !== undefined) {
+        query += ' AND difficulty >= ?';
+        params.push(options.minDifficulty);
+      }
+
+      if (options.maxDifficulty !== undefined) {
+        query += ' AND difficulty <= ?';
+        params.push(options.maxDifficulty);
+      }
+
+      // Resume after the last row of the previous page; id breaks ties
+      if (cursor) {
+        query += ` AND (${column} ${comparator} ? OR (${column} = ? AND id ${comparator} ?))`;
+        params.push(cursor.value, cursor.value, cursor.id);
+      }
+
+      query += ` ORDER BY ${column} ${direction}, id ${direction} LIMIT ?`;
+      params.push(options.limit + 1);
+
+      const rows = await database.all(query, params);
+      const hasMore = rows.length > options.limit;
+      const pageRows = hasMore ? rows.slice(0, options.limit) : rows;
+      const lastRow = pageRows[pageRows.length - 1];
+
+      return {
+        items: pageRows.map(row => this.mapRowToRecipe(row)),
+        nextCursor: hasMore && lastRow ? this.encodeCursor(lastRow[column], lastRow.id) : null
+      };
+    } catch (error) {
+      throw new RecipeError('Failed to list recipes', 'FETCH_FAILED', 500);
+    }
+  }
+
   // Scale recipe ingredients
   static scaleIngredients(ingredients: Ingredient[], originalServings: number, newServings: number): Ingredient[] {
     const scaleFactor = newServings / originalServings;
@@ -221,11 +452,59 @@ export class RecipeModel {
     }));
   }
 
-  // Check dietary compatibility
+  // Check dietary compatibility: every restriction must be tagged (directly or by implication) and not
+  // contradicted by the ingredient rules
   static checkDietaryCompatibility(recipe: Recipe, restrictions: DietaryRestriction[]): boolean {
-    return restrictions.every(restriction => 
-      recipe.dietaryCompatibility.includes(restriction)
+    const tagged = restrictions.filter(restriction =>
+      RestrictionGraph.satisfies(recipe.dietaryCompatibility, restriction)
     );
+    return tagged.length === restrictions.length
+      && DietaryRuleEngine.confirmed(recipe, tagged).length === tagged.length;
+  }
+
+  // SQL condition requiring a recipe to be compatible with every given restriction
+  private static dietaryFilter(
+    restrictions: DietaryRestriction[],
+    idColumn: string = 'id'
+  ): { clause: string; params: any[] } {
+    // Stored tags include implied ones, so only the strictest restrictions need checking
+    const unique = RestrictionGraph.reduce(restrictions);
+    if (unique.length === 0) return { clause: '', params: [] };
+
+    const placeholders = unique.map(() => '?').join(', ');
+    return {
+      clause: ` AND ${idColumn} IN (
+        SELECT recipe_id FROM recipe_dietary_tags
+        WHERE restriction IN (${placeholders})
+        GROUP BY recipe_id
+        HAVING COUNT(*) = ?
+      )`,
+      params: [...unique, unique.length]
+    };
+  }
+
+  private static readonly SORT_COLUMNS: Record<RecipeSortField, string> = {
+    popularity: 'popularity',
+    cookCount: 'cook_count',
+    createdAt: 'created_at',
+    cookingTime: 'cooking_time',
+    difficulty: 'difficulty'
+  };
+
+  private static encodeCursor(value: string | number, id: string): string {
+    return Buffer.from(JSON.stringify({ value, id })).toString('base64url');
+  }
+
+  private static decodeCursor(cursor: string): { value: string | number; id: string } {
+    try {
+      const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+      if (decoded === null || typeof decoded.id !== 'string' || !['string', 'number'].includes(typeof decoded.value)) {
+        throw new Error('Malformed cursor');
+      }
+      return decoded;
+    } catch (error) {
+      throw new ValidationError('Invalid pagination cursor', 'cursor');
+    }
   }
 
   // Helper method to map database row to Recipe object
@@ -245,6 +524,7 @@ export class RecipeModel {
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
       popularity: row.popularity,
+      cookCount: row.cook_count || 0,
       nutritionalInfo: undefined // Will be loaded separately if needed
     };
   }
@@ -252,49 +532,189 @@ export class RecipeModel {
 
 // Recipe Cache Model
 export class RecipeCacheModel {
-  // Save recipe to cache
-  static async save(queryHash: string, recipeData: Recipe): Promise<void> {
+  // Lookup statistics since process start
+  private static stats = { exactHits: 0, similarHits: 0, misses: 0 };
+
+  // Maximum number of candidate entries scanned for a similarity match
+  private static readonly SIMILARITY_SCAN_LIMIT = 200;
+
+  // Build a normalized cache query so equivalent requests share one entry
+  static buildQuery(
+    type: RecipeCacheQueryType,
+    input: {
+      ingredients?: string[];
+      priorityIngredients?: string[];
+      foodName?: string;
+      cuisinePreference?: string;
+      servingSize: number;
+      customRestrictions?: CustomRestriction[];
+    },
+    restrictions: DietaryRestriction[]
+  ): RecipeCacheQuery {
+    const ingredients = type === 'ingredients'
+      ? IngredientNormalizer.normalizeList(input.ingredients || [])
+      : [];
+
+    const context = {
+      type,
+      foodName: input.foodName ? IngredientNormalizer.normalizeName(input.foodName) : null,
+      cuisinePreference: input.cuisinePreference ? input.cuisinePreference.trim().toLowerCase() : null,
+      servingSize: input.servingSize,
+      priorityIngredients: IngredientNormalizer.normalizeList(input.priorityIngredients || []),
+      restrictions: [...new Set(restrictions.map(r => r.trim().toLowerCase()))].sort(),
+      // Only present when set, so keys for requests without custom restrictions are unchanged
+      ...(input.customRestrictions?.length && {
+        customRestrictions: [...input.customRestrictions].sort((a, b) => a.name.localeCompare(b.name))
+      })
+    };
+
+    return {
+      type,
+      key: this.hash({ ...context, ingredients }),
+      contextKey: this.hash(context),
+      ingredients
+    };
+  }
+
+  // Save the full response payload for a query, replacing any previous entry
+  static async save<T>(
+    query: RecipeCacheQuery,
+    payload: T[],
+    ttlHours: number = config.cacheTtlHours
+  ): Promise<void> {
     try {
-      const id = uuidv4();
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + ttlHours * 60 * 60 * 1000);
+
       await database.run(`
-        INSERT OR REPLACE INTO recipe_cache (
-          id, query_hash, recipe_data, hit_count, last_accessed, created_at
-        ) VALUES (?, ?, ?, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
-      `, [id, queryHash, JSON.stringify(recipeData)]);
+        INSERT INTO recipe_cache (
+          id, query_hash, query_type, query_context, ingredient_set, payload,
+          hit_count, last_accessed, expires_at, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, 0, ?, ?, ?)
+        ON CONFLICT(query_hash) DO UPDATE SET
+          query_type = excluded.query_type,
+          query_context = excluded.query_context,
+          ingredient_set = excluded.ingredient_set,
+          payload = excluded.payload,
+          last_accessed = excluded.last_accessed,
+          expires_at = excluded.expires_at,
+          created_at = excluded.created_at
+      `, [
+        uuidv4(),
+        query.key,
+        query.type,
+        query.contextKey,
+        JSON.stringify(query.ingredients),
+        JSON.stringify(payload),
+        now.toISOString(),
+        expiresAt.toISOString(),
+        now.toISOString()
+      ]);
     } catch (error) {
       console.error('Failed to save recipe to cache:', error);
       // Don't throw - caching failures shouldn't break the app
     }
   }
 
-  // Get recipe from cache
-  static async get(queryHash: string): Promise<Recipe | null> {
+  // Get the cached payload for a query: exact match first, then (optionally) a similar ingredient set
+  static async get<T>(query: RecipeCacheQuery): Promise<T[] | null> {
     try {
-      const row = await database.get(
-        'SELECT * FROM recipe_cache WHERE query_hash = ?',
-        [queryHash]
+      const now = new Date().toISOString();
+      let row = await database.get(
+        'SELECT * FROM recipe_cache WHERE query_hash = ? AND expires_at > ?',
+        [query.key, now]
       );
 
-      if (!row) return null;
+      if (row) {
+        this.stats.exactHits++;
+      } else if (config.cacheSimilarityEnabled && query.type === 'ingredients') {
+        row = await this.findSimilar(query, now);
+        if (row) this.stats.similarHits++;
+      }
+
+      if (!row) {
+        this.stats.misses++;
+        return null;
+      }
 
       // Update hit count and last accessed
       await database.run(`
         UPDATE recipe_cache 
-        SET hit_count = hit_count + 1, last_accessed = CURRENT_TIMESTAMP 
-        WHERE query_hash = ?
-      `, [queryHash]);
+        SET hit_count = hit_count + 1, last_accessed = ? 
+        WHERE id = ?
+      `, [now, row.id]);
 
-      return JSON.parse(row.recipe_data);
+      return this.mapRowToCacheEntry<T>(row).payload;
     } catch (error) {
       console.error('Failed to get recipe from cache:', error);
       return null;
     }
   }
 
-  // Generate cache key for query
-  static generateCacheKey(type: string, input: any, restrictions: DietaryRestriction[]): string {
-    const crypto = require('crypto');
-    const data = JSON.stringify({ type, input, restrictions });
-    return crypto.createHash('md5').update(data).digest('hex');
+  // Cache size and lookup statistics
+  static async getStats(): Promise<RecipeCacheStats> {
+    const { exactHits, similarHits, misses } = this.stats;
+    const lookups = exactHits + similarHits + misses;
+
+    let entries = 0;
+    try {
+      const row = await database.get(
+        'SELECT COUNT(*) as count FROM recipe_cache WHERE expires_at > ?',
+        [new Date().toISOString()]
+      );
+      entries = row.count;
+    } catch (error) {
+      console.error('Failed to count cache entries:', error);
+    }
+
+    return {
+      entries,
+      exactHits,
+      similarHits,
+      misses,
+      hitRate: lookups > 0 ? Math.round(((exactHits + similarHits) / lookups) * 1000) / 1000 : 0,
+      similarityEnabled: config.cacheSimilarityEnabled,
+      similarityThreshold: config.cacheSimilarityThreshold
+    };
+  }
+
+  // Find the live entry with the same context whose ingredient set overlaps most
+  private static async findSimilar(query: RecipeCacheQuery, now: string): Promise<any | null> {
+    const candidates = await database.all(`
+      SELECT * FROM recipe_cache
+      WHERE query_context = ? AND expires_at > ?
+      ORDER BY last_accessed DESC
+      LIMIT ?
+    `, [query.contextKey, now, this.SIMILARITY_SCAN_LIMIT]);
+
+    let best: any = null;
+    let bestScore = 0;
+
+    for (const candidate of candidates) {
+      const score = IngredientNormalizer.similarity(query.ingredients, JSON.parse(candidate.ingredient_set || '[]'));
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    return bestScore >= config.cacheSimilarityThreshold ? best : null;
   }
-}
\ No newline at end of file
+
+  private static hash(data: unknown): string {
+    return crypto.createHash('md5').update(JSON.stringify(data)).digest('hex');
+  }
+
+  private static mapRowToCacheEntry<T>(row: any): RecipeCache<T> {
+    return {
+      id: row.id,
+      queryHash: row.query_hash,
+      queryType: row.query_type,
+      payload: JSON.parse(row.payload),
+      hitCount: row.hit_count,
+      lastAccessed: new Date(row.last_accessed),
+      expiresAt: new Date(row.expires_at),
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from './database';
+import {
+  RecipeDraft,
+  RecipeDraftKind,
+  RecipeDraftSource,
+  RecipeSuggestion,
+  RecipeVariation,
+  RecipeError
+} from '../../types';
+
+export class RecipeDraftModel {
+  // Save a generated suggestion or variation as a draft
+  static async create(
+    kind: RecipeDraftKind,
+    recipe: RecipeSuggestion | RecipeVariation,
+    source: RecipeDraftSource
+  ): Promise<RecipeDraft> {
+    const draft: RecipeDraft = {
+      id: uuidv4(),
+      kind,
+      recipe,
+      servingSize: source.prompt.servingSize,
+      source,
+      createdAt: source.generatedAt
+    };
+
+    try {
+      await database.run(`
+        INSERT INTO recipe_drafts (id, kind, recipe, serving_size, source, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+        draft.id,
+        draft.kind,
+        JSON.stringify(draft.recipe),
+        draft.servingSize,
+        JSON.stringify(draft.source),
+        draft.createdAt.toISOString()
+      ]);
+
+      return draft;
+    } catch (error) {
+      throw new RecipeError('Failed to save recipe draft', 'CREATE_FAILED', 500);
+    }
+  }
+
+  static async findById(id: string): Promise<RecipeDraft | null> {
+    try {
+      const row = await database.get('SELECT * FROM recipe_drafts WHERE id = ?', [id]);
+      return row ? this.mapRowToDraft(row) : null;
+    } catch (error) {
+      throw new RecipeError('Failed to fetch recipe draft', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Link a draft to the recipe promoted from it; promoted drafts are kept past the retention period
+  static async markPromoted(id: string, recipeId: string): Promise<void> {
+    try {
+      await database.run(
+        'UPDATE recipe_drafts SET promoted_recipe_id = ? WHERE id = ?',
+        [recipeId, id]
+      );
+    } catch (error) {
+      throw new RecipeError('Failed to update recipe draft', 'UPDATE_FAILED', 500);
+    }
+  }
+
+  // Helper method to map database row to RecipeDraft object
+  private static mapRowToDraft(row: any): RecipeDraft {
+    const source = JSON.parse(row.source);
+
+    return {
+      id: row.id,
+      kind: row.kind,
+      recipe: JSON.parse(row.recipe),
+      servingSize: row.serving_size,
+      source: { ...source, generatedAt: new Date(source.generatedAt) },
+      promotedRecipeId: row.promoted_recipe_id || undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
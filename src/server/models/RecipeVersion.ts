@@ -0,0 +1,119 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from './database';
+import {
+  Recipe,
+  RecipeInput,
+  RecipeVersion,
+  RecipeChangeMeta,
+  RecipeError
+} from '../../types';
+
+export class RecipeVersionModel {
+  // Append a snapshot of the recipe's current state as the next version
+  static async record(recipe: Recipe, meta: RecipeChangeMeta = {}): Promise<RecipeVersion> {
+    try {
+      const latest = await database.get(
+        'SELECT MAX(version) as version FROM recipe_versions WHERE recipe_id = ?',
+        [recipe.id]
+      );
+
+      const version: RecipeVersion = {
+        id: uuidv4(),
+        recipeId: recipe.id,
+        version: (latest?.version || 0) + 1,
+        snapshot: this.toSnapshot(recipe),
+        author: meta.author,
+        reason: meta.reason,
+        createdAt: new Date()
+      };
+
+      await database.run(`
+        INSERT INTO recipe_versions (
+          id, recipe_id, version, snapshot, author, reason, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [
+        version.id,
+        version.recipeId,
+        version.version,
+        JSON.stringify(version.snapshot),
+        version.author || null,
+        version.reason || null,
+        version.createdAt.toISOString()
+      ]);
+
+      return version;
+    } catch (error) {
+      throw new RecipeError('Failed to record recipe version', 'CREATE_FAILED', 500);
+    }
+  }
+
+  // Record the current state as the first version if the recipe predates version history
+  static async ensureBaseline(recipe: Recipe): Promise<void> {
+    const existing = await database.get(
+      'SELECT 1 FROM recipe_versions WHERE recipe_id = ? LIMIT 1',
+      [recipe.id]
+    );
+
+    if (!existing) {
+      await this.record(recipe, { reason: 'Baseline before first tracked edit' });
+    }
+  }
+
+  // List all versions of a recipe, newest first
+  static async findByRecipeId(recipeId: string): Promise<RecipeVersion[]> {
+    try {
+      const rows = await database.all(
+        'SELECT * FROM recipe_versions WHERE recipe_id = ? ORDER BY version DESC',
+        [recipeId]
+      );
+      return rows.map(row => this.mapRowToVersion(row));
+    } catch (error) {
+      throw new RecipeError('Failed to fetch recipe versions', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Get a specific version of a recipe
+  static async findVersion(recipeId: string, version: number): Promise<RecipeVersion | null> {
+    try {
+      const row = await database.get(
+        'SELECT * FROM recipe_versions WHERE recipe_id = ? AND version = ?',
+        [recipeId, version]
+      );
+
+      if (!row) return null;
+
+      return this.mapRowToVersion(row);
+    } catch (error) {
+      throw new RecipeError('Failed to fetch recipe version', 'FETCH_FAILED', 500);
+    }
+  }
+
+  private static toSnapshot(recipe: Recipe): RecipeInput {
+    return {
+      name: recipe.name,
+      description: recipe.description,
+      ingredients: recipe.ingredients,
+      instructions: recipe.instructions,
+      servingSize: recipe.servingSize,
+      cookingTime: recipe.cookingTime,
+      difficulty: recipe.difficulty,
+      cuisine: recipe.cuisine,
+      tags: recipe.tags,
+      dietaryCompatibility: recipe.dietaryCompatibility,
+      nutritionalInfo: recipe.nutritionalInfo
+    };
+  }
+
+  // Helper method to map database row to RecipeVersion object
+  private static mapRowToVersion(row: any): RecipeVersion {
+    return {
+      id: row.id,
+      recipeId: row.recipe_id,
+      version: row.version,
+      snapshot: JSON.parse(row.snapshot),
+      author: row.author || undefined,
+      reason: row.reason || undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
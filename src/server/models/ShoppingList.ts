@@ -0,0 +1,158 @@
+import { v4 as uuidv4 } from 'uuid';
+import { database } from './database';
+import { ShoppingListBuilder, AggregatedItem } from '../utils/shoppingList';
+import {
+  ShoppingList,
+  ShoppingListAisle,
+  ShoppingListItem,
+  RecipeError
+} from '../../types';
+
+export class ShoppingListModel {
+  // Create a list with its items (already ordered by aisle)
+  static async create(
+    listData: { userId?: string; name: string; mealPlanId?: string },
+    items: AggregatedItem[]
+  ): Promise<ShoppingList> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    try {
+      await database.run(`
+        INSERT INTO shopping_lists (id, user_id, name, meal_plan_id, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [id, listData.userId || null, listData.name, listData.mealPlanId || null, now, now]);
+
+      for (const [position, item] of items.entries()) {
+        await database.run(`
+          INSERT INTO shopping_list_items (
+            id, list_id, position, name, amount, unit, aisle, recipes, notes
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+          uuidv4(),
+          id,
+          position,
+          item.name,
+          item.amount,
+          item.unit,
+          item.aisle,
+          JSON.stringify(item.recipes),
+          item.notes || null
+        ]);
+      }
+    } catch (error) {
+      throw new RecipeError('Failed to create shopping list', 'CREATE_FAILED', 500);
+    }
+
+    return (await this.findById(id))!;
+  }
+
+  // Get a list with its items grouped by aisle
+  static async findById(id: string): Promise<ShoppingList | null> {
+    try {
+      const row = await database.get('SELECT * FROM shopping_lists WHERE id = ?', [id]);
+      if (!row) return null;
+
+      const items = await database.all(
+        'SELECT * FROM shopping_list_items WHERE list_id = ? ORDER BY position',
+        [id]
+      );
+
+      return this.mapRowToList(row, items.map(item => this.mapRowToItem(item)));
+    } catch (error) {
+      throw new RecipeError('Failed to fetch shopping list', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // A user's lists (without items), newest first
+  static async findByUserId(userId: string): Promise<ShoppingList[]> {
+    try {
+      const rows = await database.all(
+        'SELECT * FROM shopping_lists WHERE user_id = ? ORDER BY created_at DESC',
+        [userId]
+      );
+      return rows.map(row => this.mapRowToList(row, []));
+    } catch (error) {
+      throw new RecipeError('Failed to fetch shopping lists', 'FETCH_FAILED', 500);
+    }
+  }
+
+  // Check or uncheck a single item
+  static async setChecked(listId: string, itemId: string, checked: boolean): Promise<ShoppingListItem> {
+    try {
+      const result = await database.run(
+        'UPDATE shopping_list_items SET checked = ? WHERE id = ? AND list_id = ?',
+        [checked ? 1 : 0, itemId, listId]
+      );
+
+      if (result.changes === 0) {
+        throw new RecipeError('Shopping list item not found', 'NOT_FOUND', 404);
+      }
+
+      await database.run(
+        'UPDATE shopping_lists SET updated_at = ? WHERE id = ?',
+        [new Date().toISOString(), listId]
+      );
+
+      const row = await database.get('SELECT * FROM shopping_list_items WHERE id = ?', [itemId]);
+      return this.mapRowToItem(row);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to update shopping list item', 'UPDATE_FAILED', 500);
+    }
+  }
+
+  // Delete a list (items cascade)
+  static async delete(id: string): Promise<void> {
+    try {
+      const result = await database.run('DELETE FROM shopping_lists WHERE id = ?', [id]);
+
+      if (result.changes === 0) {
+        throw new RecipeError('Shopping list not found', 'NOT_FOUND', 404);
+      }
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to delete shopping list', 'DELETE_FAILED', 500);
+    }
+  }
+
+  // Helper method to map database rows to a ShoppingList object
+  private static mapRowToList(row: any, items: ShoppingListItem[]): ShoppingList {
+    const aisles: ShoppingListAisle[] = [];
+
+    for (const item of items) {
+      const group = aisles.find(a => a.aisle === item.aisle);
+      if (group) {
+        group.items.push(item);
+      } else {
+        aisles.push({ aisle: item.aisle, items: [item] });
+      }
+    }
+
+    aisles.sort((a, b) => ShoppingListBuilder.aisleOrder(a.aisle) - ShoppingListBuilder.aisleOrder(b.aisle));
+
+    return {
+      id: row.id,
+      userId: row.user_id || undefined,
+      name: row.name,
+      mealPlanId: row.meal_plan_id || undefined,
+      aisles,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  private static mapRowToItem(row: any): ShoppingListItem {
+    return {
+      id: row.id,
+      listId: row.list_id,
+      name: row.name,
+      amount: row.amount,
+      unit: row.unit,
+      aisle: row.aisle,
+      recipes: JSON.parse(row.recipes),
+      notes: row.notes || undefined,
+      checked: row.checked === 1
+    };
+  }
+}
@@ -1,10 +1,25 @@
 import sqlite3 from 'sqlite3';
+import { v4 as uuidv4 } from 'uuid';
 import { config } from '../utils/config';
+import { IngredientNormalizer } from '../utils/ingredientNormalizer';
+import { INGREDIENT_CATALOG_SEED } from '../utils/ingredientCatalogSeed';
+import { RestrictionGraph } from '../utils/restrictionGraph';
 import path from 'path';
 import fs from 'fs';
 
+const FTS_COLUMNS = 'rowid, recipe_id, name, description, cuisine, tags, ingredients, instructions';
+
+// Flatten a recipes row into recipes_fts values: JSON arrays become space-separated text
+const ftsValues = (row: string) => `
+  ${row}.rowid, ${row}.id, ${row}.name, ${row}.description, ${row}.cuisine,
+  (SELECT group_concat(value, ' ') FROM json_each(${row}.tags)),
+  (SELECT group_concat(json_extract(value, '$.name'), ' ') FROM json_each(${row}.ingredients)),
+  (SELECT group_concat(value, ' ') FROM json_each(${row}.instructions))
+`;
+
 export class Database {
   private db: sqlite3.Database | null = null;
+  private cacheCleanupTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     this.initializeDatabase();
@@ -27,7 +42,11 @@ export class Database {
         console.log('Connected to SQLite database');
       });
 
-      // Create tables
+      // SQLite ships with foreign keys off; needed for ON DELETE CASCADE
+      await this.run('PRAGMA foreign_keys = ON');
+
+      // Migrate legacy schemas, then create tables
+      await this.migrate();
       await this.createTables();
     } catch (error) {
       console.error('Failed to initialize database:', error);
@@ -54,17 +73,22 @@ export class Database {
         dietary_compatibility TEXT, -- JSON array
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        popularity INTEGER DEFAULT 0
+        popularity INTEGER DEFAULT 0,
+        cook_count INTEGER DEFAULT 0
       )`,
 
-      // Recipe cache table
+      // Recipe cache table (one row per query, holding the full response payload)
       `CREATE TABLE IF NOT EXISTS recipe_cache (
         id TEXT PRIMARY KEY,
         query_hash TEXT UNIQUE NOT NULL,
-        recipe_data TEXT NOT NULL, -- JSON
-        hit_count INTEGER DEFAULT 1,
-        last_accessed DATETIME DEFAULT CURRENT_TIMESTAMP,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        query_type TEXT NOT NULL,
+        query_context TEXT, -- hash of the query without its ingredient set
+        ingredient_set TEXT, -- JSON array of normalized ingredient names
+        payload TEXT NOT NULL, -- JSON array of suggestions/variations
+        hit_count INTEGER DEFAULT 0,
+        last_accessed DATETIME NOT NULL,
+        expires_at DATETIME NOT NULL,
+        created_at DATETIME NOT NULL
       )`,
 
       // Nutritional information table
@@ -81,6 +105,8 @@ export class Database {
         sodium REAL,
         vitamins TEXT, -- JSON object
         minerals TEXT, -- JSON object
+        method TEXT, -- local | local+ai | ai | manual
+        unresolved_ingredients TEXT, -- JSON array of names the nutrient table could not account for
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
       )`,
@@ -93,6 +119,40 @@ export class Database {
         dietary_preferences TEXT, -- JSON array
         health_conditions TEXT, -- JSON array
         nutritional_goals TEXT, -- JSON object
+        allergy_strict INTEGER DEFAULT 0, -- 1: "may contain" counts as unsafe
+        custom_restrictions TEXT DEFAULT '[]', -- JSON array of CustomRestriction
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      // Groups of dietary profiles that eat together
+      `CREATE TABLE IF NOT EXISTS households (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS household_members (
+        household_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        name TEXT,
+        servings REAL NOT NULL DEFAULT 1, -- portion of a standard serving
+        position INTEGER NOT NULL,
+        PRIMARY KEY (household_id, user_id),
+        FOREIGN KEY (household_id) REFERENCES households(id) ON DELETE CASCADE
+      )`,
+
+      // Ingredients a user has at home
+      `CREATE TABLE IF NOT EXISTS pantry_items (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        normalized_name TEXT NOT NULL,
+        quantity REAL NOT NULL DEFAULT 0,
+        unit TEXT NOT NULL DEFAULT '',
+        purchased_on TEXT, -- YYYY-MM-DD
+        expires_on TEXT, -- YYYY-MM-DD
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )`,
@@ -111,6 +171,128 @@ export class Database {
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )`,
 
+      // Dietary compatibility, one row per recipe/restriction (mirrors recipes.dietary_compatibility)
+      `CREATE TABLE IF NOT EXISTS recipe_dietary_tags (
+        recipe_id TEXT NOT NULL,
+        restriction TEXT NOT NULL,
+        PRIMARY KEY (recipe_id, restriction),
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
+      )`,
+
+      // Meals a user logged as cooked (recipe name/cuisine kept in case the recipe is deleted)
+      `CREATE TABLE IF NOT EXISTS cooking_history (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        recipe_id TEXT,
+        recipe_name TEXT NOT NULL,
+        cuisine TEXT,
+        servings INTEGER NOT NULL,
+        cooked_on TEXT NOT NULL, -- YYYY-MM-DD
+        notes TEXT,
+        ingredients TEXT NOT NULL, -- JSON array, scaled to servings
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE SET NULL
+      )`,
+
+      // Weekly meal plans (targets and restrictions captured at generation time)
+      `CREATE TABLE IF NOT EXISTS meal_plans (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        week_start TEXT NOT NULL, -- YYYY-MM-DD (Monday)
+        slots TEXT NOT NULL, -- JSON array
+        restrictions TEXT NOT NULL, -- JSON array
+        targets TEXT NOT NULL, -- JSON object
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS meal_plan_entries (
+        id TEXT PRIMARY KEY,
+        plan_id TEXT NOT NULL,
+        day INTEGER NOT NULL, -- 0-6 from week_start
+        slot TEXT NOT NULL,
+        recipe_id TEXT,
+        recipe_name TEXT NOT NULL,
+        source TEXT NOT NULL,
+        servings REAL NOT NULL,
+        nutrition TEXT NOT NULL, -- JSON object, for the portion served
+        locked INTEGER DEFAULT 0,
+        UNIQUE (plan_id, day, slot),
+        FOREIGN KEY (plan_id) REFERENCES meal_plans(id) ON DELETE CASCADE,
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE SET NULL
+      )`,
+
+      // Canonical ingredients; ingredient_aliases maps every normalized spelling to one entry
+      `CREATE TABLE IF NOT EXISTS ingredients_catalog (
+        id TEXT PRIMARY KEY,
+        canonical_name TEXT NOT NULL UNIQUE,
+        aliases TEXT NOT NULL, -- JSON array
+        plural_forms TEXT NOT NULL, -- JSON array
+        category TEXT NOT NULL,
+        default_unit TEXT NOT NULL DEFAULT '',
+        density REAL, -- grams per millilitre
+        allergens TEXT NOT NULL, -- JSON array of DietaryRestriction
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS ingredient_aliases (
+        alias TEXT PRIMARY KEY, -- normalized
+        catalog_id TEXT NOT NULL,
+        kind TEXT NOT NULL, -- canonical | alias | plural
+        FOREIGN KEY (catalog_id) REFERENCES ingredients_catalog(id) ON DELETE CASCADE
+      )`,
+
+      // Shopping lists built from recipes or a meal plan
+      `CREATE TABLE IF NOT EXISTS shopping_lists (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        name TEXT NOT NULL,
+        meal_plan_id TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (meal_plan_id) REFERENCES meal_plans(id) ON DELETE SET NULL
+      )`,
+
+      `CREATE TABLE IF NOT EXISTS shopping_list_items (
+        id TEXT PRIMARY KEY,
+        list_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        amount REAL NOT NULL,
+        unit TEXT NOT NULL DEFAULT '',
+        aisle TEXT NOT NULL,
+        recipes TEXT NOT NULL, -- JSON array of recipe names
+        notes TEXT,
+        checked INTEGER DEFAULT 0,
+        FOREIGN KEY (list_id) REFERENCES shopping_lists(id) ON DELETE CASCADE
+      )`,
+
+      // Recipe revision history (full snapshot per version)
+      `CREATE TABLE IF NOT EXISTS recipe_versions (
+        id TEXT PRIMARY KEY,
+        recipe_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        snapshot TEXT NOT NULL, -- JSON recipe fields incl. nutrition
+        author TEXT,
+        reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (recipe_id, version),
+        FOREIGN KEY (recipe_id) REFERENCES recipes(id) ON DELETE CASCADE
+      )`,
+
+      // AI suggestions and variations as generated, until promoted to a recipe or expired
+      `CREATE TABLE IF NOT EXISTS recipe_drafts (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL, -- suggestion, variation
+        recipe TEXT NOT NULL, -- JSON suggestion or variation
+        serving_size INTEGER NOT NULL,
+        source TEXT NOT NULL, -- JSON prompt, provider, model, restrictions
+        promoted_recipe_id TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (promoted_recipe_id) REFERENCES recipes(id) ON DELETE SET NULL
+      )`,
+
       // Recipe ratings and reviews
       `CREATE TABLE IF NOT EXISTS recipe_reviews (
         id TEXT PRIMARY KEY,
@@ -131,13 +313,60 @@ export class Database {
       'CREATE INDEX IF NOT EXISTS idx_recipes_popularity ON recipes(popularity DESC)',
       'CREATE INDEX IF NOT EXISTS idx_recipe_cache_query_hash ON recipe_cache(query_hash)',
       'CREATE INDEX IF NOT EXISTS idx_recipe_cache_last_accessed ON recipe_cache(last_accessed DESC)',
+      'CREATE INDEX IF NOT EXISTS idx_recipe_cache_expires_at ON recipe_cache(expires_at)',
+      'CREATE INDEX IF NOT EXISTS idx_recipe_cache_query_context ON recipe_cache(query_context)',
       'CREATE INDEX IF NOT EXISTS idx_nutrition_recipe_id ON recipe_nutrition(recipe_id)',
+      'CREATE INDEX IF NOT EXISTS idx_pantry_items_user_expiry ON pantry_items(user_id, expires_on)',
+      'CREATE INDEX IF NOT EXISTS idx_household_members_user ON household_members(user_id)',
       'CREATE INDEX IF NOT EXISTS idx_substitutions_original ON ingredient_substitutions(original_ingredient)',
       'CREATE INDEX IF NOT EXISTS idx_substitutions_dietary ON ingredient_substitutions(dietary_restriction)',
+      'CREATE INDEX IF NOT EXISTS idx_recipe_dietary_tags_restriction ON recipe_dietary_tags(restriction, recipe_id)',
+      'CREATE INDEX IF NOT EXISTS idx_recipes_cook_count ON recipes(cook_count DESC)',
+      'CREATE INDEX IF NOT EXISTS idx_cooking_history_user ON cooking_history(user_id, cooked_on DESC)',
+      'CREATE INDEX IF NOT EXISTS idx_meal_plans_user ON meal_plans(user_id, week_start DESC)',
+      'CREATE INDEX IF NOT EXISTS idx_meal_plan_entries_plan ON meal_plan_entries(plan_id, day)',
+      'CREATE INDEX IF NOT EXISTS idx_ingredient_aliases_catalog ON ingredient_aliases(catalog_id)',
+      'CREATE INDEX IF NOT EXISTS idx_shopping_lists_user ON shopping_lists(user_id, created_at DESC)',
+      'CREATE INDEX IF NOT EXISTS idx_shopping_list_items_list ON shopping_list_items(list_id, position)',
+      'CREATE INDEX IF NOT EXISTS idx_recipe_versions_recipe_id ON recipe_versions(recipe_id, version DESC)',
+      'CREATE INDEX IF NOT EXISTS idx_recipe_drafts_created_at ON recipe_drafts(created_at)',
       'CREATE INDEX IF NOT EXISTS idx_reviews_recipe_id ON recipe_reviews(recipe_id)',
       'CREATE INDEX IF NOT EXISTS idx_reviews_rating ON recipe_reviews(rating)'
     ];
 
+    // Full-text index over recipes, kept in sync by triggers (rowid mirrors recipes.rowid)
+    const searchIndex = [
+      `CREATE VIRTUAL TABLE IF NOT EXISTS recipes_fts USING fts5(
+        recipe_id UNINDEXED, name, description, cuisine, tags, ingredients, instructions,
+        tokenize = 'porter unicode61 remove_diacritics 2'
+      )`,
+      `CREATE TRIGGER IF NOT EXISTS recipes_fts_insert AFTER INSERT ON recipes BEGIN
+        INSERT INTO recipes_fts (${FTS_COLUMNS}) VALUES (${ftsValues('NEW')});
+      END`,
+      // Only indexed columns, so popularity/cook_count bumps don't rewrite the index
+      `CREATE TRIGGER IF NOT EXISTS recipes_fts_update
+        AFTER UPDATE OF name, description, cuisine, tags, ingredients, instructions ON recipes BEGIN
+        DELETE FROM recipes_fts WHERE rowid = OLD.rowid;
+        INSERT INTO recipes_fts (${FTS_COLUMNS}) VALUES (${ftsValues('NEW')});
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS recipes_fts_delete AFTER DELETE ON recipes BEGIN
+        DELETE FROM recipes_fts WHERE rowid = OLD.rowid;
+      END`
+    ];
+
+    // Keep recipe_dietary_tags in step with the JSON column (deletes cascade via the foreign key)
+    const dietaryTagTriggers = [
+      `CREATE TRIGGER IF NOT EXISTS recipe_dietary_tags_insert AFTER INSERT ON recipes BEGIN
+        INSERT OR IGNORE INTO recipe_dietary_tags (recipe_id, restriction)
+          SELECT NEW.id, value FROM json_each(NEW.dietary_compatibility);
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS recipe_dietary_tags_update AFTER UPDATE OF dietary_compatibility ON recipes BEGIN
+        DELETE FROM recipe_dietary_tags WHERE recipe_id = OLD.id;
+        INSERT OR IGNORE INTO recipe_dietary_tags (recipe_id, restriction)
+          SELECT NEW.id, value FROM json_each(NEW.dietary_compatibility);
+      END`
+    ];
+
     try {
       // Execute table creation
       for (const table of tables) {
@@ -149,6 +378,14 @@ export class Database {
         await this.run(index);
       }
 
+      for (const statement of [...searchIndex, ...dietaryTagTriggers]) {
+        await this.run(statement);
+      }
+      await this.syncSearchIndex();
+      await this.expandDietaryTags();
+      await this.syncDietaryTags();
+      await this.seedIngredientCatalog();
+
       console.log('Database tables and indexes created successfully');
     } catch (error) {
       console.error('Error creating tables:', error);
@@ -156,6 +393,124 @@ export class Database {
     }
   }
 
+  // Rebuild the full-text index when it has drifted from recipes (e.g. rows written before it existed)
+  private async syncSearchIndex(): Promise<void> {
+    const counts = await this.get(
+      'SELECT (SELECT COUNT(*) FROM recipes) AS recipes, (SELECT COUNT(*) FROM recipes_fts) AS indexed'
+    );
+
+    if (counts.recipes !== counts.indexed) {
+      await this.run('DELETE FROM recipes_fts');
+      await this.run(`INSERT INTO recipes_fts (${FTS_COLUMNS}) SELECT ${ftsValues('recipes')} FROM recipes`);
+      console.log(`Rebuilt recipe search index (${counts.recipes} recipes)`);
+    }
+  }
+
+  // Add implied restrictions to recipes tagged before the restriction graph existed; the triggers update
+  // recipe_dietary_tags
+  private async expandDietaryTags(): Promise<void> {
+    const rows = await this.all('SELECT id, dietary_compatibility FROM recipes');
+    let expanded = 0;
+
+    for (const row of rows) {
+      const tags = JSON.parse(row.dietary_compatibility);
+      const withImplied = RestrictionGraph.expand(tags);
+
+      if (withImplied.length !== tags.length) {
+        await this.run('UPDATE recipes SET dietary_compatibility = ? WHERE id = ?', [JSON.stringify(withImplied), row.id]);
+        expanded++;
+      }
+    }
+
+    if (expanded > 0) {
+      console.log(`Added implied dietary tags to ${expanded} recipes`);
+    }
+  }
+
+  // Backfill recipe_dietary_tags for recipes written before the table existed
+  private async syncDietaryTags(): Promise<void> {
+    const counts = await this.get(`
+      SELECT
+        (SELECT COUNT(DISTINCT r.id || '|' || tag.value) FROM recipes r, json_each(r.dietary_compatibility) tag) AS expected,
+        (SELECT COUNT(*) FROM recipe_dietary_tags) AS stored
+    `);
+
+    if (counts.expected !== counts.stored) {
+      await this.run('DELETE FROM recipe_dietary_tags');
+      await this.run(`
+        INSERT OR IGNORE INTO recipe_dietary_tags (recipe_id, restriction)
+          SELECT r.id, tag.value FROM recipes r, json_each(r.dietary_compatibility) tag
+      `);
+      console.log('Rebuilt recipe dietary tags');
+    }
+  }
+
+  // Load the built-in ingredient catalog into an empty table
+  private async seedIngredientCatalog(): Promise<void> {
+    const { count } = await this.get('SELECT COUNT(*) AS count FROM ingredients_catalog');
+    if (count > 0) return;
+
+    for (const entry of INGREDIENT_CATALOG_SEED) {
+      const id = uuidv4();
+      await this.run(`
+        INSERT INTO ingredients_catalog (
+          id, canonical_name, aliases, plural_forms, category, default_unit, density, allergens
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        id,
+        entry.canonicalName,
+        JSON.stringify(entry.aliases),
+        JSON.stringify(entry.pluralForms),
+        entry.category,
+        entry.defaultUnit,
+        entry.density ?? null,
+        JSON.stringify(entry.allergens)
+      ]);
+
+      for (const { alias, kind } of IngredientNormalizer.aliasKeys(entry.canonicalName, entry.aliases, entry.pluralForms)) {
+        await this.run(
+          'INSERT OR IGNORE INTO ingredient_aliases (alias, catalog_id, kind) VALUES (?, ?, ?)',
+          [alias, id, kind]
+        );
+      }
+    }
+
+    console.log(`Seeded ingredient catalog (${INGREDIENT_CATALOG_SEED.length} entries)`);
+  }
+
+  // Bring tables created by older versions up to date
+  private async migrate(): Promise<void> {
+    // The cache used to store one recipe per row; its contents are disposable, so rebuild it
+    const cacheColumns = await this.all('PRAGMA table_info(recipe_cache)');
+    if (cacheColumns.length > 0 && !cacheColumns.some(column => column.name === 'payload')) {
+      await this.run('DROP TABLE recipe_cache');
+      console.log('Dropped legacy recipe_cache table');
+    } else if (cacheColumns.length > 0 && !cacheColumns.some(column => column.name === 'query_context')) {
+      await this.run('ALTER TABLE recipe_cache ADD COLUMN query_context TEXT');
+      await this.run('ALTER TABLE recipe_cache ADD COLUMN ingredient_set TEXT');
+    }
+
+    const recipeColumns = await this.all('PRAGMA table_info(recipes)');
+    if (recipeColumns.length > 0 && !recipeColumns.some(column => column.name === 'cook_count')) {
+      await this.run('ALTER TABLE recipes ADD COLUMN cook_count INTEGER DEFAULT 0');
+    }
+
+    const nutritionColumns = await this.all('PRAGMA table_info(recipe_nutrition)');
+    if (nutritionColumns.length > 0 && !nutritionColumns.some(column => column.name === 'method')) {
+      await this.run('ALTER TABLE recipe_nutrition ADD COLUMN method TEXT');
+      await this.run('ALTER TABLE recipe_nutrition ADD COLUMN unresolved_ingredients TEXT');
+    }
+
+    const profileColumns = await this.all('PRAGMA table_info(dietary_profiles)');
+    if (profileColumns.length > 0 && !profileColumns.some(column => column.name === 'allergy_strict')) {
+      await this.run('ALTER TABLE dietary_profiles ADD COLUMN allergy_strict INTEGER DEFAULT 0');
+    }
+
+    if (profileColumns.length > 0 && !profileColumns.some(column => column.name === 'custom_restrictions')) {
+      await this.run("ALTER TABLE dietary_profiles ADD COLUMN custom_restrictions TEXT DEFAULT '[]'");
+    }
+  }
+
   // Promisified database operations
   public run(sql: string, params: any[] = []): Promise<sqlite3.RunResult> {
     return new Promise((resolve, reject) => {
@@ -209,6 +564,8 @@ export class Database {
   }
 
   public close(): Promise<void> {
+    this.stopCacheCleanup();
+
     return new Promise((resolve, reject) => {
       if (!this.db) {
         resolve();
@@ -237,15 +594,12 @@ export class Database {
     }
   }
 
-  // Clean up old cache entries
+  // Clean up expired cache entries
   public async cleanupCache(): Promise<void> {
-    const cutoffDate = new Date();
-    cutoffDate.setHours(cutoffDate.getHours() - config.cacheTtlHours);
-
     try {
       await this.run(
-        'DELETE FROM recipe_cache WHERE last_accessed < ?',
-        [cutoffDate.toISOString()]
+        'DELETE FROM recipe_cache WHERE expires_at <= ?',
+        [new Date().toISOString()]
       );
 
       // Keep only the most popular entries if we exceed max entries
@@ -262,11 +616,36 @@ export class Database {
         `, [excessCount]);
       }
 
+      // Drafts nobody promoted are only kept for the retention period
+      const draftCutoff = new Date(Date.now() - config.draftRetentionDays * 24 * 60 * 60 * 1000);
+      await this.run(
+        'DELETE FROM recipe_drafts WHERE promoted_recipe_id IS NULL AND created_at <= ?',
+        [draftCutoff.toISOString()]
+      );
+
       console.log('Cache cleanup completed');
     } catch (error) {
       console.error('Cache cleanup failed:', error);
     }
   }
+
+  // Run cache cleanup periodically
+  public startCacheCleanup(intervalMinutes: number = config.cacheCleanupIntervalMinutes): void {
+    this.stopCacheCleanup();
+    this.cacheCleanupTimer = setInterval(() => {
+      this.cleanupCache();
+    }, intervalMinutes * 60 * 1000);
+
+    // Don't keep the process alive just for cleanup
+    this.cacheCleanupTimer.unref();
+  }
+
+  public stopCacheCleanup(): void {
+    if (this.cacheCleanupTimer) {
+      clearInterval(this.cacheCleanupTimer);
+      this.cacheCleanupTimer = null;
+    }
+  }
 }
 
 // Singleton instance
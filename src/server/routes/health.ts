@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { database } from '../models/database';
-import { config } from '../utils/config';
+import { RecipeCacheModel } from '../models/Recipe';
+import { config, isAIConfigured } from '../utils/config';
 
 const router = Router();
 
@@ -16,7 +17,10 @@ router.get('/', async (req: Request, res: Response) => {
     const dbHealthy = await database.healthCheck();
     
     // Check AI service configuration
-    const aiConfigured = !!(config.ai.apiKey && config.ai.apiUrl);
+    const aiConfigured = isAIConfigured();
+
+    // Cache statistics
+    const cacheStats = await RecipeCacheModel.getStats();
     
     const responseTime = Date.now() - startTime;
     
@@ -31,9 +35,11 @@ router.get('/', async (req: Request, res: Response) => {
         },
         ai: {
           status: aiConfigured ? 'configured' : 'not_configured',
+          provider: config.ai.provider,
           model: config.ai.model,
           endpoint: config.ai.apiUrl.replace(/\/+$/, '') // Remove trailing slashes
-        }
+        },
+        cache: cacheStats
       },
       version: '1.0.0',
       environment: config.nodeEnv
@@ -65,6 +71,7 @@ router.get('/config', async (req: Request, res: Response) => {
   try {
     const configInfo = {
       ai: {
+        provider: config.ai.provider,
         model: config.ai.model,
         maxTokens: config.ai.maxTokens,
         temperature: config.ai.temperature,
@@ -0,0 +1,219 @@
+import { Router, Request, Response } from 'express';
+import { householdService } from '../services/householdService';
+import Joi from 'joi';
+import { validateRequest, validateQuery, errorHandler } from './middleware';
+
+const router = Router();
+
+// Validation schemas
+const memberSchema = Joi.object({
+  userId: Joi.string().trim().required(),
+  name: Joi.string().trim().max(60).optional(),
+  servings: Joi.number().min(0.25).max(5).default(1) // portion of a standard serving
+});
+
+const householdSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  members: Joi.array().items(memberSchema).min(1).max(20).unique('userId').required()
+});
+
+const householdUpdateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional(),
+  members: Joi.array().items(memberSchema).min(1).max(20).unique('userId').optional()
+}).min(1);
+
+const memberUpdateSchema = Joi.object({
+  name: Joi.string().trim().max(60).optional(),
+  servings: Joi.number().min(0.25).max(5).optional()
+}).min(1);
+
+const listQuerySchema = Joi.object({
+  userId: Joi.string().required()
+});
+
+// Error handler middleware
+const handleError = errorHandler('Household route error');
+
+// Routes
+
+/**
+ * POST /api/households
+ * Create a household from members' dietary profiles and serving sizes
+ */
+router.post('/', validateRequest(householdSchema), async (req: Request, res: Response) => {
+  try {
+    const household = await householdService.createHousehold(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: household,
+      meta: {
+        servings: householdService.servings(household)
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/households?userId=
+ * List the households a user belongs to
+ */
+router.get('/', validateQuery(listQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const households = await householdService.listHouseholds(req.query.userId as string);
+
+    res.json({
+      success: true,
+      data: households,
+      meta: {
+        count: households.length
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/households/:id
+ * Get a household with its members
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const household = await householdService.getHousehold(req.params.id);
+
+    res.json({
+      success: true,
+      data: household,
+      meta: {
+        servings: householdService.servings(household)
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * PUT /api/households/:id
+ * Rename a household and/or replace its member list
+ */
+router.put('/:id', validateRequest(householdUpdateSchema), async (req: Request, res: Response) => {
+  try {
+    const household = await householdService.updateHousehold(req.params.id, req.body);
+
+    res.json({
+      success: true,
+      data: household,
+      meta: {
+        servings: householdService.servings(household)
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/households/:id
+ * Delete a household; members' dietary profiles are left as they are
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await householdService.deleteHousehold(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Household deleted successfully'
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/households/:id/members
+ * Add a member to a household
+ */
+router.post('/:id/members', validateRequest(memberSchema), async (req: Request, res: Response) => {
+  try {
+    const household = await householdService.addMember(req.params.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: household,
+      meta: {
+        servings: householdService.servings(household)
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * PUT /api/households/:id/members/:userId
+ * Change a member's name or serving size
+ */
+router.put('/:id/members/:userId', validateRequest(memberUpdateSchema), async (req: Request, res: Response) => {
+  try {
+    const { id, userId } = req.params;
+    const household = await householdService.updateMember(id, userId, req.body);
+
+    res.json({
+      success: true,
+      data: household,
+      meta: {
+        servings: householdService.servings(household)
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/households/:id/members/:userId
+ * Remove a member from a household
+ */
+router.delete('/:id/members/:userId', async (req: Request, res: Response) => {
+  try {
+    const { id, userId } = req.params;
+    const household = await householdService.removeMember(id, userId);
+
+    res.json({
+      success: true,
+      data: household,
+      meta: {
+        servings: householdService.servings(household)
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/households/:id/restrictions
+ * Combined restrictions, allergies and custom restrictions of every member, with conflict warnings
+ */
+router.get('/:id/restrictions', async (req: Request, res: Response) => {
+  try {
+    const restrictions = await householdService.getRestrictions(req.params.id);
+
+    res.json({
+      success: true,
+      data: restrictions,
+      meta: {
+        count: restrictions.restrictions.length,
+        warnings: restrictions.warnings
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
@@ -0,0 +1,270 @@
+import { Router, Request, Response } from 'express';
+import { IngredientCatalogModel } from '../models/IngredientCatalog';
+import { ShoppingListBuilder } from '../utils/shoppingList';
+import { IngredientParser } from '../utils/ingredientParser';
+import { config } from '../utils/config';
+import {
+  DietaryRestriction
+} from '../../types';
+import Joi from 'joi';
+import { validateRequest, validateQuery, errorHandler } from './middleware';
+
+const router = Router();
+
+// Validation schemas
+const catalogEntrySchema = Joi.object({
+  canonicalName: Joi.string().trim().min(1).max(100).required(),
+  aliases: Joi.array().items(Joi.string().trim().min(1).max(100)).default([]),
+  pluralForms: Joi.array().items(Joi.string().trim().min(1).max(100)).default([]),
+  category: Joi.string().valid(...ShoppingListBuilder.aisleCategories()).default('Other'),
+  defaultUnit: Joi.string().trim().allow('').default(''),
+  density: Joi.number().positive().max(25).optional(),
+  allergens: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).default([])
+});
+
+const updateCatalogEntrySchema = Joi.object({
+  canonicalName: Joi.string().trim().min(1).max(100).optional(),
+  aliases: Joi.array().items(Joi.string().trim().min(1).max(100)).optional(),
+  pluralForms: Joi.array().items(Joi.string().trim().min(1).max(100)).optional(),
+  category: Joi.string().valid(...ShoppingListBuilder.aisleCategories()).optional(),
+  defaultUnit: Joi.string().trim().allow('').optional(),
+  density: Joi.number().positive().max(25).optional(),
+  allergens: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).optional()
+}).min(1);
+
+const aliasesSchema = Joi.object({
+  aliases: Joi.array().items(Joi.string().trim().min(1).max(100)).min(1).max(50).required()
+});
+
+const listQuerySchema = Joi.object({
+  q: Joi.string().trim().max(100).optional(),
+  category: Joi.string().valid(...ShoppingListBuilder.aisleCategories()).optional(),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+const matchQuerySchema = Joi.object({
+  name: Joi.string().trim().min(1).max(200).required()
+});
+
+const parseRequestSchema = Joi.object({
+  lines: Joi.array().items(Joi.string().trim().min(1).max(300)).min(1).max(200),
+  text: Joi.string().trim().min(1).max(20000)
+}).xor('lines', 'text');
+
+// Catalog changes need the X-Admin-Key header to match ADMIN_API_KEY
+const requireAdmin = (req: Request, res: Response, next: Function) => {
+  if (!config.adminApiKey) {
+    return res.status(403).json({
+      error: 'Admin endpoints are disabled; set ADMIN_API_KEY to enable them',
+      code: 'ADMIN_DISABLED'
+    });
+  }
+
+  if (req.get('X-Admin-Key') !== config.adminApiKey) {
+    return res.status(401).json({
+      error: 'Missing or invalid admin key',
+      code: 'UNAUTHORIZED'
+    });
+  }
+
+  next();
+};
+
+// Error handler middleware
+const handleError = errorHandler('Ingredients route error');
+
+// Routes
+
+/**
+ * GET /api/ingredients
+ * Browse the ingredient catalog by name/alias and aisle category
+ */
+router.get('/', validateQuery(listQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const { q, category, limit, offset } = req.query as any;
+    const { entries, total } = await IngredientCatalogModel.list({ q, category, limit, offset });
+
+    res.json({
+      success: true,
+      data: entries,
+      meta: {
+        count: entries.length,
+        total,
+        limit,
+        offset
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/ingredients/match?name=
+ * Resolve free-text ingredient text to its catalog entry
+ */
+router.get('/match', validateQuery(matchQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const match = await IngredientCatalogModel.match(req.query.name as string);
+
+    res.json({
+      success: true,
+      data: match
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/ingredients/parse
+ * Parse free-text ingredient lines into structured ingredients linked to the catalog
+ */
+router.post('/parse', validateRequest(parseRequestSchema), async (req: Request, res: Response) => {
+  try {
+    const parsed = IngredientParser.parseLines(req.body.lines || [req.body.text]);
+    const ingredients = await IngredientCatalogModel.annotate(parsed.map(line => line.ingredient));
+    const data = parsed.map((line, index) => ({ ...line, ingredient: ingredients[index] }));
+
+    res.json({
+      success: true,
+      data,
+      meta: {
+        count: data.length,
+        lowConfidence: data.filter(line => line.confidence === 'low').length
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/ingredients/relink
+ * Re-resolve catalog ids on every stored recipe (admin), e.g. after alias changes
+ */
+router.post('/relink', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const updated = await IngredientCatalogModel.relinkRecipes();
+
+    res.json({
+      success: true,
+      data: { updated },
+      message: `Relinked ingredients on ${updated} recipe(s)`
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/ingredients/:id
+ * Get a single catalog entry
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const entry = await IngredientCatalogModel.findById(req.params.id);
+
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Catalog entry not found',
+        code: 'NOT_FOUND'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/ingredients
+ * Add a catalog entry (admin)
+ */
+router.post('/', requireAdmin, validateRequest(catalogEntrySchema), async (req: Request, res: Response) => {
+  try {
+    const entry = await IngredientCatalogModel.create(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * PUT /api/ingredients/:id
+ * Update a catalog entry (admin)
+ */
+router.put('/:id', requireAdmin, validateRequest(updateCatalogEntrySchema), async (req: Request, res: Response) => {
+  try {
+    const entry = await IngredientCatalogModel.update(req.params.id, req.body);
+
+    res.json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/ingredients/:id
+ * Remove a catalog entry (admin)
+ */
+router.delete('/:id', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    await IngredientCatalogModel.delete(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Catalog entry deleted successfully'
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/ingredients/:id/aliases
+ * Add aliases to a catalog entry (admin)
+ */
+router.post('/:id/aliases', requireAdmin, validateRequest(aliasesSchema), async (req: Request, res: Response) => {
+  try {
+    const entry = await IngredientCatalogModel.addAliases(req.params.id, req.body.aliases);
+
+    res.json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/ingredients/:id/aliases/:alias
+ * Remove an alias from a catalog entry (admin)
+ */
+router.delete('/:id/aliases/:alias', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const entry = await IngredientCatalogModel.removeAlias(req.params.id, req.params.alias);
+
+    res.json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
@@ -0,0 +1,166 @@
+import { Router, Request, Response } from 'express';
+import { mealPlanService } from '../services/mealPlanService';
+import { MealPlanner } from '../utils/mealPlanner';
+import Joi from 'joi';
+import { validateRequest, validateQuery, errorHandler, isoDate } from './middleware';
+
+const router = Router();
+
+// Validation schemas
+const generatePlanSchema = Joi.object({
+  userId: Joi.string().required(),
+  weekStart: isoDate.optional(),
+  slots: Joi.array()
+    .items(Joi.string().valid(...MealPlanner.SLOTS))
+    .min(1)
+    .unique()
+    .default([...MealPlanner.SLOTS]),
+  useAI: Joi.boolean().default(true)
+});
+
+const regenerateSchema = Joi.object({
+  useAI: Joi.boolean().default(true)
+});
+
+const lockEntrySchema = Joi.object({
+  locked: Joi.boolean().required()
+});
+
+const listQuerySchema = Joi.object({
+  userId: Joi.string().required()
+});
+
+// Error handler middleware
+const handleError = errorHandler('Meal plan route error');
+
+// Routes
+
+/**
+ * POST /api/meal-plans
+ * Generate a 7-day plan from the user's dietary profile and nutritional goals
+ */
+router.post('/', validateRequest(generatePlanSchema), async (req: Request, res: Response) => {
+  try {
+    const plan = await mealPlanService.generatePlan(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: plan,
+      meta: {
+        entries: plan.entries.length,
+        daysWithinTolerance: plan.summary!.filter(day => day.withinTolerance).length
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/meal-plans?userId=
+ * List a user's plans (without entries), newest week first
+ */
+router.get('/', validateQuery(listQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const plans = await mealPlanService.listPlans(req.query.userId as string);
+
+    res.json({
+      success: true,
+      data: plans.map(({ entries, ...plan }) => plan),
+      meta: {
+        count: plans.length
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/meal-plans/:id
+ * Get a plan with its entries and per-day totals against the targets
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const plan = await mealPlanService.getPlan(req.params.id);
+
+    res.json({
+      success: true,
+      data: plan
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/meal-plans/:id
+ * Delete a plan and its entries
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await mealPlanService.deletePlan(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Meal plan deleted successfully'
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/meal-plans/:id/regenerate
+ * Re-plan every unlocked slot, keeping locked meals in place
+ */
+router.post('/:id/regenerate', validateRequest(regenerateSchema), async (req: Request, res: Response) => {
+  try {
+    const plan = await mealPlanService.regeneratePlan(req.params.id, req.body.useAI);
+
+    res.json({
+      success: true,
+      data: plan
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * PATCH /api/meal-plans/:id/entries/:entryId
+ * Lock or unlock a meal so regeneration leaves it alone
+ */
+router.patch('/:id/entries/:entryId', validateRequest(lockEntrySchema), async (req: Request, res: Response) => {
+  try {
+    const { id, entryId } = req.params;
+    const plan = await mealPlanService.setEntryLocked(id, entryId, req.body.locked);
+
+    res.json({
+      success: true,
+      data: plan
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/meal-plans/:id/entries/:entryId/regenerate
+ * Replace a single unlocked meal with a different recipe
+ */
+router.post('/:id/entries/:entryId/regenerate', validateRequest(regenerateSchema), async (req: Request, res: Response) => {
+  try {
+    const { id, entryId } = req.params;
+    const plan = await mealPlanService.regenerateEntry(id, entryId, req.body.useAI);
+
+    res.json({
+      success: true,
+      data: plan
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
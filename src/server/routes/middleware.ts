@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import {
+  RecipeError,
+  AIServiceError,
+  ValidationError
+} from '../../types';
+import Joi from 'joi';
+
+// A real calendar day as YYYY-MM-DD; the pattern alone lets 2026-02-30 through
+export const isoDate = Joi.string()
+  .pattern(/^\d{4}-\d{2}-\d{2}$/)
+  .custom((value: string, helpers) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value ? value : helpers.error('any.invalid');
+  })
+  .messages({
+    'string.pattern.base': '{#label} must be a YYYY-MM-DD date',
+    'any.invalid': '{#label} must be a YYYY-MM-DD date'
+  });
+
+// Middleware for validation
+export const validateRequest = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: Function) => {
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.details.map(d => d.message)
+      });
+    }
+    req.body = value;
+    next();
+  };
+};
+
+export const validateQuery = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: Function) => {
+    const { error, value } = schema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.details.map(d => d.message)
+      });
+    }
+    req.query = value;
+    next();
+  };
+};
+
+// Error handler for a router; `label` prefixes the logged error
+export const errorHandler = (label: string) => {
+  return (error: any, res: Response) => {
+    console.error(`${label}:`, error);
+
+    if (error instanceof RecipeError) {
+      return res.status(error.statusCode).json({
+        error: error.message,
+        code: error.code
+      });
+    }
+
+    if (error instanceof AIServiceError) {
+      return res.status(error.statusCode).json({
+        error: error.message,
+        code: error.code,
+        ...(error.details.length > 0 && { details: error.details })
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(error.statusCode).json({
+        error: error.message,
+        field: error.field
+      });
+    }
+
+    return res.status(500).json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    });
+  };
+};
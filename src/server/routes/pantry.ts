@@ -0,0 +1,155 @@
+import { Router, Request, Response } from 'express';
+import { PantryModel } from '../models/Pantry';
+import Joi from 'joi';
+import { validateRequest, validateQuery, errorHandler, isoDate } from './middleware';
+
+const router = Router();
+
+// Validation schemas
+const pantryItemSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  quantity: Joi.number().min(0).default(1),
+  unit: Joi.string().trim().allow('').default(''),
+  purchasedOn: isoDate.optional(),
+  expiresOn: isoDate.optional()
+});
+
+const updatePantryItemSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional(),
+  quantity: Joi.number().min(0).optional(),
+  unit: Joi.string().trim().allow('').optional(),
+  purchasedOn: isoDate.allow(null).optional(),
+  expiresOn: isoDate.allow(null).optional()
+}).min(1);
+
+const listQuerySchema = Joi.object({
+  expiringWithinDays: Joi.number().integer().min(0).max(365).optional(),
+  includeExpired: Joi.boolean().default(true)
+});
+
+// Error handler middleware
+const handleError = errorHandler('Pantry route error');
+
+// Routes
+
+/**
+ * GET /api/pantry/:userId
+ * List a user's pantry, soonest expiry first
+ */
+router.get('/:userId', validateQuery(listQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { expiringWithinDays, includeExpired } = req.query as any;
+
+    const items = await PantryModel.findByUserId(userId, { expiringWithinDays, includeExpired });
+
+    res.json({
+      success: true,
+      data: items,
+      meta: {
+        count: items.length,
+        expired: items.filter(item => item.daysUntilExpiry !== undefined && item.daysUntilExpiry < 0).length
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/pantry/:userId
+ * Add an item to a user's pantry
+ */
+router.post('/:userId', validateRequest(pantryItemSchema), async (req: Request, res: Response) => {
+  try {
+    const item = await PantryModel.create(req.params.userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: item
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/pantry/:userId/expired
+ * Remove every expired item from a user's pantry
+ */
+router.delete('/:userId/expired', async (req: Request, res: Response) => {
+  try {
+    const removed = await PantryModel.deleteExpired(req.params.userId);
+
+    res.json({
+      success: true,
+      data: { removed },
+      message: `Removed ${removed} expired pantry item(s)`
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/pantry/:userId/:itemId
+ * Get a single pantry item
+ */
+router.get('/:userId/:itemId', async (req: Request, res: Response) => {
+  try {
+    const { userId, itemId } = req.params;
+    const item = await PantryModel.findById(userId, itemId);
+
+    if (!item) {
+      return res.status(404).json({
+        error: 'Pantry item not found',
+        code: 'NOT_FOUND'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: item
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * PUT /api/pantry/:userId/:itemId
+ * Update a pantry item (quantity, dates, ...); null clears a date
+ */
+router.put('/:userId/:itemId', validateRequest(updatePantryItemSchema), async (req: Request, res: Response) => {
+  try {
+    const { userId, itemId } = req.params;
+    const item = await PantryModel.update(userId, itemId, req.body);
+
+    res.json({
+      success: true,
+      data: item
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/pantry/:userId/:itemId
+ * Remove an item from a user's pantry
+ */
+router.delete('/:userId/:itemId', async (req: Request, res: Response) => {
+  try {
+    const { userId, itemId } = req.params;
+    await PantryModel.delete(userId, itemId);
+
+    res.json({
+      success: true,
+      message: 'Pantry item deleted successfully'
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
@@ -1,16 +1,42 @@
 import { Router, Request, Response } from 'express';
 import { DietaryProfileModel } from '../models/DietaryProfile';
+import { RestrictionGraph } from '../utils/restrictionGraph';
 import { 
+  DietaryProfile,
   DietaryRestriction,
   UserPreferencesRequest,
-  RecipeError,
-  ValidationError 
+  RestrictionWarning
 } from '../../types';
 import Joi from 'joi';
+import { validateRequest, errorHandler } from './middleware';
 
 const router = Router();
 
 // Validation schemas
+
+// A user's own restriction; it must block something, by name, pattern or nutrient limit
+const customRestrictionSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(60).required(),
+  blockedIngredients: Joi.array().items(Joi.string().trim().min(1).max(60)).max(50).default([]),
+  // Words where * stands for any letters, e.g. "chil*" or "*berry"
+  blockedPatterns: Joi.array().items(
+    Joi.string().trim().max(60).pattern(/^[a-zA-Z0-9 '*-]+$/).pattern(/[a-zA-Z0-9]/)
+  ).max(50).default([]),
+  nutrientLimits: Joi.array().items(Joi.object({
+    nutrient: Joi.string().valid('calories', 'protein', 'carbohydrates', 'fat', 'sugar', 'sodium').required(),
+    max: Joi.number().min(0).required()
+  })).unique('nutrient').default([])
+}).custom((value, helpers) => {
+  const blocks = value.blockedIngredients.length + value.blockedPatterns.length + value.nutrientLimits.length;
+  return blocks > 0
+    ? value
+    : helpers.message({ custom: `Custom restriction "${value.name}" must block at least one ingredient, pattern or nutrient` });
+});
+
+const customRestrictionsSchema = Joi.array()
+  .items(customRestrictionSchema)
+  .unique((a, b) => a.name.toLowerCase() === b.name.toLowerCase())
+  .max(20);
 const preferencesSchema = Joi.object({
   userId: Joi.string().trim().min(1).required(),
   allergies: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).default([]),
@@ -24,7 +50,10 @@ const preferencesSchema = Joi.object({
     fiberGoal: Joi.number().min(10).max(100).optional(),
     sodiumLimit: Joi.number().min(500).max(5000).optional(),
     goal: Joi.string().valid('weight_loss', 'weight_gain', 'maintenance', 'muscle_gain').required()
-  }).required()
+  }).required(),
+  // Treat "may contain" (cross-contact) risks for the user's allergies as unsafe
+  allergyStrict: Joi.boolean().default(false),
+  customRestrictions: customRestrictionsSchema.default([])
 });
 
 const updatePreferencesSchema = Joi.object({
@@ -39,50 +68,39 @@ const updatePreferencesSchema = Joi.object({
     fiberGoal: Joi.number().min(10).max(100).optional(),
     sodiumLimit: Joi.number().min(500).max(5000).optional(),
     goal: Joi.string().valid('weight_loss', 'weight_gain', 'maintenance', 'muscle_gain').optional()
-  }).optional()
+  }).optional(),
+  allergyStrict: Joi.boolean().optional(),
+  customRestrictions: customRestrictionsSchema.optional()
 });
 
-// Middleware for validation
-const validateRequest = (schema: Joi.ObjectSchema) => {
-  return (req: Request, res: Response, next: Function) => {
-    const { error, value } = schema.validate(req.body);
-    if (error) {
-      return res.status(400).json({
-        error: 'Validation failed',
-        details: error.details.map(d => d.message)
-      });
-    }
-    req.body = value;
-    next();
-  };
-};
-
 // Error handler middleware
-const handleError = (error: any, res: Response) => {
-  console.error('Preferences route error:', error);
-  
-  if (error instanceof RecipeError) {
-    return res.status(error.statusCode).json({
-      error: error.message,
-      code: error.code
-    });
-  }
-  
-  if (error instanceof ValidationError) {
-    return res.status(error.statusCode).json({
-      error: error.message,
-      field: error.field
-    });
-  }
-  
-  return res.status(500).json({
-    error: 'Internal server error',
-    code: 'INTERNAL_ERROR'
-  });
-};
+const handleError = errorHandler('Preferences route error');
 
 // Routes
 
+/**
+ * GET /api/preferences/dietary-restrictions
+ * Get all available dietary restriction options and how they relate
+ * (registered before /:userId so it is not read as a user ID)
+ */
+router.get('/dietary-restrictions', async (req: Request, res: Response) => {
+  try {
+    const restrictions = Object.values(DietaryRestriction).map(restriction => ({
+      value: restriction,
+      label: restriction.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+      category: categorizeDietaryRestriction(restriction),
+      ...RestrictionGraph.relations(restriction)
+    }));
+    
+    res.json({
+      success: true,
+      data: restrictions
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
 /**
  * GET /api/preferences/:userId
  * Get user dietary preferences
@@ -122,7 +140,9 @@ router.get('/:userId', async (req: Request, res: Response) => {
  */
 router.post('/', validateRequest(preferencesSchema), async (req: Request, res: Response) => {
   try {
-    const { userId, allergies, dietaryPreferences, healthConditions, nutritionalGoals } = req.body;
+    const {
+      userId, allergies, dietaryPreferences, healthConditions, nutritionalGoals, allergyStrict, customRestrictions
+    } = req.body;
     
     // Validate that percentages add up to 100% if all are provided
     if (nutritionalGoals.proteinPercentage && nutritionalGoals.carbPercentage && nutritionalGoals.fatPercentage) {
@@ -139,12 +159,18 @@ router.post('/', validateRequest(preferencesSchema), async (req: Request, res: R
       allergies,
       dietaryPreferences,
       healthConditions,
-      nutritionalGoals
+      nutritionalGoals,
+      allergyStrict,
+      customRestrictions
     });
     
+    // Conflicting or redundant restrictions are saved as given, with a warning
     res.status(201).json({
       success: true,
-      data: profile
+      data: profile,
+      meta: {
+        warnings: restrictionWarnings(profile)
+      }
     });
   } catch (error) {
     handleError(error, res);
@@ -194,7 +220,10 @@ router.put('/:userId', validateRequest(updatePreferencesSchema), async (req: Req
     
     res.json({
       success: true,
-      data: updatedProfile
+      data: updatedProfile,
+      meta: {
+        warnings: restrictionWarnings(updatedProfile)
+      }
     });
   } catch (error) {
     handleError(error, res);
@@ -237,7 +266,8 @@ router.delete('/:userId', async (req: Request, res: Response) => {
 
 /**
  * GET /api/preferences/:userId/restrictions
- * Get all dietary restrictions for a user (combined allergies, preferences, and health conditions)
+ * Get all dietary restrictions for a user (combined allergies, preferences, and health conditions,
+ * plus their implications and the user's custom restrictions)
  */
 router.get('/:userId/restrictions', async (req: Request, res: Response) => {
   try {
@@ -250,12 +280,18 @@ router.get('/:userId/restrictions', async (req: Request, res: Response) => {
       });
     }
     
+    const profile = await DietaryProfileModel.findByUserId(userId);
+    const declared = profile ? declaredRestrictions(profile) : [];
     const restrictions = await DietaryProfileModel.getAllRestrictions(userId);
     
     res.json({
       success: true,
       data: {
         restrictions,
+        declared,
+        implied: restrictions.filter(restriction => !declared.includes(restriction)),
+        warnings: RestrictionGraph.validate(declared),
+        custom: profile?.customRestrictions || [],
         count: restrictions.length
       }
     });
@@ -335,26 +371,14 @@ router.post('/:userId/check-restriction', async (req: Request, res: Response) =>
   }
 });
 
-/**
- * GET /api/preferences/dietary-restrictions
- * Get all available dietary restriction options
- */
-router.get('/dietary-restrictions', async (req: Request, res: Response) => {
-  try {
-    const restrictions = Object.values(DietaryRestriction).map(restriction => ({
-      value: restriction,
-      label: restriction.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-      category: categorizeDietaryRestriction(restriction)
-    }));
-    
-    res.json({
-      success: true,
-      data: restrictions
-    });
-  } catch (error) {
-    handleError(error, res);
-  }
-});
+// Everything the user listed, before implications are added
+function declaredRestrictions(profile: DietaryProfile): DietaryRestriction[] {
+  return [...new Set([...profile.allergies, ...profile.dietaryPreferences, ...profile.healthConditions])];
+}
+
+function restrictionWarnings(profile: DietaryProfile): RestrictionWarning[] {
+  return RestrictionGraph.validate(declaredRestrictions(profile));
+}
 
 // Helper function to categorize dietary restrictions
 function categorizeDietaryRestriction(restriction: DietaryRestriction): string {
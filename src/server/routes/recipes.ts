@@ -1,99 +1,394 @@
 import { Router, Request, Response } from 'express';
 import { recipeService } from '../services/recipeService';
+import { nutritionService } from '../services/nutritionService';
+import { householdService } from '../services/householdService';
 import { 
   CreateRecipeRequest, 
   ScaleRecipeRequest, 
   SubstituteIngredientRequest,
   DietaryRestriction,
+  Ingredient,
+  ParsedIngredientLine,
+  RecipeStreamEvent,
+  PopularSort,
+  Household,
   RecipeError,
+  AIServiceError,
   ValidationError 
 } from '../../types';
+import { openEventStream } from '../utils/sse';
+import { IngredientParser } from '../utils/ingredientParser';
+import { NutritionLabelBuilder } from '../utils/nutritionLabel';
 import Joi from 'joi';
+import { validateRequest, validateQuery, errorHandler, isoDate } from './middleware';
 
 const router = Router();
 
 // Validation schemas
+
+// A household request without a servingSize cooks for every member (see resolveServingSize)
+const servingSizeSchema = Joi.number().integer().min(1).max(20)
+  .when('householdId', { is: Joi.exist(), otherwise: Joi.number().default(4) });
+
 const ingredientsRequestSchema = Joi.object({
-  ingredients: Joi.array().items(Joi.string().trim().min(1)).min(1).required(),
+  // With usePantry, the user's unexpired pantry items are used (plus any listed here)
+  usePantry: Joi.boolean().default(false),
+  ingredients: Joi.array().items(Joi.string().trim().min(1)).min(1)
+    .when('usePantry', { is: true, then: Joi.optional(), otherwise: Joi.required() }),
   dietaryRestrictions: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).default([]),
-  servingSize: Joi.number().integer().min(1).max(20).default(4),
+  servingSize: servingSizeSchema,
   cuisinePreference: Joi.string().trim().optional(),
-  userId: Joi.string().trim().optional()
+  userId: Joi.string().trim()
+    .when('usePantry', { is: true, then: Joi.required(), otherwise: Joi.optional() }),
+  householdId: Joi.string().trim().optional()
 });
 
 const foodNameRequestSchema = Joi.object({
   foodName: Joi.string().trim().min(1).required(),
   dietaryRestrictions: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).default([]),
+  servingSize: servingSizeSchema,
+  userId: Joi.string().trim().optional(),
+  householdId: Joi.string().trim().optional()
+});
+
+const pantryMatchSchema = Joi.object({
+  ingredients: Joi.array().items(Joi.string().trim().min(1)).min(1).required(),
+  dietaryRestrictions: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).default([]),
+  minCoverage: Joi.number().min(0).max(1).default(0.6),
+  limit: Joi.number().integer().min(1).max(50).default(10),
   servingSize: Joi.number().integer().min(1).max(20).default(4),
+  cuisinePreference: Joi.string().trim().optional(),
   userId: Joi.string().trim().optional()
 });
 
+const cookedRequestSchema = Joi.object({
+  userId: Joi.string().trim().min(1).required(),
+  servings: Joi.number().integer().min(1).max(50).optional(),
+  cookedOn: isoDate.optional(),
+  notes: Joi.string().trim().max(1000).allow('').optional()
+});
+
 const scaleRequestSchema = Joi.object({
   recipeId: Joi.string().trim().required(),
-  newServingSize: Joi.number().integer().min(1).max(20).required()
+  newServingSize: Joi.number().integer().min(1).max(20),
+  householdId: Joi.string().trim() // scale for every member's servings instead
+}).xor('newServingSize', 'householdId');
+
+const draftScaleSchema = Joi.object({
+  newServingSize: Joi.number().integer().min(1).max(20),
+  householdId: Joi.string().trim()
+}).xor('newServingSize', 'householdId');
+
+const draftPromoteSchema = Joi.object({
+  userId: Joi.string().trim().optional()
+});
+
+const nutritionCalculateSchema = Joi.object({
+  useAI: Joi.boolean().default(true)
+});
+
+const fitQuerySchema = Joi.object({
+  userId: Joi.string().trim().required()
+});
+
+const nutritionLabelQuerySchema = Joi.object({
+  userId: Joi.string().trim().optional(),
+  format: Joi.string().valid('json', 'html', 'svg').default('json')
 });
 
 const substituteRequestSchema = Joi.object({
   ingredient: Joi.string().trim().min(1).required(),
   dietaryRestrictions: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).min(1).required(),
-  recipeContext: Joi.string().trim().required()
+  recipeContext: Joi.string().trim().required(),
+  userId: Joi.string().trim().optional()
 });
 
-// Middleware for validation
-const validateRequest = (schema: Joi.ObjectSchema) => {
-  return (req: Request, res: Response, next: Function) => {
-    const { error, value } = schema.validate(req.body);
-    if (error) {
-      return res.status(400).json({
-        error: 'Validation failed',
-        details: error.details.map(d => d.message)
-      });
-    }
-    req.body = value;
-    next();
-  };
+// The draft itself is the recipe context unless one is given
+const draftSubstituteSchema = substituteRequestSchema.keys({
+  recipeContext: Joi.string().trim().optional()
+});
+
+const dietaryAnalysisSchema = Joi.object({
+  dietaryRestrictions: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).default([]),
+  userId: Joi.string().trim().optional(),
+  useAI: Joi.boolean().default(true)
+});
+
+const ingredientSchema = Joi.object({
+  name: Joi.string().trim().min(1).required(),
+  amount: Joi.number().min(0).required(),
+  unit: Joi.string().trim().allow('').required(),
+  notes: Joi.string().trim().allow('').optional()
+});
+
+// Ingredients may be structured objects or free-text lines ("1 1/2 cups flour, sifted")
+const ingredientItemSchema = Joi.alternatives().try(
+  ingredientSchema,
+  Joi.string().trim().min(1).max(300)
+);
+
+const nutritionalInfoSchema = Joi.object({
+  calories: Joi.number().min(0).required(),
+  protein: Joi.number().min(0).required(),
+  carbohydrates: Joi.number().min(0).required(),
+  fat: Joi.number().min(0).required(),
+  fiber: Joi.number().min(0).default(0),
+  sugar: Joi.number().min(0).default(0),
+  sodium: Joi.number().min(0).default(0),
+  vitamins: Joi.object().pattern(Joi.string(), Joi.number().min(0)).default({}),
+  minerals: Joi.object().pattern(Joi.string(), Joi.number().min(0)).default({}),
+  servingSize: Joi.number().integer().min(1).optional()
+});
+
+const recipeSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(200).required(),
+  description: Joi.string().trim().allow('').default(''),
+  ingredients: Joi.array().items(ingredientItemSchema).min(1).required(),
+  instructions: Joi.array().items(Joi.string().trim().min(1)).min(1).required(),
+  servingSize: Joi.number().integer().min(1).max(20).required(),
+  cookingTime: Joi.number().integer().min(1).max(1440).required(),
+  difficulty: Joi.number().integer().min(1).max(5).required(),
+  cuisine: Joi.string().trim().allow('').default(''),
+  tags: Joi.array().items(Joi.string().trim().min(1)).default([]),
+  dietaryCompatibility: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).default([]),
+  nutritionalInfo: nutritionalInfoSchema.optional(),
+  author: Joi.string().trim().max(100).optional(),
+  changeReason: Joi.string().trim().max(500).optional()
+});
+
+const recipePatchSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(200).optional(),
+  description: Joi.string().trim().allow('').optional(),
+  ingredients: Joi.array().items(ingredientItemSchema).min(1).optional(),
+  instructions: Joi.array().items(Joi.string().trim().min(1)).min(1).optional(),
+  servingSize: Joi.number().integer().min(1).max(20).optional(),
+  cookingTime: Joi.number().integer().min(1).max(1440).optional(),
+  difficulty: Joi.number().integer().min(1).max(5).optional(),
+  cuisine: Joi.string().trim().allow('').optional(),
+  tags: Joi.array().items(Joi.string().trim().min(1)).optional(),
+  dietaryCompatibility: Joi.array().items(Joi.string().valid(...Object.values(DietaryRestriction))).optional(),
+  nutritionalInfo: nutritionalInfoSchema.optional(),
+  author: Joi.string().trim().max(100).optional(),
+  changeReason: Joi.string().trim().max(500).optional()
+}).or(
+  'name', 'description', 'ingredients', 'instructions', 'servingSize', 'cookingTime',
+  'difficulty', 'cuisine', 'tags', 'dietaryCompatibility', 'nutritionalInfo'
+);
+
+const restoreVersionSchema = Joi.object({
+  author: Joi.string().trim().max(100).optional(),
+  changeReason: Joi.string().trim().max(500).optional()
+});
+
+const versionDiffQuerySchema = Joi.object({
+  from: Joi.number().integer().min(1).required(),
+  to: Joi.number().integer().min(1).required()
+});
+
+const listQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(50).default(20),
+  cursor: Joi.string().trim().optional(),
+  sort: Joi.string().valid('popularity', 'cookCount', 'createdAt', 'cookingTime', 'difficulty').default('createdAt'),
+  order: Joi.string().valid('asc', 'desc').default('desc'),
+  cuisine: Joi.string().trim().optional(),
+  tags: Joi.string().trim().optional(), // comma-separated, all must match
+  dietaryRestrictions: Joi.string().trim().allow('').optional(), // comma-separated, all must be satisfied
+  maxCookingTime: Joi.number().integer().min(1).optional(),
+  minDifficulty: Joi.number().integer().min(1).max(5).optional(),
+  maxDifficulty: Joi.number().integer().min(1).max(5).optional()
+});
+
+const searchQuerySchema = Joi.object({
+  q: Joi.string().trim().min(1).max(200).required(),
+  dietaryRestrictions: Joi.string().trim().allow('').optional(), // comma-separated
+  userId: Joi.string().trim().when('sort', { is: 'fit', then: Joi.required(), otherwise: Joi.optional() }),
+  householdId: Joi.string().trim().optional(),
+  cuisine: Joi.string().trim().optional(),
+  difficulty: Joi.number().integer().min(1).max(5).optional(),
+  maxCookingTime: Joi.number().integer().min(1).optional(),
+  sort: Joi.string().valid('relevance', 'fit').default('relevance'),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+  offset: Joi.number().integer().min(0).default(0)
+});
+
+// Parse a comma-separated dietaryRestrictions query param, rejecting unknown values
+const parseRestrictionsParam = (value: unknown): DietaryRestriction[] => {
+  if (!value) return [];
+
+  const known = Object.values(DietaryRestriction) as string[];
+  const restrictions = [...new Set((value as string).split(',').map(r => r.trim()).filter(Boolean))];
+  const unknown = restrictions.filter(r => !known.includes(r));
+
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown dietary restriction: ${unknown.join(', ')}`, 'dietaryRestrictions');
+  }
+
+  return restrictions as DietaryRestriction[];
 };
 
 // Error handler middleware
-const handleError = (error: any, res: Response) => {
-  console.error('Recipe route error:', error);
-  
-  if (error instanceof RecipeError) {
-    return res.status(error.statusCode).json({
-      error: error.message,
-      code: error.code
-    });
-  }
-  
-  if (error instanceof ValidationError) {
-    return res.status(error.statusCode).json({
-      error: error.message,
-      field: error.field
-    });
-  }
-  
-  return res.status(500).json({
-    error: 'Internal server error',
-    code: 'INTERNAL_ERROR'
+const handleError = errorHandler('Recipe route error');
+
+// Parse free-text ingredient lines in a recipe body in place; returns the lines the parser had to guess at
+const parseIngredientLines = (body: any): ParsedIngredientLine[] => {
+  if (!Array.isArray(body.ingredients)) return [];
+
+  const guessed: ParsedIngredientLine[] = [];
+  body.ingredients = body.ingredients.map((item: Ingredient | string) => {
+    if (typeof item !== 'string') return item;
+
+    const parsed = IngredientParser.parse(item);
+    if (parsed.confidence === 'low') guessed.push(parsed);
+    return parsed.ingredient;
   });
+
+  return guessed;
+};
+
+// Resolve the ingredient list for a by-ingredients request, merging in the pantry when asked to
+const resolveIngredients = async (body: any): Promise<{ ingredients: string[]; expiringSoon: string[] }> => {
+  if (!body.usePantry) {
+    return { ingredients: body.ingredients, expiringSoon: [] };
+  }
+
+  const pantry = await recipeService.getPantryIngredients(body.userId);
+  return {
+    ingredients: [...new Set([...(body.ingredients || []), ...pantry.ingredients])],
+    expiringSoon: pantry.expiringSoon
+  };
+};
+
+// Every member's servings rounded up, within the 1-20 servings a request may ask for
+const householdServingSize = (household: Household): number =>
+  Math.min(20, Math.max(1, Math.ceil(householdService.servings(household))));
+
+// The requested serving size, or enough standard servings for every household member, rounded up
+const resolveServingSize = async (body: any): Promise<number> => {
+  if (body.servingSize !== undefined) return body.servingSize;
+
+  const household = await householdService.getHousehold(body.householdId);
+  return householdServingSize(household);
+};
+
+// The serving size to scale to: the one requested, or every household member's servings rounded up
+const resolveScaleTarget = async (body: any): Promise<{ newServingSize: number; household: Household | null }> => {
+  if (!body.householdId) {
+    return { newServingSize: body.newServingSize, household: null };
+  }
+
+  const household = await householdService.getHousehold(body.householdId);
+  return { newServingSize: householdServingSize(household), household };
+};
+
+// Each member's portion, for responses scaled to a household
+const householdPortions = (household: Household) => ({
+  id: household.id,
+  servings: householdService.servings(household),
+  members: household.members
+});
+
+// Forward service stream events to the client as Server-Sent Events
+const pipeEventStream = async <T>(res: Response, events: AsyncGenerator<RecipeStreamEvent<T>>) => {
+  const stream = openEventStream(res);
+
+  try {
+    for await (const event of events) {
+      // Stop generating once the client has gone away
+      if (stream.isClosed()) break;
+      stream.send(event.type, event);
+    }
+  } catch (error) {
+    console.error('Recipe stream error:', error);
+    const known = error instanceof RecipeError || error instanceof AIServiceError;
+    stream.send('error', {
+      type: 'error',
+      code: known ? error.code : 'INTERNAL_ERROR',
+      message: known ? error.message : 'Internal server error'
+    });
+  } finally {
+    stream.close();
+  }
 };
 
 // Routes
 
+/**
+ * GET /api/recipes
+ * List stored recipes with filters, sorting and cursor pagination
+ */
+router.get('/', validateQuery(listQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const {
+      limit, cursor, sort, order, cuisine, tags, dietaryRestrictions, maxCookingTime, minDifficulty, maxDifficulty
+    } = req.query as any;
+
+    const result = await recipeService.listRecipes({
+      limit,
+      cursor,
+      sort,
+      order,
+      cuisine,
+      tags: tags ? (tags as string).split(',').map(t => t.trim()).filter(Boolean) : undefined,
+      dietaryRestrictions: parseRestrictionsParam(dietaryRestrictions),
+      maxCookingTime,
+      minDifficulty,
+      maxDifficulty
+    });
+
+    res.json({
+      success: true,
+      data: result.items,
+      meta: {
+        count: result.items.length,
+        limit,
+        sort,
+        order,
+        nextCursor: result.nextCursor
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/recipes
+ * Create a user-authored recipe
+ */
+router.post('/', validateRequest(recipeSchema), async (req: Request, res: Response) => {
+  try {
+    const lowConfidenceIngredients = parseIngredientLines(req.body);
+    const { author, changeReason, ...recipeData } = req.body;
+    const recipe = await recipeService.createRecipe(recipeData, { author, reason: changeReason });
+
+    res.status(201).json({
+      success: true,
+      data: recipe,
+      ...(lowConfidenceIngredients.length > 0 && { meta: { lowConfidenceIngredients } })
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
 /**
  * POST /api/recipes/by-ingredients
  * Get recipes by ingredients with dietary filters
  */
 router.post('/by-ingredients', validateRequest(ingredientsRequestSchema), async (req: Request, res: Response) => {
   try {
-    const { ingredients, dietaryRestrictions, servingSize, cuisinePreference, userId } = req.body;
+    const { dietaryRestrictions, cuisinePreference, userId, householdId, usePantry } = req.body;
+    const { ingredients, expiringSoon } = await resolveIngredients(req.body);
+    const servingSize = await resolveServingSize(req.body);
     
     const suggestions = await recipeService.getRecipesByIngredients(
       ingredients,
       dietaryRestrictions,
       servingSize,
       cuisinePreference,
-      userId
+      userId,
+      expiringSoon,
+      householdId
     );
     
     res.json({
@@ -102,7 +397,9 @@ router.post('/by-ingredients', validateRequest(ingredientsRequestSchema), async
       meta: {
         count: suggestions.length,
         servingSize,
-        dietaryRestrictions
+        dietaryRestrictions,
+        ...(householdId && { householdId }),
+        ...(usePantry && { ingredients, expiringSoon })
       }
     });
   } catch (error) {
@@ -116,13 +413,15 @@ router.post('/by-ingredients', validateRequest(ingredientsRequestSchema), async
  */
 router.post('/by-name', validateRequest(foodNameRequestSchema), async (req: Request, res: Response) => {
   try {
-    const { foodName, dietaryRestrictions, servingSize, userId } = req.body;
+    const { foodName, dietaryRestrictions, userId, householdId } = req.body;
+    const servingSize = await resolveServingSize(req.body);
     
     const variations = await recipeService.getRecipeVariationsByName(
       foodName,
       dietaryRestrictions,
       servingSize,
-      userId
+      userId,
+      householdId
     );
     
     res.json({
@@ -132,7 +431,260 @@ router.post('/by-name', validateRequest(foodNameRequestSchema), async (req: Requ
         count: variations.length,
         foodName,
         servingSize,
-        dietaryRestrictions
+        dietaryRestrictions,
+        ...(householdId && { householdId })
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/recipes/match-pantry
+ * Rank stored recipes by pantry coverage, with AI suggestions when none clears minCoverage
+ */
+router.post('/match-pantry', validateRequest(pantryMatchSchema), async (req: Request, res: Response) => {
+  try {
+    const result = await recipeService.matchPantry(req.body);
+
+    res.json({
+      success: true,
+      data: result,
+      meta: {
+        source: result.source,
+        matchCount: result.matches.length,
+        suggestionCount: result.suggestions.length,
+        minCoverage: req.body.minCoverage,
+        dietaryRestrictions: req.body.dietaryRestrictions
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/recipes/by-ingredients/stream
+ * Stream recipes by ingredients as Server-Sent Events
+ */
+router.post('/by-ingredients/stream', validateRequest(ingredientsRequestSchema), async (req: Request, res: Response) => {
+  const { dietaryRestrictions, cuisinePreference, userId, householdId } = req.body;
+
+  // Resolve the pantry and household before opening the stream so failures are still plain JSON errors
+  let resolved;
+  let servingSize;
+  try {
+    resolved = await resolveIngredients(req.body);
+    servingSize = await resolveServingSize(req.body);
+  } catch (error) {
+    return handleError(error, res);
+  }
+
+  await pipeEventStream(res, recipeService.streamRecipesByIngredients(
+    resolved.ingredients,
+    dietaryRestrictions,
+    servingSize,
+    cuisinePreference,
+    userId,
+    resolved.expiringSoon,
+    householdId
+  ));
+});
+
+/**
+ * POST /api/recipes/by-name/stream
+ * Stream recipe variations by food name as Server-Sent Events
+ */
+router.post('/by-name/stream', validateRequest(foodNameRequestSchema), async (req: Request, res: Response) => {
+  const { foodName, dietaryRestrictions, userId, householdId } = req.body;
+
+  let servingSize;
+  try {
+    servingSize = await resolveServingSize(req.body);
+  } catch (error) {
+    return handleError(error, res);
+  }
+
+  await pipeEventStream(res, recipeService.streamRecipeVariationsByName(
+    foodName,
+    dietaryRestrictions,
+    servingSize,
+    userId,
+    householdId
+  ));
+});
+
+/**
+ * GET /api/recipes/popular
+ * Get popular recipes with dietary filtering
+ */
+router.get('/popular', async (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+    const dietaryRestrictions = parseRestrictionsParam(req.query.dietaryRestrictions);
+    const userId = req.query.userId as string;
+    const householdId = req.query.householdId as string | undefined;
+    const sort = (req.query.sort as PopularSort) || 'popularity';
+    
+    if (limit < 1 || limit > 50) {
+      return res.status(400).json({
+        error: 'Limit must be between 1 and 50',
+        code: 'INVALID_LIMIT'
+      });
+    }
+
+    if (sort !== 'popularity' && sort !== 'cookCount' && sort !== 'fit') {
+      return res.status(400).json({
+        error: 'Sort must be popularity, cookCount or fit',
+        code: 'INVALID_SORT'
+      });
+    }
+
+    if (sort === 'fit' && !userId) {
+      return res.status(400).json({
+        error: 'Sorting by fit requires a userId',
+        code: 'USER_REQUIRED'
+      });
+    }
+    
+    const recipes = await recipeService.getPopularRecipes(limit, dietaryRestrictions, userId, sort, householdId);
+    
+    res.json({
+      success: true,
+      data: recipes,
+      meta: {
+        count: recipes.length,
+        limit,
+        sort,
+        dietaryRestrictions,
+        ...(householdId && { householdId })
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/recipes/search
+ * Full-text search (phrases, prefix*, OR) with dietary filtering, highlighted snippets and facet counts
+ * (sort=fit re-ranks the 200 most relevant matches only; total counts that pool)
+ */
+router.get('/search', validateQuery(searchQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const { q, dietaryRestrictions, userId, householdId, cuisine, difficulty, maxCookingTime, sort, limit, offset } = req.query as any;
+    const restrictions = parseRestrictionsParam(dietaryRestrictions);
+
+    const result = await recipeService.searchRecipes({
+      query: q,
+      dietaryRestrictions: restrictions,
+      cuisine,
+      difficulty,
+      maxCookingTime,
+      sort,
+      limit,
+      offset
+    }, userId, householdId);
+
+    res.json({
+      success: true,
+      data: result.hits,
+      facets: result.facets,
+      meta: {
+        count: result.hits.length,
+        total: result.total,
+        limit,
+        offset,
+        sort,
+        query: q,
+        dietaryRestrictions: restrictions,
+        ...(householdId && { householdId })
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/recipes/drafts/:id
+ * Get an AI suggestion or variation saved when it was generated, with its source
+ */
+router.get('/drafts/:id', async (req: Request, res: Response) => {
+  try {
+    const draft = await recipeService.getDraft(req.params.id);
+
+    res.json({
+      success: true,
+      data: draft
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/recipes/drafts/:id/scale
+ * Scale a draft for a different serving size, or for a household's members
+ */
+router.post('/drafts/:id/scale', validateRequest(draftScaleSchema), async (req: Request, res: Response) => {
+  try {
+    const { newServingSize, household } = await resolveScaleTarget(req.body);
+    const scaledDraft = await recipeService.scaleDraft(req.params.id, newServingSize);
+
+    res.json({
+      success: true,
+      data: scaledDraft,
+      meta: {
+        originalServingSize: scaledDraft.source.prompt.servingSize,
+        newServingSize,
+        scaled: true,
+        ...(household && { household: householdPortions(household) })
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/recipes/drafts/:id/substitute
+ * Get ingredient substitutions for one of a draft's ingredients
+ */
+router.post('/drafts/:id/substitute', validateRequest(draftSubstituteSchema), async (req: Request, res: Response) => {
+  try {
+    const { ingredient, dietaryRestrictions } = req.body;
+    const substitutions = await recipeService.getDraftSubstitutions(req.params.id, req.body);
+
+    res.json({
+      success: true,
+      data: substitutions,
+      meta: {
+        originalIngredient: ingredient,
+        dietaryRestrictions,
+        count: substitutions.length
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/recipes/drafts/:id/promote
+ * Save a draft as a full recipe with nutrition; promoting the same draft again returns that recipe
+ */
+router.post('/drafts/:id/promote', validateRequest(draftPromoteSchema), async (req: Request, res: Response) => {
+  try {
+    const { recipe, created } = await recipeService.promoteDraft(req.params.id, req.body.userId);
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: recipe,
+      meta: {
+        draftId: req.params.id,
+        created
       }
     });
   } catch (error) {
@@ -174,14 +726,187 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/recipes/:id
+ * Replace a stored recipe
+ */
+router.put('/:id', validateRequest(recipeSchema), async (req: Request, res: Response) => {
+  try {
+    const lowConfidenceIngredients = parseIngredientLines(req.body);
+    const { author, changeReason, ...updates } = req.body;
+    const recipe = await recipeService.updateRecipe(req.params.id, updates, { author, reason: changeReason });
+
+    res.json({
+      success: true,
+      data: recipe,
+      ...(lowConfidenceIngredients.length > 0 && { meta: { lowConfidenceIngredients } })
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * PATCH /api/recipes/:id
+ * Partially update a stored recipe
+ */
+router.patch('/:id', validateRequest(recipePatchSchema), async (req: Request, res: Response) => {
+  try {
+    const lowConfidenceIngredients = parseIngredientLines(req.body);
+    const { author, changeReason, ...updates } = req.body;
+    const recipe = await recipeService.updateRecipe(req.params.id, updates, { author, reason: changeReason });
+
+    res.json({
+      success: true,
+      data: recipe,
+      ...(lowConfidenceIngredients.length > 0 && { meta: { lowConfidenceIngredients } })
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/recipes/:id
+ * Delete a stored recipe
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await recipeService.deleteRecipe(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Recipe deleted successfully'
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+// Parse a :version route param, returning null when it is not a positive integer
+const parseVersionParam = (value: string): number | null => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+/**
+ * GET /api/recipes/:id/versions
+ * List the version history of a recipe
+ */
+router.get('/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const versions = await recipeService.getRecipeVersions(req.params.id);
+
+    res.json({
+      success: true,
+      data: versions.map(({ snapshot, ...summary }) => summary),
+      meta: {
+        count: versions.length
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/recipes/:id/versions/diff
+ * Structured diff between two versions of a recipe
+ */
+router.get('/:id/versions/diff', validateQuery(versionDiffQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const { from, to } = req.query as any;
+    const diff = await recipeService.diffRecipeVersions(req.params.id, from, to);
+
+    res.json({
+      success: true,
+      data: diff
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/recipes/:id/versions/:version
+ * Get a single version of a recipe
+ */
+router.get('/:id/versions/:version', async (req: Request, res: Response) => {
+  try {
+    const version = parseVersionParam(req.params.version);
+    if (!version) {
+      return res.status(400).json({
+        error: 'Version must be a positive integer',
+        code: 'INVALID_VERSION'
+      });
+    }
+
+    const found = await recipeService.getRecipeVersion(req.params.id, version);
+
+    res.json({
+      success: true,
+      data: found
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/recipes/:id/versions/:version/restore
+ * Restore a previous version (recorded as a new version)
+ */
+router.post('/:id/versions/:version/restore', validateRequest(restoreVersionSchema), async (req: Request, res: Response) => {
+  try {
+    const version = parseVersionParam(req.params.version);
+    if (!version) {
+      return res.status(400).json({
+        error: 'Version must be a positive integer',
+        code: 'INVALID_VERSION'
+      });
+    }
+
+    const { author, changeReason } = req.body;
+    const recipe = await recipeService.restoreRecipeVersion(req.params.id, version, {
+      author,
+      reason: changeReason
+    });
+
+    res.json({
+      success: true,
+      data: recipe,
+      message: `Recipe restored to version ${version}`
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/recipes/:id/cooked
+ * Log that a user cooked this recipe
+ */
+router.post('/:id/cooked', validateRequest(cookedRequestSchema), async (req: Request, res: Response) => {
+  try {
+    const entry = await recipeService.recordCooked(req.params.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
 /**
  * POST /api/recipes/:id/scale
- * Scale recipe for different serving sizes
+ * Scale recipe for different serving sizes, or for a household's members
  */
 router.post('/:id/scale', validateRequest(scaleRequestSchema), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { newServingSize } = req.body;
+    const { newServingSize, household } = await resolveScaleTarget(req.body);
     
     const scaledRecipe = await recipeService.scaleRecipe({
       recipeId: id,
@@ -194,7 +919,8 @@ router.post('/:id/scale', validateRequest(scaleRequestSchema), async (req: Reque
       meta: {
         originalServingSize: scaledRecipe.servingSize,
         newServingSize,
-        scaled: true
+        scaled: true,
+        ...(household && { household: householdPortions(household) })
       }
     });
   } catch (error) {
@@ -203,26 +929,63 @@ router.post('/:id/scale', validateRequest(scaleRequestSchema), async (req: Reque
 });
 
 /**
- * POST /api/recipes/:id/substitute
- * Get ingredient substitutions for dietary needs
+ * GET /api/recipes/:id/fit?userId=
+ * Score (0-100) how well a serving fits the user's nutritional goals, with a reason per dimension
  */
-router.post('/:id/substitute', validateRequest(substituteRequestSchema), async (req: Request, res: Response) => {
+router.get('/:id/fit', validateQuery(fitQuerySchema), async (req: Request, res: Response) => {
   try {
-    const { ingredient, dietaryRestrictions, recipeContext } = req.body;
-    
-    const substitutions = await recipeService.getIngredientSubstitutions({
-      ingredient,
-      dietaryRestrictions,
-      recipeContext
+    const fit = await nutritionService.getFit(req.params.id, req.query.userId as string);
+
+    res.json({
+      success: true,
+      data: fit
     });
-    
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/recipes/:id/nutrition-label?userId=&format=json|html|svg
+ * Nutrition Facts panel with % daily values, against the user's goals when userId is given
+ */
+router.get('/:id/nutrition-label', validateQuery(nutritionLabelQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const { userId, format } = req.query as { userId?: string; format: 'json' | 'html' | 'svg' };
+    const label = await nutritionService.getLabel(req.params.id, userId);
+
+    if (format === 'html') {
+      return res.type('text/html').send(NutritionLabelBuilder.toHtml(label));
+    }
+
+    if (format === 'svg') {
+      return res.type('image/svg+xml').send(NutritionLabelBuilder.toSvg(label));
+    }
+
     res.json({
       success: true,
-      data: substitutions,
+      data: label
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * POST /api/recipes/:id/nutrition/calculate
+ * Recalculate a recipe's nutrition from the local nutrient table, using the AI only for unresolved ingredients
+ */
+router.post('/:id/nutrition/calculate', validateRequest(nutritionCalculateSchema), async (req: Request, res: Response) => {
+  try {
+    const calculation = await nutritionService.recalculate(req.params.id, req.body.useAI);
+
+    res.json({
+      success: true,
+      data: calculation.nutrition,
       meta: {
-        originalIngredient: ingredient,
-        dietaryRestrictions,
-        count: substitutions.length
+        method: calculation.method,
+        resolved: calculation.resolved,
+        unresolved: calculation.unresolved
       }
     });
   } catch (error) {
@@ -231,25 +994,19 @@ router.post('/:id/substitute', validateRequest(substituteRequestSchema), async (
 });
 
 /**
- * POST /api/recipes/create-detailed
- * Create detailed recipe from suggestion
+ * POST /api/recipes/:id/dietary-analysis
+ * Check a recipe against dietary restrictions (the user's too, when userId is given) with the rule engine,
+ * rating each as contains / likely contains / may contain / safe with the evidence;
+ * useAI adds the AI's view as a second opinion
  */
-router.post('/create-detailed', async (req: Request, res: Response) => {
+router.post('/:id/dietary-analysis', validateRequest(dietaryAnalysisSchema), async (req: Request, res: Response) => {
   try {
-    const { suggestion, userId } = req.body;
-    
-    if (!suggestion || !suggestion.name) {
-      return res.status(400).json({
-        error: 'Recipe suggestion is required',
-        code: 'MISSING_SUGGESTION'
-      });
-    }
-    
-    const detailedRecipe = await recipeService.createDetailedRecipe(suggestion, userId);
-    
-    res.status(201).json({
+    const { dietaryRestrictions, userId, useAI } = req.body;
+    const analysis = await recipeService.analyzeStoredRecipe(req.params.id, dietaryRestrictions, userId, useAI);
+
+    res.json({
       success: true,
-      data: detailedRecipe
+      data: analysis
     });
   } catch (error) {
     handleError(error, res);
@@ -257,33 +1014,27 @@ router.post('/create-detailed', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/recipes/popular
- * Get popular recipes with dietary filtering
+ * POST /api/recipes/:id/substitute
+ * Get ingredient substitutions for dietary needs (and the user's custom restrictions, given a userId)
  */
-router.get('/popular', async (req: Request, res: Response) => {
+router.post('/:id/substitute', validateRequest(substituteRequestSchema), async (req: Request, res: Response) => {
   try {
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-    const dietaryRestrictions = req.query.dietaryRestrictions 
-      ? (req.query.dietaryRestrictions as string).split(',') as DietaryRestriction[]
-      : [];
-    const userId = req.query.userId as string;
-    
-    if (limit < 1 || limit > 50) {
-      return res.status(400).json({
-        error: 'Limit must be between 1 and 50',
-        code: 'INVALID_LIMIT'
-      });
-    }
+    const { ingredient, dietaryRestrictions, recipeContext, userId } = req.body;
     
-    const recipes = await recipeService.getPopularRecipes(limit, dietaryRestrictions, userId);
+    const substitutions = await recipeService.getIngredientSubstitutions({
+      ingredient,
+      dietaryRestrictions,
+      recipeContext,
+      userId
+    });
     
     res.json({
       success: true,
-      data: recipes,
+      data: substitutions,
       meta: {
-        count: recipes.length,
-        limit,
-        dietaryRestrictions
+        originalIngredient: ingredient,
+        dietaryRestrictions,
+        count: substitutions.length
       }
     });
   } catch (error) {
@@ -292,34 +1043,25 @@ router.get('/popular', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/recipes/search
- * Search recipes with dietary filtering
+ * POST /api/recipes/create-detailed
+ * Create detailed recipe from suggestion
  */
-router.get('/search', async (req: Request, res: Response) => {
+router.post('/create-detailed', async (req: Request, res: Response) => {
   try {
-    const query = req.query.q as string;
-    const dietaryRestrictions = req.query.dietaryRestrictions 
-      ? (req.query.dietaryRestrictions as string).split(',') as DietaryRestriction[]
-      : [];
-    const userId = req.query.userId as string;
+    const { suggestion, userId } = req.body;
     
-    if (!query || query.trim() === '') {
+    if (!suggestion || !suggestion.name) {
       return res.status(400).json({
-        error: 'Search query is required',
-        code: 'MISSING_QUERY'
+        error: 'Recipe suggestion is required',
+        code: 'MISSING_SUGGESTION'
       });
     }
     
-    const recipes = await recipeService.searchRecipes(query, dietaryRestrictions, userId);
+    const detailedRecipe = await recipeService.createDetailedRecipe(suggestion, userId);
     
-    res.json({
+    res.status(201).json({
       success: true,
-      data: recipes,
-      meta: {
-        count: recipes.length,
-        query,
-        dietaryRestrictions
-      }
+      data: detailedRecipe
     });
   } catch (error) {
     handleError(error, res);
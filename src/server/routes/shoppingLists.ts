@@ -0,0 +1,157 @@
+import { Router, Request, Response } from 'express';
+import { shoppingListService } from '../services/shoppingListService';
+import Joi from 'joi';
+import { validateRequest, validateQuery, errorHandler } from './middleware';
+
+const router = Router();
+
+// Validation schemas
+const createListSchema = Joi.object({
+  userId: Joi.string().optional(),
+  name: Joi.string().trim().min(1).max(100).optional(),
+  recipes: Joi.array().items(Joi.object({
+    recipeId: Joi.string().required(),
+    servings: Joi.number().min(0.25).max(100).optional()
+  })).min(1).max(50).optional(),
+  mealPlanId: Joi.string().optional(),
+  onHand: Joi.array().items(Joi.object({
+    name: Joi.string().trim().min(1).required(),
+    amount: Joi.number().min(0).required(),
+    unit: Joi.string().trim().allow('').default(''),
+    notes: Joi.string().optional()
+  })).max(100).default([])
+}).or('recipes', 'mealPlanId');
+
+const checkItemSchema = Joi.object({
+  checked: Joi.boolean().required()
+});
+
+const listQuerySchema = Joi.object({
+  userId: Joi.string().required()
+});
+
+const exportQuerySchema = Joi.object({
+  format: Joi.string().valid('text', 'csv').default('text')
+});
+
+// Error handler middleware
+const handleError = errorHandler('Shopping list route error');
+
+// Routes
+
+/**
+ * POST /api/shopping-lists
+ * Build a list from recipes and/or a meal plan, merging duplicates and subtracting on-hand quantities
+ */
+router.post('/', validateRequest(createListSchema), async (req: Request, res: Response) => {
+  try {
+    const list = await shoppingListService.createList(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: list,
+      meta: {
+        items: list.aisles.reduce((sum, aisle) => sum + aisle.items.length, 0)
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/shopping-lists?userId=
+ * List a user's shopping lists (without items), newest first
+ */
+router.get('/', validateQuery(listQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const lists = await shoppingListService.listForUser(req.query.userId as string);
+
+    res.json({
+      success: true,
+      data: lists.map(({ aisles, ...list }) => list),
+      meta: {
+        count: lists.length
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/shopping-lists/:id
+ * Get a list with its items grouped by aisle
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const list = await shoppingListService.getList(req.params.id);
+    const items = list.aisles.flatMap(aisle => aisle.items);
+
+    res.json({
+      success: true,
+      data: list,
+      meta: {
+        items: items.length,
+        checked: items.filter(item => item.checked).length
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * GET /api/shopping-lists/:id/export?format=text|csv
+ * Download a list as plain text or CSV
+ */
+router.get('/:id/export', validateQuery(exportQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const format = req.query.format as 'text' | 'csv';
+    const { list, content } = await shoppingListService.exportList(req.params.id, format);
+    const filename = list.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'shopping-list';
+
+    res.type(format === 'csv' ? 'text/csv' : 'text/plain');
+    res.attachment(`${filename}.${format === 'csv' ? 'csv' : 'txt'}`);
+    res.send(content);
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * PATCH /api/shopping-lists/:id/items/:itemId
+ * Check or uncheck an item
+ */
+router.patch('/:id/items/:itemId', validateRequest(checkItemSchema), async (req: Request, res: Response) => {
+  try {
+    const { id, itemId } = req.params;
+    const item = await shoppingListService.setItemChecked(id, itemId, req.body.checked);
+
+    res.json({
+      success: true,
+      data: item
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+/**
+ * DELETE /api/shopping-lists/:id
+ * Delete a shopping list
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    await shoppingListService.deleteList(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Shopping list deleted successfully'
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
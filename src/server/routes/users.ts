@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express';
+import { recipeService } from '../services/recipeService';
+import Joi from 'joi';
+import { validateQuery, errorHandler, isoDate } from './middleware';
+
+const router = Router();
+
+// Validation schemas
+const historyQuerySchema = Joi.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  limit: Joi.number().integer().min(1).max(200).default(50)
+});
+
+// Error handler middleware
+const handleError = errorHandler('Users route error');
+
+// Routes
+
+/**
+ * GET /api/users/:userId/history
+ * Cooking history timeline with per-cuisine and per-week stats
+ */
+router.get('/:userId/history', validateQuery(historyQuerySchema), async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { from, to, limit } = req.query as any;
+
+    const history = await recipeService.getCookingHistory(userId, { from, to, limit });
+
+    res.json({
+      success: true,
+      data: history.entries,
+      stats: history.stats,
+      meta: {
+        count: history.entries.length,
+        limit,
+        from,
+        to
+      }
+    });
+  } catch (error) {
+    handleError(error, res);
+  }
+});
+
+export default router;
@@ -0,0 +1,158 @@
+import Joi from 'joi';
+import { AITask, DietaryRestriction } from '../../types';
+
+// Joi contracts every AI response must satisfy before it reaches callers
+const dietaryRestrictionSchema = Joi.string().valid(...Object.values(DietaryRestriction));
+
+const ingredientSchema = Joi.object({
+  name: Joi.string().trim().min(1).required(),
+  amount: Joi.number().min(0).required(),
+  unit: Joi.string().trim().allow('').required(),
+  notes: Joi.string().allow('').optional()
+});
+
+const stringList = Joi.array().items(Joi.string().trim().min(1));
+
+export const recipeSuggestionSchema = Joi.object({
+  name: Joi.string().trim().min(1).required(),
+  description: Joi.string().allow('').required(),
+  ingredients: Joi.array().items(ingredientSchema).min(1).required(),
+  instructions: stringList.min(1).required(),
+  cookingTime: Joi.number().integer().min(1).required(),
+  difficulty: Joi.number().integer().min(1).max(5).required(),
+  cuisine: Joi.string().trim().min(1).required(),
+  tags: stringList.default([]),
+  nutritionalHighlights: stringList.default([]),
+  dietaryCompatibility: Joi.array().items(dietaryRestrictionSchema).default([]),
+  confidence: Joi.number().min(0).max(1).default(0.5)
+});
+
+export const recipeVariationSchema = Joi.object({
+  name: Joi.string().trim().min(1).required(),
+  description: Joi.string().allow('').required(),
+  variation: Joi.string().trim().min(1).required(),
+  culturalContext: Joi.string().allow('').optional(),
+  ingredients: Joi.array().items(ingredientSchema).min(1).required(),
+  instructions: stringList.min(1).required(),
+  cookingTime: Joi.number().integer().min(1).required(),
+  difficulty: Joi.number().integer().min(1).max(5).required(),
+  uniqueFeatures: stringList.default([])
+});
+
+export const recipeInstructionsSchema = Joi.object({
+  instructions: stringList.min(1).required(),
+  cookingTime: Joi.number().integer().min(1).required(),
+  difficulty: Joi.number().integer().min(1).max(5).required(),
+  tips: stringList.default([]),
+  safetyNotes: stringList.default([])
+});
+
+const nutrientMapSchema = Joi.object().pattern(Joi.string(), Joi.number().min(0)).default({});
+
+export const nutritionalInfoSchema = Joi.object({
+  calories: Joi.number().min(0).required(),
+  protein: Joi.number().min(0).required(),
+  carbohydrates: Joi.number().min(0).required(),
+  fat: Joi.number().min(0).required(),
+  fiber: Joi.number().min(0).default(0),
+  sugar: Joi.number().min(0).default(0),
+  sodium: Joi.number().min(0).default(0),
+  vitamins: nutrientMapSchema,
+  minerals: nutrientMapSchema
+});
+
+export const ingredientSubstitutionSchema = Joi.object({
+  substitute: Joi.string().trim().min(1).required(),
+  ratio: Joi.number().greater(0).required(),
+  reason: Joi.string().trim().min(1).required(),
+  dietaryRestriction: dietaryRestrictionSchema.required(),
+  confidenceScore: Joi.number().min(0).max(1).required(),
+  flavorImpact: Joi.string().allow('').optional(),
+  textureImpact: Joi.string().allow('').optional()
+});
+
+export const dietaryRiskSchema = Joi.object({
+  restriction: dietaryRestrictionSchema.required(),
+  level: Joi.string().valid('contains', 'likely_contains', 'may_contain').required(),
+  evidence: Joi.string().trim().min(1).required(),
+  reason: Joi.string().trim().allow('').default('')
+});
+
+export const dietaryAnalysisSchema = Joi.object({
+  compatible: Joi.boolean().required(),
+  issues: stringList.default([]),
+  suggestions: stringList.default([]),
+  compatibilityScore: Joi.number().min(0).max(1).optional(),
+  risks: Joi.array().items(dietaryRiskSchema).default([])
+});
+
+export const aiResponseContracts: Record<AITask, Joi.Schema> = {
+  recipe_suggestions: Joi.array().items(recipeSuggestionSchema).min(1),
+  recipe_variations: Joi.array().items(recipeVariationSchema).min(1),
+  recipe_instructions: recipeInstructionsSchema,
+  nutritional_info: nutritionalInfoSchema,
+  ingredient_substitutions: Joi.array().items(ingredientSubstitutionSchema).min(1),
+  dietary_analysis: dietaryAnalysisSchema
+};
+
+export interface AIResponseValidation<T> {
+  value?: T;
+  errors: string[];
+}
+
+// Strip markdown code fences models like to wrap JSON in
+export function extractJson(raw: string): string {
+  return raw.replace(/```json|```/g, '').trim();
+}
+
+// Parse and validate raw model output against the task's contract
+export function validateAIResponse<T>(task: AITask, raw: string): AIResponseValidation<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(raw));
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  // Models occasionally return a lone object where a list was requested
+  const contract = aiResponseContracts[task];
+  if (contract.type === 'array' && parsed && !Array.isArray(parsed) && typeof parsed === 'object') {
+    parsed = [parsed];
+  }
+
+  const { error, value } = contract.validate(parsed, { abortEarly: false, stripUnknown: true });
+  if (error) {
+    return { errors: error.details.map(d => d.message) };
+  }
+
+  return { value: value as T, errors: [] };
+}
+
+// Per-element contracts for tasks whose output is a list that can be streamed
+const streamItemContracts: Partial<Record<AITask, Joi.Schema>> = {
+  recipe_suggestions: recipeSuggestionSchema,
+  recipe_variations: recipeVariationSchema,
+  ingredient_substitutions: ingredientSubstitutionSchema
+};
+
+// Validate a single element extracted from a streamed JSON array
+export function validateStreamedItem<T>(task: AITask, raw: string): AIResponseValidation<T> {
+  const contract = streamItemContracts[task];
+  if (!contract) {
+    return { errors: [`Task ${task} does not support streaming`] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    return { errors: [`Element is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const { error, value } = contract.validate(parsed, { abortEarly: false, stripUnknown: true });
+  if (error) {
+    return { errors: error.details.map(d => d.message) };
+  }
+
+  return { value: value as T, errors: [] };
+}
@@ -1,58 +1,62 @@
-import OpenAI from 'openai';
-import axios from 'axios';
-import { config, getAIHeaders, getAIRequestConfig } from '../utils/config';
+import { config } from '../utils/config';
+import { createAIProvider, responseSchemas } from './providers';
+import { validateAIResponse, validateStreamedItem } from './aiContracts';
+import { JsonArrayStreamParser } from '../utils/jsonStream';
 import {
+  AIProvider,
+  AIProviderName,
+  AITask,
+  AIServiceErrorCode,
   AIRecipeRequest,
   AIRecipeResponse,
   RecipeSuggestion,
   RecipeVariation,
   DietaryRestriction,
+  CustomRestriction,
   NutritionalInfo,
   IngredientSubstitution,
+  AIDietaryAnalysis,
   AIServiceError
 } from '../../types';
 
 export class AIService {
-  private openai: OpenAI | null = null;
-  private isOpenAICompatible: boolean = false;
+  private provider: AIProvider;
 
-  constructor() {
-    this.initializeClient();
-  }
-
-  private initializeClient(): void {
+  constructor(provider?: AIProvider) {
     try {
-      // Check if the API URL is OpenAI compatible
-      this.isOpenAICompatible = config.ai.apiUrl.includes('openai.com') ||
-        config.ai.apiUrl.includes('api.openai.com');
-
-      if (this.isOpenAICompatible) {
-        this.openai = new OpenAI({
-          apiKey: config.ai.apiKey,
-          baseURL: config.ai.apiUrl
-        });
-      }
+      this.provider = provider || createAIProvider();
     } catch (error) {
       console.error('Failed to initialize AI client:', error);
       throw new AIServiceError('AI service initialization failed', 'INIT_FAILED', 500);
     }
   }
 
+  get providerName(): AIProviderName {
+    return this.provider.name;
+  }
+
+  // The configured model; the mock provider answers from fixtures instead
+  get modelName(): string {
+    return this.provider.name === 'mock' ? 'mock' : config.ai.model;
+  }
+
   // Generate recipes by ingredients
   async generateRecipesByIngredients(
     ingredients: string[],
     dietaryRestrictions: DietaryRestriction[] = [],
     servingSize: number = 4,
-    cuisinePreference?: string
+    cuisinePreference?: string,
+    priorityIngredients: string[] = [],
+    customRestrictions: CustomRestriction[] = []
   ): Promise<RecipeSuggestion[]> {
-    const prompt = this.buildIngredientsPrompt(ingredients, dietaryRestrictions, servingSize, cuisinePreference);
+    const prompt = this.buildIngredientsPrompt(
+      ingredients, dietaryRestrictions, servingSize, cuisinePreference, priorityIngredients, customRestrictions
+    );
 
     try {
-      const response = await this.makeAIRequest(prompt);
-      console.log("response", response)
-      return this.parseRecipeSuggestions(response.replace(/```json|```/g, '').trim());
+      return await this.requestValidated<RecipeSuggestion[]>('recipe_suggestions', prompt);
     } catch (error) {
-      throw new AIServiceError('Failed to generate recipes by ingredients', 'GENERATION_FAILED', 500);
+      throw this.wrapError(error, 'Failed to generate recipes by ingredients', 'GENERATION_FAILED');
     }
   }
 
@@ -60,15 +64,51 @@ export class AIService {
   async generateRecipeVariations(
     foodName: string,
     dietaryRestrictions: DietaryRestriction[] = [],
-    servingSize: number = 4
+    servingSize: number = 4,
+    customRestrictions: CustomRestriction[] = []
   ): Promise<RecipeVariation[]> {
-    const prompt = this.buildFoodNamePrompt(foodName, dietaryRestrictions, servingSize);
+    const prompt = this.buildFoodNamePrompt(foodName, dietaryRestrictions, servingSize, customRestrictions);
+
+    try {
+      return await this.requestValidated<RecipeVariation[]>('recipe_variations', prompt);
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to generate recipe variations', 'GENERATION_FAILED');
+    }
+  }
+
+  // Stream recipes by ingredients, yielding each suggestion as soon as it is parsed
+  async *streamRecipesByIngredients(
+    ingredients: string[],
+    dietaryRestrictions: DietaryRestriction[] = [],
+    servingSize: number = 4,
+    cuisinePreference?: string,
+    priorityIngredients: string[] = [],
+    customRestrictions: CustomRestriction[] = []
+  ): AsyncGenerator<RecipeSuggestion> {
+    const prompt = this.buildIngredientsPrompt(
+      ingredients, dietaryRestrictions, servingSize, cuisinePreference, priorityIngredients, customRestrictions
+    );
+
+    try {
+      yield* this.streamValidated<RecipeSuggestion>('recipe_suggestions', prompt);
+    } catch (error) {
+      throw this.wrapError(error, 'Failed to generate recipes by ingredients', 'GENERATION_FAILED');
+    }
+  }
+
+  // Stream recipe variations by food name
+  async *streamRecipeVariations(
+    foodName: string,
+    dietaryRestrictions: DietaryRestriction[] = [],
+    servingSize: number = 4,
+    customRestrictions: CustomRestriction[] = []
+  ): AsyncGenerator<RecipeVariation> {
+    const prompt = this.buildFoodNamePrompt(foodName, dietaryRestrictions, servingSize, customRestrictions);
 
     try {
-      const response = await this.makeAIRequest(prompt);
-      return this.parseRecipeVariations(response.replace(/```json|```/g, '').trim());
+      yield* this.streamValidated<RecipeVariation>('recipe_variations', prompt);
     } catch (error) {
-      throw new AIServiceError('Failed to generate recipe variations', 'GENERATION_FAILED', 500);
+      throw this.wrapError(error, 'Failed to generate recipe variations', 'GENERATION_FAILED');
     }
   }
 
@@ -82,10 +122,17 @@ export class AIService {
     const prompt = this.buildInstructionsPrompt(recipeName, ingredients, dietaryRestrictions, servingSize);
 
     try {
-      const response = await this.makeAIRequest(prompt);
-      return this.parseInstructions(response.replace(/```json|```/g, '').trim());
+      const parsed = await this.requestValidated<{ instructions: string[]; cookingTime: number; difficulty: number }>(
+        'recipe_instructions',
+        prompt
+      );
+      return {
+        instructions: parsed.instructions,
+        cookingTime: parsed.cookingTime,
+        difficulty: parsed.difficulty
+      };
     } catch (error) {
-      throw new AIServiceError('Failed to generate recipe instructions', 'GENERATION_FAILED', 500);
+      throw this.wrapError(error, 'Failed to generate recipe instructions', 'GENERATION_FAILED');
     }
   }
 
@@ -98,10 +145,10 @@ export class AIService {
     const prompt = this.buildNutritionPrompt(recipeName, ingredients, servingSize);
 
     try {
-      const response = await this.makeAIRequest(prompt);
-      return this.parseNutritionalInfo(response.replace(/```json|```/g, '').trim(), servingSize);
+      const parsed = await this.requestValidated<Omit<NutritionalInfo, 'servingSize'>>('nutritional_info', prompt);
+      return { ...parsed, servingSize };
     } catch (error) {
-      throw new AIServiceError('Failed to generate nutritional information', 'GENERATION_FAILED', 500);
+      throw this.wrapError(error, 'Failed to generate nutritional information', 'GENERATION_FAILED');
     }
   }
 
@@ -109,15 +156,15 @@ export class AIService {
   async generateIngredientSubstitutions(
     ingredient: string,
     dietaryRestrictions: DietaryRestriction[],
-    recipeContext: string
+    recipeContext: string,
+    customRestrictions: CustomRestriction[] = []
   ): Promise<IngredientSubstitution[]> {
-    const prompt = this.buildSubstitutionPrompt(ingredient, dietaryRestrictions, recipeContext);
+    const prompt = this.buildSubstitutionPrompt(ingredient, dietaryRestrictions, recipeContext, customRestrictions);
 
     try {
-      const response = await this.makeAIRequest(prompt);
-      return this.parseSubstitutions(response.replace(/```json|```/g, '').trim(), dietaryRestrictions);
+      return await this.requestValidated<IngredientSubstitution[]>('ingredient_substitutions', prompt);
     } catch (error) {
-      throw new AIServiceError('Failed to generate ingredient substitutions', 'GENERATION_FAILED', 500);
+      throw this.wrapError(error, 'Failed to generate ingredient substitutions', 'GENERATION_FAILED');
     }
   }
 
@@ -127,58 +174,103 @@ export class AIService {
     ingredients: string[],
     instructions: string[],
     dietaryRestrictions: DietaryRestriction[]
-  ): Promise<{ compatible: boolean; issues: string[]; suggestions: string[] }> {
+  ): Promise<AIDietaryAnalysis> {
     const prompt = this.buildDietaryAnalysisPrompt(recipeName, ingredients, instructions, dietaryRestrictions);
 
     try {
-      const response = await this.makeAIRequest(prompt);
-      return this.parseDietaryAnalysis(response.replace(/```json|```/g, '').trim());
+      const parsed = await this.requestValidated<AIDietaryAnalysis>('dietary_analysis', prompt);
+      return {
+        compatible: parsed.compatible,
+        issues: parsed.issues,
+        suggestions: parsed.suggestions,
+        compatibilityScore: parsed.compatibilityScore,
+        // Only the restrictions that were asked about
+        risks: parsed.risks.filter(risk => dietaryRestrictions.includes(risk.restriction))
+      };
     } catch (error) {
-      throw new AIServiceError('Failed to analyze dietary compatibility', 'ANALYSIS_FAILED', 500);
+      throw this.wrapError(error, 'Failed to analyze dietary compatibility', 'ANALYSIS_FAILED');
     }
   }
 
-  // Make AI request (handles both OpenAI and custom APIs)
-  private async makeAIRequest(prompt: string): Promise<string> {
+  // Request a completion and re-prompt with validation errors until it satisfies the task contract
+  private async requestValidated<T>(task: AITask, prompt: string): Promise<T> {
+    let currentPrompt = prompt;
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= config.ai.maxRepairAttempts; attempt++) {
+      const response = await this.makeAIRequest(task, currentPrompt);
+      const result = validateAIResponse<T>(task, response);
+
+      if (result.value !== undefined) {
+        return result.value;
+      }
+
+      errors = result.errors;
+      console.warn(`AI response for ${task} failed validation (attempt ${attempt + 1}):`, errors);
+      currentPrompt = this.buildRepairPrompt(prompt, response, errors);
+    }
+
+    throw new AIServiceError(
+      `AI response for ${task} did not match the expected format`,
+      'INVALID_RESPONSE',
+      502,
+      errors
+    );
+  }
+
+  // Yield list elements from the provider's token stream as each one completes and validates
+  private async *streamValidated<T>(task: AITask, prompt: string): AsyncGenerator<T> {
+    if (!this.provider.stream) {
+      yield* await this.requestValidated<T[]>(task, prompt);
+      return;
+    }
+
+    const parser = new JsonArrayStreamParser();
+    let emitted = 0;
+
     try {
-      if (this.isOpenAICompatible && this.openai) {
-        const completion = await this.openai.chat.completions.create({
-          model: config.ai.model,
-          messages: [{ role: 'user', content: prompt }],
-          max_tokens: config.ai.maxTokens,
-          temperature: config.ai.temperature
-        });
-
-        return completion.choices[0]?.message?.content || '';
-      } else {
-        // Custom API request
-        const response = await axios.post(
-          `${config.ai.apiUrl}/chat/completions`,
-          {
-            model: config.ai.model,
-            messages: [{ role: 'user', content: prompt }],
-            temperature: config.ai.temperature, response_format: {
-              type: "json_schema",
-              json_schema: {
-                name: "recipe_suggestions",
-                strict: true,
-                schema: {
-                  type: "array",
-                  items: { type: "object", additionalProperties: true }
-                }
-              }
-            }
-          },
-          {
-            headers: getAIHeaders(),
-            timeout: 30000
+      for await (const delta of this.provider.stream({ task, prompt, responseSchema: responseSchemas[task] })) {
+        for (const element of parser.push(delta)) {
+          const result = validateStreamedItem<T>(task, element);
+          if (result.value === undefined) {
+            console.warn(`Dropping streamed ${task} element that failed validation:`, result.errors);
+            continue;
           }
-        );
-
-        return response.data.choices[0]?.message?.content || '';
+          emitted++;
+          yield result.value;
+        }
       }
+    } catch (error) {
+      console.error('AI stream failed:', error);
+      if (error instanceof AIServiceError) throw error;
+      throw new AIServiceError('AI API stream failed', 'API_ERROR', 500);
+    }
+
+    // Nothing usable arrived: fall back to the blocking path, which can repair the output
+    if (emitted === 0) {
+      yield* await this.requestValidated<T[]>(task, prompt);
+    }
+  }
+
+  // Keep contract violations visible to callers, wrap everything else
+  private wrapError(error: unknown, message: string, code: AIServiceErrorCode): AIServiceError {
+    if (error instanceof AIServiceError && error.code === 'INVALID_RESPONSE') {
+      return error;
+    }
+    return new AIServiceError(message, code, 500);
+  }
+
+  // Make AI request through the configured provider
+  private async makeAIRequest(task: AITask, prompt: string): Promise<string> {
+    try {
+      return await this.provider.complete({
+        task,
+        prompt,
+        responseSchema: responseSchemas[task]
+      });
     } catch (error) {
       console.error('AI request failed:', error);
+      if (error instanceof AIServiceError) throw error;
       throw new AIServiceError('AI API request failed', 'API_ERROR', 500);
     }
   }
@@ -188,19 +280,25 @@ export class AIService {
     ingredients: string[],
     dietaryRestrictions: DietaryRestriction[],
     servingSize: number,
-    cuisinePreference?: string
+    cuisinePreference?: string,
+    priorityIngredients: string[] = [],
+    customRestrictions: CustomRestriction[] = []
   ): string {
-    const restrictionsText = dietaryRestrictions.length > 0
+    const restrictionsText = (dietaryRestrictions.length > 0
       ? `Dietary restrictions: ${dietaryRestrictions.join(', ')}`
-      : 'No dietary restrictions';
+      : 'No dietary restrictions') + this.customRestrictionsText(customRestrictions);
 
     const cuisineText = cuisinePreference
       ? `Preferred cuisine: ${cuisinePreference}`
       : 'Any cuisine';
 
+    const priorityText = priorityIngredients.length > 0
+      ? `\nUse these first, they expire soon: ${priorityIngredients.join(', ')}`
+      : '';
+
     return `You are a professional chef and nutritionist AI. Generate recipe suggestions based on available ingredients while considering dietary restrictions.
 
-Available ingredients: ${ingredients.join(', ')}
+Available ingredients: ${ingredients.join(', ')}${priorityText}
 ${restrictionsText}
 ${cuisineText}
 Serving size: ${servingSize} people
@@ -238,11 +336,12 @@ Ensure all recipes are practical, safe, and delicious.`;
   private buildFoodNamePrompt(
     foodName: string,
     dietaryRestrictions: DietaryRestriction[],
-    servingSize: number
+    servingSize: number,
+    customRestrictions: CustomRestriction[] = []
   ): string {
-    const restrictionsText = dietaryRestrictions.length > 0
+    const restrictionsText = (dietaryRestrictions.length > 0
       ? `Dietary restrictions: ${dietaryRestrictions.join(', ')}`
-      : 'No dietary restrictions';
+      : 'No dietary restrictions') + this.customRestrictionsText(customRestrictions);
 
     return `You are a culinary expert AI specializing in recipe variations and cultural adaptations.
 
@@ -354,12 +453,13 @@ Base calculations on standard nutritional databases and provide realistic estima
   private buildSubstitutionPrompt(
     ingredient: string,
     dietaryRestrictions: DietaryRestriction[],
-    recipeContext: string
+    recipeContext: string,
+    customRestrictions: CustomRestriction[] = []
   ): string {
     return `You are a culinary expert AI specializing in ingredient substitutions.
 
 Original ingredient: ${ingredient}
-Dietary restrictions: ${dietaryRestrictions.join(', ') || 'None'}
+Dietary restrictions: ${dietaryRestrictions.join(', ') || 'None'}${this.customRestrictionsText(customRestrictions)}
 Recipe context: ${recipeContext}
 
 Requirements:
@@ -386,6 +486,25 @@ Format your response as JSON:
 Ensure substitutions are practical and maintain the dish's character.`;
   }
 
+  // The user's own restrictions, as extra prompt lines; empty when there are none
+  private customRestrictionsText(customRestrictions: CustomRestriction[]): string {
+    if (customRestrictions.length === 0) return '';
+
+    const units: Record<string, string> = { calories: ' kcal', sodium: 'mg' };
+    const lines = customRestrictions.map(restriction => {
+      const blocked = [...restriction.blockedIngredients, ...restriction.blockedPatterns];
+      const rules = [
+        ...(blocked.length > 0 ? [`never use ${blocked.join(', ')}`] : []),
+        ...restriction.nutrientLimits.map(limit =>
+          `at most ${limit.max}${units[limit.nutrient] || 'g'} ${limit.nutrient} per serving`
+        )
+      ];
+      return `- ${restriction.name}: ${rules.join('; ')}`;
+    });
+
+    return `\nCustom restrictions (must be followed; * in a name stands for any letters):\n${lines.join('\n')}`;
+  }
+
   private buildDietaryAnalysisPrompt(
     recipeName: string,
     ingredients: string[],
@@ -404,102 +523,39 @@ Requirements:
 2. Identify specific issues
 3. Suggest modifications
 4. Provide overall compatibility score
+5. List each risk per restriction with its level: "contains", "likely_contains" (e.g. a sauce usually made with it)
+   or "may_contain" (cross-contamination, e.g. a store-bought product made on shared equipment),
+   and the ingredient, step or product it comes from
 
 Format your response as JSON:
 {
   "compatible": true,
   "issues": ["issue 1", "issue 2"],
   "suggestions": ["suggestion 1", "suggestion 2"],
-  "compatibilityScore": 0.8
+  "compatibilityScore": 0.8,
+  "risks": [
+    { "restriction": "nuts", "level": "may_contain", "evidence": "store-bought pesto", "reason": "often made on lines shared with nuts" }
+  ]
 }
 
 Be thorough and consider hidden ingredients and cross-contamination risks.`;
   }
 
-  // Parse AI responses
-  private parseRecipeSuggestions(response: string): RecipeSuggestion[] {
-    try {
-      const parsed = JSON.parse(response);
-      return Array.isArray(parsed) ? parsed : [parsed];
-    } catch (error) {
-      console.error('Failed to parse recipe suggestions:', error);
-      return [];
-    }
-  }
+  private buildRepairPrompt(originalPrompt: string, previousResponse: string, errors: string[]): string {
+    return `Your previous response did not match the required JSON format.
 
-  private parseRecipeVariations(response: string): RecipeVariation[] {
-    try {
-      const parsed = JSON.parse(response);
-      return Array.isArray(parsed) ? parsed : [parsed];
-    } catch (error) {
-      console.error('Failed to parse recipe variations:', error);
-      return [];
-    }
-  }
+Validation errors:
+${errors.map(error => `- ${error}`).join('\n')}
 
-  private parseInstructions(response: string): { instructions: string[]; cookingTime: number; difficulty: number } {
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        instructions: parsed.instructions || [],
-        cookingTime: parsed.cookingTime || 30,
-        difficulty: parsed.difficulty || 3
-      };
-    } catch (error) {
-      console.error('Failed to parse instructions:', error);
-      return { instructions: [], cookingTime: 30, difficulty: 3 };
-    }
-  }
-
-  private parseNutritionalInfo(response: string, servingSize: number): NutritionalInfo {
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        calories: parsed.calories || 0,
-        protein: parsed.protein || 0,
-        carbohydrates: parsed.carbohydrates || 0,
-        fat: parsed.fat || 0,
-        fiber: parsed.fiber || 0,
-        sugar: parsed.sugar || 0,
-        sodium: parsed.sodium || 0,
-        vitamins: parsed.vitamins || {},
-        minerals: parsed.minerals || {},
-        servingSize
-      };
-    } catch (error) {
-      console.error('Failed to parse nutritional info:', error);
-      return {
-        calories: 0, protein: 0, carbohydrates: 0, fat: 0,
-        fiber: 0, sugar: 0, sodium: 0, vitamins: {}, minerals: {},
-        servingSize
-      };
-    }
-  }
+Previous response:
+${previousResponse.slice(0, 4000)}
 
-  private parseSubstitutions(response: string, dietaryRestrictions: DietaryRestriction[]): IngredientSubstitution[] {
-    try {
-      const parsed = JSON.parse(response);
-      return Array.isArray(parsed) ? parsed : [parsed];
-    } catch (error) {
-      console.error('Failed to parse substitutions:', error);
-      return [];
-    }
-  }
+Answer the original request below again. Return ONLY the corrected JSON, with no commentary or code fences.
 
-  private parseDietaryAnalysis(response: string): { compatible: boolean; issues: string[]; suggestions: string[] } {
-    try {
-      const parsed = JSON.parse(response);
-      return {
-        compatible: parsed.compatible || false,
-        issues: parsed.issues || [],
-        suggestions: parsed.suggestions || []
-      };
-    } catch (error) {
-      console.error('Failed to parse dietary analysis:', error);
-      return { compatible: false, issues: [], suggestions: [] };
-    }
+Original request:
+${originalPrompt}`;
   }
 }
 
 // Singleton instance
-export const aiService = new AIService();
\ No newline at end of file
+export const aiService = new AIService();
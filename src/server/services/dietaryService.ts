@@ -0,0 +1,145 @@
+import { DietaryProfileModel, NutritionModel } from '../models/DietaryProfile';
+import { HouseholdModel } from '../models/Household';
+import { IngredientCatalogModel } from '../models/IngredientCatalog';
+import { DietaryRuleEngine, DietaryRuleInput } from '../utils/dietaryRules';
+import { RestrictionGraph } from '../utils/restrictionGraph';
+import {
+  AllergenChecked,
+  AllergenSafety,
+  CustomRestriction,
+  DietaryFinding,
+  DietaryProfile,
+  DietaryRestriction,
+  RecipeError
+} from '../../types';
+
+type AllergyProfile = Pick<DietaryProfile, 'allergies' | 'allergyStrict'>;
+
+export type AllergenMarker = <T extends DietaryRuleInput>(item: T) => Promise<AllergenChecked<T>>;
+
+export class DietaryService {
+  // Mark each listed recipe with how safe it is for the user's (or household's) allergies
+  async markAllergenSafety<T extends DietaryRuleInput>(
+    items: T[],
+    userId?: string,
+    householdId?: string
+  ): Promise<AllergenChecked<T>[]> {
+    const mark = await this.allergenMarker(userId, householdId);
+    const marked: AllergenChecked<T>[] = [];
+
+    for (const item of items) {
+      marked.push(await mark(item));
+    }
+
+    return marked;
+  }
+
+  // A marker bound to the user's allergies, for results that arrive one at a time; items pass through untouched
+  // when there is no user or they have no allergies. A household adds every member's allergies, and is strict
+  // about "may contain" when any member is
+  async allergenMarker(userId?: string, householdId?: string): Promise<AllergenMarker> {
+    const profiles = await this.profiles(userId, householdId);
+    const merged: AllergyProfile = {
+      allergies: [...new Set(profiles.flatMap(profile => profile.allergies))],
+      allergyStrict: profiles.some(profile => profile.allergies.length > 0 && profile.allergyStrict)
+    };
+
+    if (merged.allergies.length === 0) {
+      return async item => item;
+    }
+
+    return async item => ({ ...item, allergenSafety: await this.allergenSafety(item, merged) });
+  }
+
+  // Everything the user's profile (and each household member's) restricts, with what it implies
+  async restrictions(userId?: string, householdId?: string): Promise<DietaryRestriction[]> {
+    const profiles = await this.profiles(userId, householdId);
+
+    return RestrictionGraph.expand(profiles.flatMap(profile => [
+      ...profile.allergies,
+      ...profile.dietaryPreferences,
+      ...profile.healthConditions
+    ]));
+  }
+
+  // The user's own restrictions, plus each household member's; none without a user or profile
+  async customRestrictions(userId?: string, householdId?: string): Promise<CustomRestriction[]> {
+    const profiles = await this.profiles(userId, householdId);
+    return profiles.flatMap(profile => profile.customRestrictions);
+  }
+
+  // Drop recipes that break any of the custom restrictions; nutrient limits use a stored recipe's saved nutrition
+  async excludeBlocked<T extends DietaryRuleInput & { id?: string }>(
+    items: T[],
+    restrictions: CustomRestriction[]
+  ): Promise<T[]> {
+    if (restrictions.length === 0) return items;
+
+    const hasLimits = restrictions.some(restriction => restriction.nutrientLimits.length > 0);
+    const allowed: T[] = [];
+
+    for (const item of items) {
+      const nutritionalInfo = item.nutritionalInfo
+        || (hasLimits && item.id && await NutritionModel.getNutrition(item.id))
+        || undefined;
+
+      if (!DietaryRuleEngine.blockedByCustom({ ...item, nutritionalInfo }, restrictions)) {
+        allowed.push(item);
+      }
+    }
+
+    return allowed;
+  }
+
+  // The user's profile and those of the household's members, once each; members without a profile add nothing
+  private async profiles(userId?: string, householdId?: string): Promise<DietaryProfile[]> {
+    const userIds = userId ? [userId] : [];
+
+    if (householdId) {
+      const household = await HouseholdModel.findById(householdId);
+      if (!household) {
+        throw new RecipeError('Household not found', 'NOT_FOUND', 404);
+      }
+      userIds.push(...household.members.map(member => member.userId));
+    }
+
+    const profiles: DietaryProfile[] = [];
+    for (const id of new Set(userIds)) {
+      const profile = await DietaryProfileModel.findByUserId(id);
+      if (profile) profiles.push(profile);
+    }
+
+    return profiles;
+  }
+
+  private async allergenSafety(recipe: DietaryRuleInput, profile: AllergyProfile): Promise<AllergenSafety> {
+    const verdicts = DietaryRuleEngine.analyze(
+      recipe,
+      profile.allergies,
+      await IngredientCatalogModel.allergensFor(recipe.ingredients)
+    );
+    const risk = DietaryRuleEngine.worstRisk(verdicts.map(verdict => verdict.risk));
+
+    return {
+      // "May contain" is only unsafe for allergy-strict profiles
+      safe: risk === 'safe' || (risk === 'may_contain' && !profile.allergyStrict),
+      strict: profile.allergyStrict,
+      risk,
+      allergens: verdicts.map(verdict => ({
+        restriction: verdict.restriction,
+        risk: verdict.risk,
+        evidence: verdict.findings.map(finding => this.evidence(finding))
+      }))
+    };
+  }
+
+  private evidence(finding: DietaryFinding): string {
+    if (finding.product) return finding.step ? `step ${finding.step}: ${finding.product}` : finding.product;
+    if (finding.step) return `step ${finding.step} (${finding.term})`;
+    if (finding.ingredient && finding.ingredient !== finding.term) return `${finding.ingredient} (${finding.term})`;
+    return finding.ingredient || finding.term;
+  }
+}
+
+// Singleton instance
+export const dietaryService = new DietaryService();
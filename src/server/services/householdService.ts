@@ -0,0 +1,129 @@
+import { HouseholdModel } from '../models/Household';
+import { DietaryProfileModel } from '../models/DietaryProfile';
+import { RestrictionGraph } from '../utils/restrictionGraph';
+import {
+  DietaryRestriction,
+  Household,
+  HouseholdInput,
+  HouseholdMember,
+  HouseholdRestrictions,
+  RecipeError
+} from '../../types';
+
+export class HouseholdService {
+  async createHousehold(input: HouseholdInput): Promise<Household> {
+    return HouseholdModel.create(input);
+  }
+
+  async getHousehold(id: string): Promise<Household> {
+    const household = await HouseholdModel.findById(id);
+    if (!household) {
+      throw new RecipeError('Household not found', 'NOT_FOUND', 404);
+    }
+
+    return household;
+  }
+
+  async listHouseholds(userId: string): Promise<Household[]> {
+    return HouseholdModel.findByUserId(userId);
+  }
+
+  async updateHousehold(id: string, updates: Partial<HouseholdInput>): Promise<Household> {
+    return HouseholdModel.update(id, updates);
+  }
+
+  async deleteHousehold(id: string): Promise<void> {
+    await HouseholdModel.delete(id);
+  }
+
+  async addMember(id: string, member: HouseholdMember): Promise<Household> {
+    const household = await this.getHousehold(id);
+
+    if (household.members.some(existing => existing.userId === member.userId)) {
+      throw new RecipeError(`${member.userId} is already a member of this household`, 'MEMBER_EXISTS', 409);
+    }
+
+    return HouseholdModel.update(id, { members: [...household.members, member] });
+  }
+
+  // Change a member's display name or serving size, keeping their place in the list
+  async updateMember(
+    id: string,
+    userId: string,
+    changes: Partial<Omit<HouseholdMember, 'userId'>>
+  ): Promise<Household> {
+    const household = await this.getHousehold(id);
+    this.findMember(household, userId);
+
+    return HouseholdModel.update(id, {
+      members: household.members.map(member => member.userId === userId ? { ...member, ...changes } : member)
+    });
+  }
+
+  async removeMember(id: string, userId: string): Promise<Household> {
+    const household = await this.getHousehold(id);
+    this.findMember(household, userId);
+
+    if (household.members.length === 1) {
+      throw new RecipeError('Cannot remove the last member of a household; delete the household instead', 'LAST_MEMBER', 409);
+    }
+
+    return HouseholdModel.update(id, {
+      members: household.members.filter(member => member.userId !== userId)
+    });
+  }
+
+  // Everything a meal for the whole household has to respect, and any member combinations worth a warning
+  async getRestrictions(id: string): Promise<HouseholdRestrictions> {
+    const household = await this.getHousehold(id);
+    const members: HouseholdRestrictions['members'] = [];
+    const declared: DietaryRestriction[] = [];
+    const allergies = new Set<DietaryRestriction>();
+    const customRestrictions: HouseholdRestrictions['customRestrictions'] = [];
+
+    for (const member of household.members) {
+      const profile = await DietaryProfileModel.findByUserId(member.userId);
+      const restrictions = profile
+        ? [...profile.allergies, ...profile.dietaryPreferences, ...profile.healthConditions]
+        : [];
+
+      declared.push(...restrictions);
+      profile?.allergies.forEach(allergy => allergies.add(allergy));
+      customRestrictions.push(...(profile?.customRestrictions || []));
+      members.push({
+        userId: member.userId,
+        ...(member.name && { name: member.name }),
+        restrictions: RestrictionGraph.expand(restrictions),
+        hasProfile: profile !== null
+      });
+    }
+
+    return {
+      householdId: household.id,
+      restrictions: RestrictionGraph.expand(declared),
+      allergies: [...allergies],
+      customRestrictions,
+      members,
+      // Overlap between members' diets is expected, so only conflicts are worth flagging
+      warnings: RestrictionGraph.validate(declared).filter(warning => warning.type === 'conflict'),
+      servings: this.servings(household)
+    };
+  }
+
+  // Standard servings a meal for everyone needs, e.g. 2 adults and 2 children at 0.5 each make 3
+  servings(household: Household): number {
+    return household.members.reduce((total, member) => total + member.servings, 0);
+  }
+
+  private findMember(household: Household, userId: string): HouseholdMember {
+    const member = household.members.find(existing => existing.userId === userId);
+    if (!member) {
+      throw new RecipeError('Household member not found', 'NOT_FOUND', 404);
+    }
+
+    return member;
+  }
+}
+
+// Singleton instance
+export const householdService = new HouseholdService();
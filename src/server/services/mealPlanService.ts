@@ -0,0 +1,238 @@
+import { aiService } from './aiService';
+import { recipeService } from './recipeService';
+import { nutritionService } from './nutritionService';
+import { dietaryService } from './dietaryService';
+import { RecipeModel } from '../models/Recipe';
+import { DietaryProfileModel, NutritionModel } from '../models/DietaryProfile';
+import { MealPlanModel } from '../models/MealPlan';
+import { IngredientCatalogModel } from '../models/IngredientCatalog';
+import { MealPlanner } from '../utils/mealPlanner';
+import { DietaryRuleEngine } from '../utils/dietaryRules';
+import {
+  CustomRestriction,
+  DietaryRestriction,
+  GenerateMealPlanRequest,
+  MealCandidate,
+  MealPlan,
+  MealSlot,
+  RecipeError,
+  AIServiceError
+} from '../../types';
+
+// Stored recipes (most popular first) considered when building a plan
+const CANDIDATE_POOL_LIMIT = 200;
+
+// Below this many candidates for a slot, ask the AI for another recipe
+const MIN_CANDIDATES_PER_SLOT = 4;
+
+export class MealPlanService {
+  // Build and save a 7-day plan for a user's restrictions and nutritional goals
+  async generatePlan(request: GenerateMealPlanRequest): Promise<MealPlan> {
+    try {
+      // Resolved first: gathering candidates can store AI recipes, which a bad date must not leave behind
+      const weekStart = MealPlanner.resolveWeekStart(request.weekStart);
+      const profile = await DietaryProfileModel.findByUserId(request.userId);
+      const restrictions = await DietaryProfileModel.getAllRestrictions(request.userId);
+      const targets = MealPlanner.buildTargets(profile?.nutritionalGoals);
+      const customRestrictions = await dietaryService.customRestrictions(request.userId);
+      const candidates = await this.getCandidates(request.slots, restrictions, customRestrictions, request.useAI);
+
+      const meals = MealPlanner.plan(targets, request.slots, candidates);
+
+      const plan = await MealPlanModel.create({
+        userId: request.userId,
+        weekStart,
+        slots: request.slots,
+        restrictions,
+        targets
+      }, meals);
+
+      return this.withSummary(plan);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to generate meal plan', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  async getPlan(id: string): Promise<MealPlan> {
+    const plan = await MealPlanModel.findById(id);
+    if (!plan) {
+      throw new RecipeError('Meal plan not found', 'NOT_FOUND', 404);
+    }
+
+    return this.withSummary(plan);
+  }
+
+  async listPlans(userId: string): Promise<MealPlan[]> {
+    return MealPlanModel.findByUserId(userId);
+  }
+
+  async deletePlan(id: string): Promise<void> {
+    await MealPlanModel.delete(id);
+  }
+
+  async setEntryLocked(planId: string, entryId: string, locked: boolean): Promise<MealPlan> {
+    await MealPlanModel.setLocked(planId, entryId, locked);
+    return this.getPlan(planId);
+  }
+
+  // Re-plan every unlocked slot around the locked ones
+  async regeneratePlan(id: string, useAI: boolean = true): Promise<MealPlan> {
+    try {
+      const plan = await this.getPlan(id);
+      const customRestrictions = await dietaryService.customRestrictions(plan.userId);
+      const candidates = await this.getCandidates(plan.slots, plan.restrictions, customRestrictions, useAI);
+      const locked = plan.entries.filter(entry => entry.locked);
+
+      const meals = MealPlanner.plan(plan.targets, plan.slots, candidates, locked)
+        .filter(meal => !locked.some(entry => entry.day === meal.day && entry.slot === meal.slot));
+
+      await MealPlanModel.replaceEntries(id, meals);
+
+      return this.getPlan(id);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to regenerate meal plan', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Swap one slot for a different recipe, keeping the rest of the plan as is
+  async regenerateEntry(planId: string, entryId: string, useAI: boolean = true): Promise<MealPlan> {
+    try {
+      const plan = await this.getPlan(planId);
+      const entry = plan.entries.find(e => e.id === entryId);
+
+      if (!entry) {
+        throw new RecipeError('Meal plan entry not found', 'NOT_FOUND', 404);
+      }
+
+      if (entry.locked) {
+        throw new RecipeError('Meal plan entry is locked', 'ENTRY_LOCKED', 409);
+      }
+
+      const customRestrictions = await dietaryService.customRestrictions(plan.userId);
+      const candidates = await this.getCandidates([entry.slot], plan.restrictions, customRestrictions, useAI);
+      const others = plan.entries.filter(e => e.id !== entry.id);
+      const meal = MealPlanner.pickMeal(
+        plan.targets,
+        plan.slots,
+        candidates,
+        others,
+        entry.day,
+        entry.slot,
+        entry.recipeId ? [entry.recipeId] : []
+      );
+
+      if (!meal) {
+        throw new RecipeError(`No other recipe fits the ${entry.slot} slot`, 'NOT_ENOUGH_RECIPES', 422);
+      }
+
+      await MealPlanModel.replaceEntries(planId, [meal]);
+
+      return this.getPlan(planId);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to regenerate meal plan entry', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Stored recipes that satisfy every restriction (custom ones included) and have nutrition, topped up with
+  // AI recipes for thin slots
+  private async getCandidates(
+    slots: MealSlot[],
+    restrictions: DietaryRestriction[],
+    customRestrictions: CustomRestriction[],
+    useAI: boolean
+  ): Promise<MealCandidate[]> {
+    const recipes = await dietaryService.excludeBlocked(
+      await RecipeModel.getPopular(CANDIDATE_POOL_LIMIT, restrictions),
+      customRestrictions
+    );
+    const candidates: MealCandidate[] = [];
+    const nutritionById = await NutritionModel.getNutritionForRecipes(recipes.map(recipe => recipe.id));
+
+    for (const recipe of recipes) {
+      const nutrition = nutritionById.get(recipe.id);
+      if (nutrition && nutrition.calories > 0) {
+        candidates.push(MealPlanner.toCandidate(recipe, nutrition));
+      }
+    }
+
+    for (const slot of slots) {
+      const available = candidates.filter(c => c.slots.includes(slot)).length;
+
+      if (useAI && available < MIN_CANDIDATES_PER_SLOT) {
+        const generated = await this.generateCandidate(slot, restrictions, customRestrictions);
+        if (generated) candidates.push(generated);
+      }
+
+      if (!candidates.some(c => c.slots.includes(slot))) {
+        throw new RecipeError(
+          `No recipes with nutritional information fit the ${slot} slot`,
+          'NOT_ENOUGH_RECIPES',
+          422
+        );
+      }
+    }
+
+    return candidates;
+  }
+
+  // Ask the AI for a single-serving recipe for a slot and store it so the plan can reference it
+  private async generateCandidate(
+    slot: MealSlot,
+    restrictions: DietaryRestriction[],
+    customRestrictions: CustomRestriction[]
+  ): Promise<MealCandidate | null> {
+    try {
+      const [variation] = await aiService.generateRecipeVariations(slot, restrictions, 1, customRestrictions);
+      if (!variation) return null;
+
+      const { nutrition } = await nutritionService.calculate({ ...variation, servingSize: 1 });
+      if (!nutrition || nutrition.calories <= 0) return null;
+
+      if (DietaryRuleEngine.blockedByCustom({ ...variation, nutritionalInfo: nutrition }, customRestrictions)) return null;
+
+      // Store only the restrictions the rule engine confirms; a recipe that misses one can't go in this plan
+      const dietaryCompatibility = DietaryRuleEngine.confirmed(
+        { ingredients: variation.ingredients, instructions: variation.instructions, nutritionalInfo: nutrition },
+        restrictions,
+        await IngredientCatalogModel.allergensFor(variation.ingredients)
+      );
+      if (restrictions.some(restriction => !dietaryCompatibility.includes(restriction))) return null;
+
+      const recipe = await recipeService.createRecipe({
+        name: variation.name,
+        description: variation.description,
+        ingredients: variation.ingredients,
+        instructions: variation.instructions,
+        servingSize: 1,
+        cookingTime: variation.cookingTime,
+        difficulty: variation.difficulty,
+        cuisine: '',
+        tags: [slot, 'ai-generated'],
+        nutritionalInfo: nutrition,
+        dietaryCompatibility
+      }, { author: 'meal-planner', reason: `Generated for ${slot}` });
+
+      return MealPlanner.toCandidate(recipe, nutrition);
+    } catch (error) {
+      // The plan can still be built from stored recipes
+      if (error instanceof AIServiceError) {
+        console.warn(`AI ${slot} suggestion failed for meal plan:`, error.message);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private withSummary(plan: MealPlan): MealPlan {
+    return {
+      ...plan,
+      summary: MealPlanner.summarize(plan.targets, plan.slots, plan.entries, plan.weekStart)
+    };
+  }
+}
+
+// Singleton instance
+export const mealPlanService = new MealPlanService();
@@ -0,0 +1,195 @@
+import { aiService } from './aiService';
+import { IngredientCatalogModel } from '../models/IngredientCatalog';
+import { DietaryProfileModel, NutritionModel } from '../models/DietaryProfile';
+import { RecipeModel } from '../models/Recipe';
+import { IngredientLookup, NutritionCalculator } from '../utils/nutritionCalculator';
+import { NutritionLabelBuilder } from '../utils/nutritionLabel';
+import { FitScorer } from '../utils/fitScore';
+import { MealPlanner } from '../utils/mealPlanner';
+import { NUTRIENT_TABLE } from '../utils/nutrientTable';
+import { config } from '../utils/config';
+import {
+  Ingredient,
+  NutritionCalculation,
+  NutritionLabel,
+  NutritionMethod,
+  NutrientValues,
+  Recipe,
+  RecipeFitScore,
+  ScoredRecipe,
+  RecipeError,
+  AIServiceError
+} from '../../types';
+
+export class NutritionService {
+  // Compute per-serving nutrition from the local nutrient table, asking the AI only about what it cannot resolve
+  async calculate(
+    recipe: { name: string; ingredients: Ingredient[]; servingSize: number },
+    useAI: boolean = true
+  ): Promise<NutritionCalculation> {
+    const lookups = await this.lookup(recipe.ingredients);
+    const local = NutritionCalculator.calculate(lookups, recipe.servingSize);
+    const unresolvedNames = local.unresolved.map(item => item.name);
+
+    let perServing: NutrientValues | null = local.resolved.length > 0 ? local.perServing : null;
+    let method: NutritionMethod = 'local';
+
+    if (useAI && local.unresolved.length > 0) {
+      const estimate = await this.estimateRemainder(recipe, unresolvedNames);
+
+      if (estimate) {
+        perServing = perServing ? NutritionCalculator.combine(perServing, estimate) : estimate;
+        method = local.resolved.length > 0 ? 'local+ai' : 'ai';
+      }
+    }
+
+    return {
+      nutrition: perServing && {
+        ...perServing,
+        servingSize: recipe.servingSize,
+        method,
+        unresolvedIngredients: unresolvedNames
+      },
+      method,
+      resolved: local.resolved,
+      unresolved: local.unresolved
+    };
+  }
+
+  // Recalculate and store nutrition for a saved recipe
+  async recalculate(recipeId: string, useAI: boolean = true): Promise<NutritionCalculation> {
+    const recipe = await RecipeModel.findById(recipeId);
+    if (!recipe) {
+      throw new RecipeError('Recipe not found', 'NOT_FOUND', 404);
+    }
+
+    const calculation = await this.calculate(recipe, useAI);
+
+    if (!calculation.nutrition) {
+      throw new RecipeError(
+        'None of the recipe ingredients could be matched to nutrient data',
+        'NUTRITION_UNRESOLVED',
+        422
+      );
+    }
+
+    await NutritionModel.saveNutrition(recipeId, recipe.servingSize, calculation.nutrition);
+
+    return calculation;
+  }
+
+  // Nutrition Facts panel for one serving; %DV follows the user's goals when a userId is given
+  async getLabel(recipeId: string, userId?: string): Promise<NutritionLabel> {
+    const recipe = await RecipeModel.findById(recipeId);
+    if (!recipe) {
+      throw new RecipeError('Recipe not found', 'NOT_FOUND', 404);
+    }
+
+    // Recipes without stored nutrition get a local calculation that is not saved
+    const nutrition = (await NutritionModel.getNutrition(recipeId))
+      || (await this.calculate(recipe, false)).nutrition;
+
+    if (!nutrition) {
+      throw new RecipeError('Recipe has no nutritional information', 'NUTRITION_NOT_FOUND', 404);
+    }
+
+    const profile = userId ? await DietaryProfileModel.findByUserId(userId) : null;
+    const goals = profile?.nutritionalGoals;
+    const intakes = NutritionLabelBuilder.referenceFor(config.dailyReferenceIntakes, goals);
+
+    return NutritionLabelBuilder.build(
+      recipe,
+      nutrition,
+      intakes,
+      goals ? { basis: 'user', userId } : { basis: 'standard' }
+    );
+  }
+
+  // Attach each recipe's fit against the user's nutritional goals (default targets when they have none)
+  async scoreForUser<T extends Recipe>(recipes: T[], userId: string): Promise<ScoredRecipe<T>[]> {
+    const profile = await DietaryProfileModel.findByUserId(userId);
+    const goals = profile?.nutritionalGoals;
+    const targets = MealPlanner.buildTargets(goals);
+    const scored: ScoredRecipe<T>[] = [];
+
+    for (const recipe of recipes) {
+      const nutrition = recipe.nutritionalInfo || await NutritionModel.getNutrition(recipe.id);
+      scored.push({
+        ...recipe,
+        fit: nutrition && nutrition.calories > 0
+          ? FitScorer.score(nutrition, targets, goals ? 'user' : 'default')
+          : null
+      });
+    }
+
+    return scored;
+  }
+
+  // Best fit first; recipes without nutrition go last, keeping their original order
+  rankByFit<T extends Recipe>(recipes: ScoredRecipe<T>[]): ScoredRecipe<T>[] {
+    return [...recipes].sort((a, b) => (b.fit?.score ?? -1) - (a.fit?.score ?? -1));
+  }
+
+  async getFit(recipeId: string, userId: string): Promise<RecipeFitScore> {
+    const recipe = await RecipeModel.findById(recipeId);
+    if (!recipe) {
+      throw new RecipeError('Recipe not found', 'NOT_FOUND', 404);
+    }
+
+    recipe.nutritionalInfo = (await NutritionModel.getNutrition(recipeId))
+      || (await this.calculate(recipe, false)).nutrition
+      || undefined;
+
+    const [scored] = await this.scoreForUser([recipe], userId);
+    if (!scored.fit) {
+      throw new RecipeError('Recipe has no nutritional information', 'NUTRITION_NOT_FOUND', 404);
+    }
+
+    return scored.fit;
+  }
+
+  private async lookup(ingredients: Ingredient[]): Promise<IngredientLookup[]> {
+    const lookups: IngredientLookup[] = [];
+
+    for (const ingredient of ingredients) {
+      const entry = await IngredientCatalogModel.resolve(ingredient);
+
+      lookups.push({
+        ingredient,
+        entry,
+        profile: entry ? NUTRIENT_TABLE[entry.canonicalName] || null : null
+      });
+    }
+
+    return lookups;
+  }
+
+  // Per-serving AI estimate covering only the unresolved ingredients
+  private async estimateRemainder(
+    recipe: { name: string; ingredients: Ingredient[]; servingSize: number },
+    unresolvedNames: string[]
+  ): Promise<NutrientValues | null> {
+    const lines = recipe.ingredients
+      .filter(ingredient => unresolvedNames.includes(ingredient.name))
+      .map(ingredient => `${ingredient.amount} ${ingredient.unit} ${ingredient.name}`.replace(/\s+/g, ' ').trim());
+
+    try {
+      const { servingSize, ...estimate } = await aiService.generateNutritionalInfo(
+        `${recipe.name} (only these ingredients)`,
+        lines,
+        recipe.servingSize
+      );
+      return estimate;
+    } catch (error) {
+      // The local numbers still stand; the unresolved ingredients stay flagged
+      if (error instanceof AIServiceError) {
+        console.warn(`AI nutrition fallback failed for ${recipe.name}:`, error.message);
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const nutritionService = new NutritionService();
@@ -0,0 +1,24 @@
+import { config } from '../../utils/config';
+import { AIProvider, AIProviderName, AIServiceError } from '../../../types';
+import { OpenAIProvider } from './openaiProvider';
+import { OpenAICompatibleProvider } from './openaiCompatibleProvider';
+import { OllamaProvider } from './ollamaProvider';
+import { MockProvider } from './mockProvider';
+
+export { responseSchemas } from './responseSchemas';
+
+// Build the provider selected by AppConfig.ai.provider
+export function createAIProvider(name: AIProviderName = config.ai.provider): AIProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider();
+    case 'openai_compatible':
+      return new OpenAICompatibleProvider();
+    case 'ollama':
+      return new OllamaProvider();
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new AIServiceError(`Unknown AI provider: ${name}`, 'INIT_FAILED', 500);
+  }
+}
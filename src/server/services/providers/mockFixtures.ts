@@ -0,0 +1,170 @@
+import { AITask } from '../../../types';
+
+// Canned model output used by the mock provider, one entry per AI task
+export const mockFixtures: Record<AITask, unknown> = {
+  recipe_suggestions: [
+    {
+      name: 'Garlic Chicken Fried Rice',
+      description: 'Quick weeknight fried rice with seared chicken, garlic and scallions',
+      ingredients: [
+        { name: 'chicken breast', amount: 400, unit: 'g' },
+        { name: 'cooked rice', amount: 3, unit: 'cups', notes: 'day-old works best' },
+        { name: 'garlic', amount: 3, unit: 'cloves', notes: 'minced' },
+        { name: 'scallions', amount: 4, unit: 'pieces', notes: 'sliced' },
+        { name: 'vegetable oil', amount: 2, unit: 'tbsp' }
+      ],
+      instructions: [
+        'Dice the chicken and season with salt',
+        'Sear the chicken in hot oil until golden, then set aside',
+        'Fry the garlic for 30 seconds, add the rice and toss until hot',
+        'Return the chicken, add scallions and season to taste'
+      ],
+      cookingTime: 25,
+      difficulty: 2,
+      cuisine: 'Chinese',
+      tags: ['quick', 'one-pan'],
+      nutritionalHighlights: ['high protein'],
+      dietaryCompatibility: ['dairy', 'nuts'],
+      confidence: 0.9
+    },
+    {
+      name: 'Lemon Herb Chicken and Rice Bowl',
+      description: 'Bright lemon-marinated chicken over fluffy herbed rice',
+      ingredients: [
+        { name: 'chicken thighs', amount: 500, unit: 'g' },
+        { name: 'long grain rice', amount: 1.5, unit: 'cups' },
+        { name: 'lemon', amount: 1, unit: 'piece', notes: 'zest and juice' },
+        { name: 'parsley', amount: 0.25, unit: 'cup', notes: 'chopped' },
+        { name: 'olive oil', amount: 2, unit: 'tbsp' }
+      ],
+      instructions: [
+        'Marinate the chicken in lemon juice, zest and olive oil for 15 minutes',
+        'Cook the rice according to package directions',
+        'Grill the chicken for 6 minutes per side',
+        'Fold parsley into the rice and serve with sliced chicken'
+      ],
+      cookingTime: 40,
+      difficulty: 2,
+      cuisine: 'Mediterranean',
+      tags: ['healthy', 'meal-prep'],
+      nutritionalHighlights: ['high protein', 'low sugar'],
+      dietaryCompatibility: ['dairy', 'gluten', 'nuts'],
+      confidence: 0.85
+    },
+    {
+      name: 'Vegetable Coconut Curry',
+      description: 'Mild coconut curry with seasonal vegetables served over rice',
+      ingredients: [
+        { name: 'coconut milk', amount: 400, unit: 'ml' },
+        { name: 'mixed vegetables', amount: 4, unit: 'cups' },
+        { name: 'curry paste', amount: 2, unit: 'tbsp' },
+        { name: 'jasmine rice', amount: 1.5, unit: 'cups' }
+      ],
+      instructions: [
+        'Cook the rice and keep warm',
+        'Fry the curry paste in a splash of coconut milk until fragrant',
+        'Add the remaining coconut milk and vegetables and simmer for 15 minutes',
+        'Serve the curry over rice'
+      ],
+      cookingTime: 30,
+      difficulty: 2,
+      cuisine: 'Thai',
+      tags: ['vegetarian', 'comfort food'],
+      nutritionalHighlights: ['high fiber'],
+      dietaryCompatibility: ['vegetarian', 'vegan', 'dairy', 'gluten'],
+      confidence: 0.8
+    }
+  ],
+  recipe_variations: [
+    {
+      name: 'Classic Roman Carbonara',
+      description: 'Guanciale, pecorino, eggs and black pepper, no cream',
+      variation: 'Traditional preparation with guanciale and pecorino romano',
+      culturalContext: 'Rome, Italy',
+      ingredients: [
+        { name: 'spaghetti', amount: 400, unit: 'g' },
+        { name: 'guanciale', amount: 150, unit: 'g' },
+        { name: 'egg yolks', amount: 4, unit: 'pieces' },
+        { name: 'pecorino romano', amount: 60, unit: 'g', notes: 'finely grated' }
+      ],
+      instructions: [
+        'Render the guanciale until crisp',
+        'Whisk yolks with pecorino and plenty of black pepper',
+        'Toss hot pasta with guanciale off the heat, then stir in the egg mixture'
+      ],
+      cookingTime: 25,
+      difficulty: 3,
+      uniqueFeatures: ['no cream', 'emulsified egg sauce']
+    },
+    {
+      name: 'Mushroom Carbonara',
+      description: 'Smoky sautéed mushrooms stand in for cured pork',
+      variation: 'Vegetarian take using smoked paprika mushrooms',
+      culturalContext: 'Modern Italian-American',
+      ingredients: [
+        { name: 'spaghetti', amount: 400, unit: 'g' },
+        { name: 'cremini mushrooms', amount: 250, unit: 'g' },
+        { name: 'eggs', amount: 3, unit: 'pieces' },
+        { name: 'parmesan', amount: 50, unit: 'g' }
+      ],
+      instructions: [
+        'Sauté the mushrooms with smoked paprika until browned',
+        'Beat the eggs with parmesan',
+        'Combine pasta, mushrooms and egg mixture off the heat'
+      ],
+      cookingTime: 25,
+      difficulty: 2,
+      uniqueFeatures: ['vegetarian', 'smoky']
+    }
+  ],
+  recipe_instructions: {
+    instructions: [
+      'Prepare and measure all ingredients',
+      'Heat a large pan over medium-high heat',
+      'Cook the main ingredients until done, about 15 minutes',
+      'Season to taste and serve immediately'
+    ],
+    cookingTime: 30,
+    difficulty: 2,
+    tips: ['Prep everything before you start cooking'],
+    safetyNotes: ['Cook poultry to an internal temperature of 74°C']
+  },
+  nutritional_info: {
+    calories: 450,
+    protein: 28,
+    carbohydrates: 52,
+    fat: 12,
+    fiber: 4,
+    sugar: 3,
+    sodium: 620,
+    vitamins: { vitaminA: 300, vitaminC: 12 },
+    minerals: { iron: 2.5, calcium: 60 }
+  },
+  ingredient_substitutions: [
+    {
+      substitute: 'oat milk',
+      ratio: 1,
+      reason: 'Neutral flavor and similar body in most recipes',
+      dietaryRestriction: 'dairy',
+      confidenceScore: 0.9,
+      flavorImpact: 'minimal',
+      textureImpact: 'slightly thinner'
+    },
+    {
+      substitute: 'coconut milk',
+      ratio: 1,
+      reason: 'Rich and creamy, works well in sauces and curries',
+      dietaryRestriction: 'dairy',
+      confidenceScore: 0.8,
+      flavorImpact: 'adds coconut flavor',
+      textureImpact: 'creamier'
+    }
+  ],
+  dietary_analysis: {
+    compatible: true,
+    issues: [],
+    suggestions: ['Check packaged ingredients for allergen labelling'],
+    compatibilityScore: 0.9,
+    risks: []
+  }
+};
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import { config } from '../../utils/config';
+import { AIProvider, AICompletionRequest, AITask, AIServiceError } from '../../../types';
+import { mockFixtures } from './mockFixtures';
+
+const MOCK_STREAM_CHUNK_SIZE = 64;
+
+// Deterministic offline provider that answers every task from fixtures
+export class MockProvider implements AIProvider {
+  readonly name = 'mock' as const;
+  private fixtures: Record<AITask, unknown>;
+
+  constructor() {
+    this.fixtures = { ...mockFixtures, ...this.loadFixtureOverrides() };
+  }
+
+  async complete(request: AICompletionRequest): Promise<string> {
+    const fixture = this.fixtures[request.task];
+    if (fixture === undefined) {
+      throw new AIServiceError(`No mock fixture for task ${request.task}`, 'API_ERROR', 500);
+    }
+
+    // Raw strings let fixtures simulate malformed model output
+    return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+  }
+
+  // Replays the fixture in fixed-size chunks to exercise incremental parsing
+  async *stream(request: AICompletionRequest): AsyncIterable<string> {
+    const response = await this.complete(request);
+    for (let i = 0; i < response.length; i += MOCK_STREAM_CHUNK_SIZE) {
+      yield response.slice(i, i + MOCK_STREAM_CHUNK_SIZE);
+    }
+  }
+
+  // Optional JSON file keyed by task, e.g. { "nutritional_info": { ... } }
+  private loadFixtureOverrides(): Partial<Record<AITask, unknown>> {
+    if (!config.ai.mockFixturesPath) return {};
+
+    try {
+      return JSON.parse(fs.readFileSync(config.ai.mockFixturesPath, 'utf8'));
+    } catch (error) {
+      console.error('Failed to load mock AI fixtures:', error);
+      throw new AIServiceError('Invalid AI_MOCK_FIXTURES_PATH', 'INIT_FAILED', 500);
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { config } from '../../utils/config';
+import { AIProvider, AICompletionRequest, AIServiceError } from '../../../types';
+
+// Ollama's native /api/chat endpoint (structured outputs via the `format` field)
+export class OllamaProvider implements AIProvider {
+  readonly name = 'ollama' as const;
+
+  async complete(request: AICompletionRequest): Promise<string> {
+    try {
+      const response = await axios.post(
+        `${config.ai.apiUrl.replace(/\/+$/, '')}/api/chat`,
+        this.buildBody(request, false),
+        {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: config.ai.timeoutMs
+        }
+      );
+
+      return response.data.message?.content || '';
+    } catch (error) {
+      console.error('Ollama request failed:', error);
+      throw new AIServiceError('AI API request failed', 'API_ERROR', 500);
+    }
+  }
+
+  // Ollama streams newline-delimited JSON objects
+  async *stream(request: AICompletionRequest): AsyncIterable<string> {
+    let response;
+    try {
+      response = await axios.post<Readable>(
+        `${config.ai.apiUrl.replace(/\/+$/, '')}/api/chat`,
+        this.buildBody(request, true),
+        {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: config.ai.timeoutMs,
+          responseType: 'stream'
+        }
+      );
+    } catch (error) {
+      console.error('Ollama stream request failed:', error);
+      throw new AIServiceError('AI API stream failed', 'API_ERROR', 500);
+    }
+
+    let buffer = '';
+    try {
+      for await (const chunk of response.data) {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const parsed = this.parseLine(line);
+          if (parsed.message?.content) yield parsed.message.content;
+          if (parsed.done) return;
+        }
+      }
+    } catch (error) {
+      if (error instanceof AIServiceError) throw error;
+      console.error('Ollama stream failed:', error);
+      throw new AIServiceError('AI API stream failed', 'API_ERROR', 500);
+    }
+  }
+
+  // Each streamed line is a complete JSON object; anything else is a broken response, not a network error
+  private parseLine(line: string): any {
+    try {
+      return JSON.parse(line);
+    } catch (error) {
+      console.error('Malformed Ollama stream line:', line);
+      throw new AIServiceError('AI stream returned malformed JSON', 'INVALID_RESPONSE', 502);
+    }
+  }
+
+  private buildBody(request: AICompletionRequest, stream: boolean) {
+    return {
+      model: config.ai.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      format: request.responseSchema,
+      stream,
+      options: {
+        temperature: config.ai.temperature,
+        num_predict: config.ai.maxTokens
+      }
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { config, getAIHeaders } from '../../utils/config';
+import { AIProvider, AICompletionRequest, AIServiceError } from '../../../types';
+
+// Any server exposing an OpenAI-style /chat/completions endpoint (vLLM, LM Studio, OpenRouter, ...)
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai_compatible' as const;
+
+  async complete(request: AICompletionRequest): Promise<string> {
+    try {
+      const response = await axios.post(
+        `${config.ai.apiUrl.replace(/\/+$/, '')}/chat/completions`,
+        this.buildBody(request, false),
+        {
+          headers: getAIHeaders(),
+          timeout: config.ai.timeoutMs
+        }
+      );
+
+      return response.data.choices[0]?.message?.content || '';
+    } catch (error) {
+      console.error('AI request failed:', error);
+      throw new AIServiceError('AI API request failed', 'API_ERROR', 500);
+    }
+  }
+
+  // Consume the server-sent event stream of chat completion chunks
+  async *stream(request: AICompletionRequest): AsyncIterable<string> {
+    let response;
+    try {
+      response = await axios.post<Readable>(
+        `${config.ai.apiUrl.replace(/\/+$/, '')}/chat/completions`,
+        this.buildBody(request, true),
+        {
+          headers: getAIHeaders(),
+          timeout: config.ai.timeoutMs,
+          responseType: 'stream'
+        }
+      );
+    } catch (error) {
+      console.error('AI stream request failed:', error);
+      throw new AIServiceError('AI API stream failed', 'API_ERROR', 500);
+    }
+
+    let buffer = '';
+    for await (const chunk of response.data) {
+      buffer += chunk.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch (error) {
+          console.error('Skipping malformed stream chunk:', data);
+        }
+      }
+    }
+  }
+
+  private buildBody(request: AICompletionRequest, stream: boolean) {
+    return {
+      model: config.ai.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      max_tokens: config.ai.maxTokens,
+      temperature: config.ai.temperature,
+      stream,
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: request.task,
+          strict: false,
+          schema: request.responseSchema
+        }
+      }
+    };
+  }
+}
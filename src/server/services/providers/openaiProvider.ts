@@ -0,0 +1,53 @@
+import OpenAI from 'openai';
+import { config } from '../../utils/config';
+import { AIProvider, AICompletionRequest, AIServiceError } from '../../../types';
+
+// Official OpenAI API through the SDK
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI;
+
+  constructor() {
+    this.client = new OpenAI({
+      apiKey: config.ai.apiKey,
+      baseURL: config.ai.apiUrl,
+      timeout: config.ai.timeoutMs
+    });
+  }
+
+  async complete(request: AICompletionRequest): Promise<string> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: config.ai.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        max_tokens: config.ai.maxTokens,
+        temperature: config.ai.temperature
+      });
+
+      return completion.choices[0]?.message?.content || '';
+    } catch (error) {
+      console.error('OpenAI request failed:', error);
+      throw new AIServiceError('AI API request failed', 'API_ERROR', 500);
+    }
+  }
+
+  async *stream(request: AICompletionRequest): AsyncIterable<string> {
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: config.ai.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        max_tokens: config.ai.maxTokens,
+        temperature: config.ai.temperature,
+        stream: true
+      });
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    } catch (error) {
+      console.error('OpenAI stream failed:', error);
+      throw new AIServiceError('AI API stream failed', 'API_ERROR', 500);
+    }
+  }
+}
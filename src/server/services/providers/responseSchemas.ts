@@ -0,0 +1,121 @@
+import { AITask } from '../../../types';
+
+// JSON Schemas sent to providers that support structured output
+const ingredientSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    amount: { type: 'number' },
+    unit: { type: 'string' },
+    notes: { type: 'string' }
+  },
+  required: ['name', 'amount', 'unit']
+};
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+export const responseSchemas: Record<AITask, Record<string, any>> = {
+  recipe_suggestions: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        ingredients: { type: 'array', items: ingredientSchema },
+        instructions: stringArray,
+        cookingTime: { type: 'number' },
+        difficulty: { type: 'number' },
+        cuisine: { type: 'string' },
+        tags: stringArray,
+        nutritionalHighlights: stringArray,
+        dietaryCompatibility: stringArray,
+        confidence: { type: 'number' }
+      },
+      required: ['name', 'description', 'ingredients', 'instructions', 'cookingTime', 'difficulty', 'cuisine']
+    }
+  },
+  recipe_variations: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        variation: { type: 'string' },
+        culturalContext: { type: 'string' },
+        ingredients: { type: 'array', items: ingredientSchema },
+        instructions: stringArray,
+        cookingTime: { type: 'number' },
+        difficulty: { type: 'number' },
+        uniqueFeatures: stringArray
+      },
+      required: ['name', 'description', 'variation', 'ingredients', 'instructions', 'cookingTime', 'difficulty']
+    }
+  },
+  recipe_instructions: {
+    type: 'object',
+    properties: {
+      instructions: stringArray,
+      cookingTime: { type: 'number' },
+      difficulty: { type: 'number' },
+      tips: stringArray,
+      safetyNotes: stringArray
+    },
+    required: ['instructions', 'cookingTime', 'difficulty']
+  },
+  nutritional_info: {
+    type: 'object',
+    properties: {
+      calories: { type: 'number' },
+      protein: { type: 'number' },
+      carbohydrates: { type: 'number' },
+      fat: { type: 'number' },
+      fiber: { type: 'number' },
+      sugar: { type: 'number' },
+      sodium: { type: 'number' },
+      vitamins: { type: 'object', additionalProperties: { type: 'number' } },
+      minerals: { type: 'object', additionalProperties: { type: 'number' } }
+    },
+    required: ['calories', 'protein', 'carbohydrates', 'fat']
+  },
+  ingredient_substitutions: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        substitute: { type: 'string' },
+        ratio: { type: 'number' },
+        reason: { type: 'string' },
+        dietaryRestriction: { type: 'string' },
+        confidenceScore: { type: 'number' },
+        flavorImpact: { type: 'string' },
+        textureImpact: { type: 'string' }
+      },
+      required: ['substitute', 'ratio', 'reason', 'dietaryRestriction', 'confidenceScore']
+    }
+  },
+  dietary_analysis: {
+    type: 'object',
+    properties: {
+      compatible: { type: 'boolean' },
+      issues: stringArray,
+      suggestions: stringArray,
+      compatibilityScore: { type: 'number' },
+      risks: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            restriction: { type: 'string' },
+            level: { type: 'string', enum: ['contains', 'likely_contains', 'may_contain'] },
+            evidence: { type: 'string' },
+            reason: { type: 'string' }
+          },
+          required: ['restriction', 'level', 'evidence', 'reason']
+        }
+      }
+    },
+    required: ['compatible', 'issues', 'suggestions']
+  }
+};
@@ -1,6 +1,19 @@
 import { aiService } from './aiService';
+import { nutritionService } from './nutritionService';
+import { dietaryService } from './dietaryService';
 import { RecipeModel, RecipeCacheModel } from '../models/Recipe';
 import { DietaryProfileModel, NutritionModel, IngredientSubstitutionModel } from '../models/DietaryProfile';
+import { RecipeVersionModel } from '../models/RecipeVersion';
+import { RecipeDraftModel } from '../models/RecipeDraft';
+import { PantryModel } from '../models/Pantry';
+import { CookingHistoryModel } from '../models/CookingHistory';
+import { IngredientCatalogModel } from '../models/IngredientCatalog';
+import { config } from '../utils/config';
+import { RecipeDiffUtils } from '../utils/recipeDiff';
+import { PantryMatcher } from '../utils/pantryMatcher';
+import { ScalingUtils } from '../utils/scaling';
+import { IngredientNormalizer } from '../utils/ingredientNormalizer';
+import { DietaryRuleEngine } from '../utils/dietaryRules';
 import { 
   Recipe, 
   RecipeSuggestion, 
@@ -10,11 +23,46 @@ import {
   ScaleRecipeRequest,
   SubstituteIngredientRequest,
   AnalyzeDietaryRequest,
+  DietaryAnalysis,
   NutritionalInfo,
   IngredientSubstitution,
-  RecipeError 
+  RecipeStreamEvent,
+  RecipeInput,
+  RecipeListOptions,
+  PaginatedResult,
+  RecipeSearchOptions,
+  RecipeSearchHit,
+  RecipeSearchResult,
+  PantryMatchRequest,
+  PantryMatch,
+  PantryMatchResult,
+  PantryIngredients,
+  PopularSort,
+  CookedRequest,
+  CookingHistoryEntry,
+  CookingHistoryStats,
+  RecipeVersion,
+  RecipeVersionDiff,
+  RecipeChangeMeta,
+  RecipeDraft,
+  RecipeDraftKind,
+  RecipeDraftPrompt,
+  Drafted,
+  RecipeError,
+  AIServiceError,
+  ValidationError
 } from '../../types';
 
+// Most pantry items sent to the AI in one request (soonest expiry first)
+const PANTRY_PROMPT_LIMIT = 20;
+
+// How many stored recipes sharing at least one ingredient are scored for pantry coverage
+const PANTRY_CANDIDATE_LIMIT = 100;
+
+// How many top recipes (by popularity or relevance) are re-ranked when sorting by fit; also the batch size when
+// search results are checked against custom restrictions
+const FIT_CANDIDATE_LIMIT = 200;
+
 export class RecipeService {
   // Generate recipes by ingredients with caching
   async getRecipesByIngredients(
@@ -22,91 +70,377 @@ export class RecipeService {
     dietaryRestrictions: DietaryRestriction[] = [],
     servingSize: number = 4,
     cuisinePreference?: string,
-    userId?: string
-  ): Promise<RecipeSuggestion[]> {
+    userId?: string,
+    priorityIngredients: string[] = [],
+    householdId?: string
+  ): Promise<Drafted<RecipeSuggestion>[]> {
+    try {
+      // Add the user's and household members' dietary restrictions
+      dietaryRestrictions = [...new Set([...dietaryRestrictions, ...await dietaryService.restrictions(userId, householdId)])];
+      const customRestrictions = await dietaryService.customRestrictions(userId, householdId);
+      const prompt: RecipeDraftPrompt = { ingredients, priorityIngredients, cuisinePreference, servingSize };
+
+      // Check cache first
+      const cacheQuery = RecipeCacheModel.buildQuery(
+        'ingredients',
+        { ingredients, priorityIngredients, cuisinePreference, servingSize, customRestrictions },
+        dietaryRestrictions
+      );
+
+      const cachedResult = await RecipeCacheModel.get<RecipeSuggestion>(cacheQuery);
+      if (cachedResult) {
+        const drafted = await this.withDrafts('suggestion', cachedResult, prompt, dietaryRestrictions);
+        return await dietaryService.markAllergenSafety(drafted, userId, householdId);
+      }
+
+      // Generate new recipes using AI and save each as a draft; suggestions that still use a blocked ingredient
+      // are dropped
+      const suggestions = await this.withDrafts('suggestion', await dietaryService.excludeBlocked(
+        await aiService.generateRecipesByIngredients(
+          ingredients,
+          dietaryRestrictions,
+          servingSize,
+          cuisinePreference,
+          priorityIngredients,
+          customRestrictions
+        ),
+        customRestrictions
+      ), prompt, dietaryRestrictions);
+      console.log(suggestions)
+
+      // Cache the complete result set
+      await RecipeCacheModel.save(cacheQuery, suggestions);
+
+      return await dietaryService.markAllergenSafety(suggestions, userId, householdId);
+    } catch (error) {
+      if (error instanceof AIServiceError || error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to get recipes by ingredients', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Usable (unexpired) pantry ingredients, soonest expiry first, flagging those about to expire
+  async getPantryIngredients(userId: string): Promise<PantryIngredients> {
     try {
+      const items = await PantryModel.findByUserId(userId, { includeExpired: false });
+      if (items.length === 0) {
+        throw new RecipeError('Pantry is empty', 'EMPTY_PANTRY', 400);
+      }
+
+      const seen = new Set<string>();
+      const usable = items.filter(item => {
+        const key = IngredientNormalizer.normalizeName(item.name);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }).slice(0, PANTRY_PROMPT_LIMIT);
+
+      return {
+        ingredients: usable.map(item => item.name),
+        expiringSoon: usable
+          .filter(item => item.daysUntilExpiry !== undefined && item.daysUntilExpiry <= config.pantryExpiringSoonDays)
+          .map(item => item.name)
+      };
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to get pantry ingredients', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Rank stored recipes by how much of them the pantry covers, falling back to AI when none is close enough
+  async matchPantry(request: PantryMatchRequest): Promise<PantryMatchResult> {
+    try {
+      let dietaryRestrictions = request.dietaryRestrictions;
+
       // Add user's dietary restrictions if userId provided
-      if (userId) {
-        const userRestrictions = await DietaryProfileModel.getAllRestrictions(userId);
+      if (request.userId) {
+        const userRestrictions = await DietaryProfileModel.getAllRestrictions(request.userId);
         dietaryRestrictions = [...new Set([...dietaryRestrictions, ...userRestrictions])];
       }
 
+      const pantry = request.ingredients.filter(name => !IngredientNormalizer.isStaple(name));
+      const candidates = pantry.length > 0
+        ? await dietaryService.excludeBlocked(
+          await RecipeModel.findByIngredients(pantry, dietaryRestrictions, PANTRY_CANDIDATE_LIMIT),
+          await dietaryService.customRestrictions(request.userId)
+        )
+        : [];
+
+      const matches: PantryMatch[] = candidates
+        .map(recipe => ({ recipe, ...PantryMatcher.coverage(recipe, pantry) }))
+        .filter(match => match.coverage > 0)
+        .sort((a, b) =>
+          b.coverage - a.coverage ||
+          a.missingIngredients.length - b.missingIngredients.length ||
+          b.recipe.popularity - a.recipe.popularity
+        )
+        .slice(0, request.limit);
+
+      const mark = await dietaryService.allergenMarker(request.userId);
+      for (const match of matches) {
+        match.recipe = await mark(match.recipe);
+      }
+
+      if (matches.some(match => match.coverage >= request.minCoverage * 100)) {
+        return { source: 'stored', matches, suggestions: [] };
+      }
+
+      // Nothing stored is close enough; generate from the pantry instead (the user's restrictions are added there)
+      const suggestions = await this.getRecipesByIngredients(
+        request.ingredients,
+        dietaryRestrictions,
+        request.servingSize,
+        request.cuisinePreference,
+        request.userId
+      );
+
+      return { source: 'ai', matches, suggestions };
+    } catch (error) {
+      if (error instanceof AIServiceError || error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to match pantry', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Generate recipe variations by food name
+  async getRecipeVariationsByName(
+    foodName: string,
+    dietaryRestrictions: DietaryRestriction[] = [],
+    servingSize: number = 4,
+    userId?: string,
+    householdId?: string
+  ): Promise<Drafted<RecipeVariation>[]> {
+    try {
+      // Add the user's and household members' dietary restrictions
+      dietaryRestrictions = [...new Set([...dietaryRestrictions, ...await dietaryService.restrictions(userId, householdId)])];
+      const customRestrictions = await dietaryService.customRestrictions(userId, householdId);
+      const prompt: RecipeDraftPrompt = { foodName, servingSize };
+
       // Check cache first
-      const cacheKey = RecipeCacheModel.generateCacheKey(
+      const cacheQuery = RecipeCacheModel.buildQuery(
+        'foodName',
+        { foodName, servingSize, customRestrictions },
+        dietaryRestrictions
+      );
+
+      const cachedResult = await RecipeCacheModel.get<RecipeVariation>(cacheQuery);
+      if (cachedResult) {
+        const drafted = await this.withDrafts('variation', cachedResult, prompt, dietaryRestrictions);
+        return await dietaryService.markAllergenSafety(drafted, userId, householdId);
+      }
+
+      // Generate new variations using AI and save each as a draft; variations that still use a blocked ingredient
+      // are dropped
+      const variations = await this.withDrafts('variation', await dietaryService.excludeBlocked(
+        await aiService.generateRecipeVariations(foodName, dietaryRestrictions, servingSize, customRestrictions),
+        customRestrictions
+      ), prompt, dietaryRestrictions);
+
+      // Cache the complete result set
+      await RecipeCacheModel.save(cacheQuery, variations);
+
+      return await dietaryService.markAllergenSafety(variations, userId, householdId);
+    } catch (error) {
+      if (error instanceof AIServiceError || error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to get recipe variations', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Stream recipes by ingredients, emitting each suggestion as soon as the model produces it
+  async *streamRecipesByIngredients(
+    ingredients: string[],
+    dietaryRestrictions: DietaryRestriction[] = [],
+    servingSize: number = 4,
+    cuisinePreference?: string,
+    userId?: string,
+    priorityIngredients: string[] = [],
+    householdId?: string
+  ): AsyncGenerator<RecipeStreamEvent<Drafted<RecipeSuggestion>>> {
+    try {
+      // Add the user's and household members' dietary restrictions
+      dietaryRestrictions = [...new Set([...dietaryRestrictions, ...await dietaryService.restrictions(userId, householdId)])];
+      const customRestrictions = await dietaryService.customRestrictions(userId, householdId);
+      const prompt: RecipeDraftPrompt = { ingredients, priorityIngredients, cuisinePreference, servingSize };
+
+      yield { type: 'progress', stage: 'cache_lookup', message: 'Checking recipe cache' };
+      const cacheQuery = RecipeCacheModel.buildQuery(
         'ingredients',
-        { ingredients, cuisinePreference, servingSize },
+        { ingredients, priorityIngredients, cuisinePreference, servingSize, customRestrictions },
         dietaryRestrictions
       );
 
-      const cachedResult = await RecipeCacheModel.get(cacheKey);
+      const mark = await dietaryService.allergenMarker(userId, householdId);
+      const cachedResult = await RecipeCacheModel.get<RecipeSuggestion>(cacheQuery);
       if (cachedResult) {
-        return [this.convertRecipeToSuggestion(cachedResult)];
+        const drafted = await this.withDrafts('suggestion', cachedResult, prompt, dietaryRestrictions);
+        for (const [index, suggestion] of drafted.entries()) {
+          yield { type: 'recipe', index, data: await mark(suggestion) };
+        }
+        yield { type: 'done', count: cachedResult.length, cached: true };
+        return;
       }
 
-      // Generate new recipes using AI
-      const suggestions = await aiService.generateRecipesByIngredients(
+      yield { type: 'progress', stage: 'generating', message: 'Generating recipes' };
+      const suggestions: Drafted<RecipeSuggestion>[] = [];
+      for await (const suggestion of aiService.streamRecipesByIngredients(
         ingredients,
         dietaryRestrictions,
         servingSize,
-        cuisinePreference
-      );  
-      console.log(suggestions)
-
-      // Cache the results
-      for (const suggestion of suggestions) {
-        const recipe = await this.convertSuggestionToRecipe(suggestion);
-        await RecipeCacheModel.save(cacheKey, recipe);
+        cuisinePreference,
+        priorityIngredients,
+        customRestrictions
+      )) {
+        if (DietaryRuleEngine.blockedByCustom(suggestion, customRestrictions)) continue;
+        const [drafted] = await this.withDrafts('suggestion', [suggestion], prompt, dietaryRestrictions);
+        yield { type: 'recipe', index: suggestions.length, data: await mark(drafted) };
+        suggestions.push(drafted);
       }
 
-      return suggestions;
+      // Cache the complete streamed set
+      yield { type: 'progress', stage: 'caching', message: 'Saving results' };
+      await RecipeCacheModel.save(cacheQuery, suggestions);
+
+      yield { type: 'done', count: suggestions.length, cached: false };
     } catch (error) {
-      throw new RecipeError('Failed to get recipes by ingredients', 'SERVICE_ERROR', 500);
+      if (error instanceof AIServiceError || error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to stream recipes by ingredients', 'SERVICE_ERROR', 500);
     }
   }
 
-  // Generate recipe variations by food name
-  async getRecipeVariationsByName(
+  // Stream recipe variations by food name
+  async *streamRecipeVariationsByName(
     foodName: string,
     dietaryRestrictions: DietaryRestriction[] = [],
     servingSize: number = 4,
-    userId?: string
-  ): Promise<RecipeVariation[]> {
+    userId?: string,
+    householdId?: string
+  ): AsyncGenerator<RecipeStreamEvent<Drafted<RecipeVariation>>> {
     try {
-      // Add user's dietary restrictions if userId provided
-      if (userId) {
-        const userRestrictions = await DietaryProfileModel.getAllRestrictions(userId);
-        dietaryRestrictions = [...new Set([...dietaryRestrictions, ...userRestrictions])];
-      }
+      // Add the user's and household members' dietary restrictions
+      dietaryRestrictions = [...new Set([...dietaryRestrictions, ...await dietaryService.restrictions(userId, householdId)])];
+      const customRestrictions = await dietaryService.customRestrictions(userId, householdId);
+      const prompt: RecipeDraftPrompt = { foodName, servingSize };
 
-      // Check cache first
-      const cacheKey = RecipeCacheModel.generateCacheKey(
+      yield { type: 'progress', stage: 'cache_lookup', message: 'Checking recipe cache' };
+      const cacheQuery = RecipeCacheModel.buildQuery(
         'foodName',
-        { foodName, servingSize },
+        { foodName, servingSize, customRestrictions },
         dietaryRestrictions
       );
 
-      const cachedResult = await RecipeCacheModel.get(cacheKey);
+      const mark = await dietaryService.allergenMarker(userId, householdId);
+      const cachedResult = await RecipeCacheModel.get<RecipeVariation>(cacheQuery);
       if (cachedResult) {
-        // Convert cached recipe to variations format
-        return [this.convertRecipeToVariation(cachedResult)];
+        const drafted = await this.withDrafts('variation', cachedResult, prompt, dietaryRestrictions);
+        for (const [index, variation] of drafted.entries()) {
+          yield { type: 'recipe', index, data: await mark(variation) };
+        }
+        yield { type: 'done', count: cachedResult.length, cached: true };
+        return;
       }
 
-      // Generate new variations using AI
-      const variations = await aiService.generateRecipeVariations(
+      yield { type: 'progress', stage: 'generating', message: 'Generating variations' };
+      const variations: Drafted<RecipeVariation>[] = [];
+      for await (const variation of aiService.streamRecipeVariations(
         foodName,
         dietaryRestrictions,
-        servingSize
-      );
+        servingSize,
+        customRestrictions
+      )) {
+        if (DietaryRuleEngine.blockedByCustom(variation, customRestrictions)) continue;
+        const [drafted] = await this.withDrafts('variation', [variation], prompt, dietaryRestrictions);
+        yield { type: 'recipe', index: variations.length, data: await mark(drafted) };
+        variations.push(drafted);
+      }
+
+      // Cache the complete streamed set
+      yield { type: 'progress', stage: 'caching', message: 'Saving results' };
+      await RecipeCacheModel.save(cacheQuery, variations);
+
+      yield { type: 'done', count: variations.length, cached: false };
+    } catch (error) {
+      if (error instanceof AIServiceError || error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to stream recipe variations', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  async getDraft(id: string): Promise<RecipeDraft> {
+    const draft = await RecipeDraftModel.findById(id);
+    if (!draft) {
+      throw new RecipeError('Recipe draft not found', 'NOT_FOUND', 404);
+    }
+
+    return draft;
+  }
+
+  // Scale a draft's ingredients for a different serving size (the draft itself is unchanged)
+  async scaleDraft(id: string, newServingSize: number): Promise<RecipeDraft> {
+    const draft = await this.getDraft(id);
+
+    return {
+      ...draft,
+      recipe: {
+        ...draft.recipe,
+        ingredients: RecipeModel.scaleIngredients(draft.recipe.ingredients, draft.servingSize, newServingSize)
+      },
+      servingSize: newServingSize
+    };
+  }
+
+  // Substitutions for one of a draft's ingredients; the draft is the recipe context unless one is given
+  async getDraftSubstitutions(
+    id: string,
+    request: Omit<SubstituteIngredientRequest, 'recipeContext'> & { recipeContext?: string }
+  ): Promise<IngredientSubstitution[]> {
+    const draft = await this.getDraft(id);
 
-      // Cache the results
-      for (const variation of variations) {
-        const recipe = await this.convertVariationToRecipe(variation);
-        await RecipeCacheModel.save(cacheKey, recipe);
+    return this.getIngredientSubstitutions({
+      ...request,
+      recipeContext: request.recipeContext || `${draft.recipe.name}: ${draft.recipe.description}`
+    });
+  }
+
+  // Save a draft as a stored recipe, keeping its generated instructions; promoting it again returns that recipe
+  async promoteDraft(id: string, userId?: string): Promise<{ recipe: Recipe; created: boolean }> {
+    try {
+      const draft = await this.getDraft(id);
+
+      if (draft.promotedRecipeId) {
+        const promoted = await RecipeModel.findById(draft.promotedRecipeId);
+        if (promoted) return { recipe: promoted, created: false };
       }
 
-      return variations;
+      const { recipe: generated, servingSize } = draft;
+      const suggestion = draft.kind === 'suggestion' ? generated as RecipeSuggestion : null;
+      const ingredients = await IngredientCatalogModel.annotate(generated.ingredients);
+
+      // Calculate nutritional information, with the AI covering ingredients the nutrient table cannot
+      const { nutrition } = await nutritionService.calculate({ name: generated.name, ingredients, servingSize });
+      const nutritionalInfo = nutrition || undefined;
+
+      const recipe = await this.createRecipe({
+        name: generated.name,
+        description: generated.description,
+        ingredients,
+        instructions: generated.instructions,
+        servingSize,
+        cookingTime: generated.cookingTime,
+        difficulty: generated.difficulty,
+        cuisine: suggestion?.cuisine || '',
+        tags: suggestion?.tags || [],
+        // Keep only the dietary claims the rule engine does not contradict; variations claim what they were asked for
+        dietaryCompatibility: DietaryRuleEngine.confirmed(
+          { ingredients, instructions: generated.instructions, nutritionalInfo },
+          suggestion ? suggestion.dietaryCompatibility : draft.source.dietaryRestrictions,
+          await IngredientCatalogModel.allergensFor(ingredients)
+        ),
+        nutritionalInfo
+      }, { author: userId, reason: 'Promoted from draft' });
+
+      await RecipeDraftModel.markPromoted(draft.id, recipe.id);
+
+      return { recipe, created: true };
     } catch (error) {
-      throw new RecipeError('Failed to get recipe variations', 'SERVICE_ERROR', 500);
+      if (error instanceof AIServiceError || error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to promote recipe draft', 'SERVICE_ERROR', 500);
     }
   }
 
@@ -124,25 +458,30 @@ export class RecipeService {
         suggestion.ingredients.length > 0 ? suggestion.ingredients[0].amount : 4
       );
 
-      // Generate nutritional information
-      const nutritionalInfo = await aiService.generateNutritionalInfo(
-        suggestion.name,
-        suggestion.ingredients.map(i => i.name),
-        suggestion.ingredients.length > 0 ? suggestion.ingredients[0].amount : 4
-      );
+      const servingSize = suggestion.ingredients.length > 0 ? suggestion.ingredients[0].amount : 4;
+      const ingredients = await IngredientCatalogModel.annotate(suggestion.ingredients);
+
+      // Calculate nutritional information, with the AI covering ingredients the nutrient table cannot
+      const { nutrition } = await nutritionService.calculate({ name: suggestion.name, ingredients, servingSize });
+      const nutritionalInfo = nutrition || undefined;
 
       // Create recipe object
-      const recipe: Omit<Recipe, 'id' | 'createdAt' | 'updatedAt' | 'popularity'> = {
+      const recipe: RecipeInput = {
         name: suggestion.name,
         description: suggestion.description,
-        ingredients: suggestion.ingredients,
+        ingredients,
         instructions: instructionData.instructions,
-        servingSize: suggestion.ingredients.length > 0 ? suggestion.ingredients[0].amount : 4,
+        servingSize,
         cookingTime: instructionData.cookingTime,
         difficulty: instructionData.difficulty,
         cuisine: suggestion.cuisine,
         tags: suggestion.tags,
-        dietaryCompatibility: suggestion.dietaryCompatibility,
+        // Keep only the AI's dietary claims that the rule engine does not contradict
+        dietaryCompatibility: DietaryRuleEngine.confirmed(
+          { ingredients, instructions: instructionData.instructions, nutritionalInfo },
+          suggestion.dietaryCompatibility,
+          await IngredientCatalogModel.allergensFor(ingredients)
+        ),
         nutritionalInfo
       };
 
@@ -150,18 +489,177 @@ export class RecipeService {
       const savedRecipe = await RecipeModel.create(recipe);
 
       // Save nutritional information separately
-      await NutritionModel.saveNutrition(
-        savedRecipe.id,
-        savedRecipe.servingSize,
-        nutritionalInfo
+      if (nutritionalInfo) {
+        await NutritionModel.saveNutrition(
+          savedRecipe.id,
+          savedRecipe.servingSize,
+          nutritionalInfo
+        );
+      }
+
+      await RecipeVersionModel.record(
+        { ...savedRecipe, nutritionalInfo },
+        { author: userId, reason: 'Generated from suggestion' }
       );
 
       return savedRecipe;
     } catch (error) {
+      if (error instanceof AIServiceError) throw error;
       throw new RecipeError('Failed to create detailed recipe', 'SERVICE_ERROR', 500);
     }
   }
 
+  // Create a user-authored recipe; without given nutrition it is calculated from the local nutrient table
+  async createRecipe(recipeData: RecipeInput, meta: RecipeChangeMeta = {}): Promise<Recipe> {
+    try {
+      const ingredients = await IngredientCatalogModel.annotate(recipeData.ingredients);
+      const nutritionalInfo = recipeData.nutritionalInfo
+        || (await nutritionService.calculate({ ...recipeData, ingredients }, false)).nutrition
+        || undefined;
+      // Keep only the client's dietary claims that the rule engine does not contradict
+      const dietaryCompatibility = DietaryRuleEngine.confirmed(
+        { ingredients, instructions: recipeData.instructions, nutritionalInfo },
+        recipeData.dietaryCompatibility,
+        await IngredientCatalogModel.allergensFor(ingredients)
+      );
+
+      const savedRecipe = await RecipeModel.create({ ...recipeData, ingredients, nutritionalInfo, dietaryCompatibility });
+
+      if (nutritionalInfo) {
+        await NutritionModel.saveNutrition(savedRecipe.id, savedRecipe.servingSize, nutritionalInfo);
+      }
+
+      await RecipeVersionModel.record(savedRecipe, {
+        author: meta.author,
+        reason: meta.reason || 'Created'
+      });
+
+      return savedRecipe;
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to create recipe', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Update a stored recipe (full replacement or partial patch), recording the result as a new version
+  async updateRecipe(
+    id: string,
+    updates: Partial<RecipeInput>,
+    meta: RecipeChangeMeta = {}
+  ): Promise<Recipe> {
+    try {
+      const existing = await RecipeModel.findById(id);
+      if (!existing) {
+        throw new RecipeError('Recipe not found', 'NOT_FOUND', 404);
+      }
+
+      // Recipes created before version history have no snapshot of their original state yet
+      existing.nutritionalInfo = (await NutritionModel.getNutrition(id)) || undefined;
+      await RecipeVersionModel.ensureBaseline(existing);
+
+      if (updates.ingredients) {
+        updates = { ...updates, ingredients: await IngredientCatalogModel.annotate(updates.ingredients) };
+      }
+
+      const updatedRecipe = await RecipeModel.update(id, updates);
+      let nutritionalInfo = updates.nutritionalInfo;
+
+      // Calculated nutrition follows ingredient and serving changes; hand-entered numbers are left alone
+      const previousMethod = existing.nutritionalInfo?.method;
+      if (!nutritionalInfo && (updates.ingredients || updates.servingSize)
+        && (!existing.nutritionalInfo || (previousMethod && previousMethod !== 'manual'))) {
+        const useAI = previousMethod === 'ai' || previousMethod === 'local+ai';
+        nutritionalInfo = (await nutritionService.calculate(updatedRecipe, useAI)).nutrition || undefined;
+      }
+
+      if (nutritionalInfo) {
+        await NutritionModel.saveNutrition(id, updatedRecipe.servingSize, nutritionalInfo);
+        updatedRecipe.nutritionalInfo = nutritionalInfo;
+      } else {
+        updatedRecipe.nutritionalInfo = existing.nutritionalInfo;
+      }
+
+      await RecipeVersionModel.record(updatedRecipe, meta);
+
+      return updatedRecipe;
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to update recipe', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Delete a stored recipe
+  async deleteRecipe(id: string): Promise<void> {
+    try {
+      await RecipeModel.delete(id);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to delete recipe', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // List the version history of a recipe, newest first
+  async getRecipeVersions(recipeId: string): Promise<RecipeVersion[]> {
+    try {
+      const recipe = await RecipeModel.findById(recipeId);
+      if (!recipe) {
+        throw new RecipeError('Recipe not found', 'NOT_FOUND', 404);
+      }
+
+      return await RecipeVersionModel.findByRecipeId(recipeId);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to get recipe versions', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Get a single version of a recipe
+  async getRecipeVersion(recipeId: string, version: number): Promise<RecipeVersion> {
+    try {
+      const found = await RecipeVersionModel.findVersion(recipeId, version);
+      if (!found) {
+        throw new RecipeError('Recipe version not found', 'NOT_FOUND', 404);
+      }
+
+      return found;
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to get recipe version', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // Restore a previous version; the restored state is appended as a new version
+  async restoreRecipeVersion(
+    recipeId: string,
+    version: number,
+    meta: RecipeChangeMeta = {}
+  ): Promise<Recipe> {
+    const target = await this.getRecipeVersion(recipeId, version);
+
+    return this.updateRecipe(recipeId, target.snapshot, {
+      author: meta.author,
+      reason: meta.reason || `Restored version ${version}`
+    });
+  }
+
+  // Structured diff between two versions of a recipe
+  async diffRecipeVersions(recipeId: string, fromVersion: number, toVersion: number): Promise<RecipeVersionDiff> {
+    const from = await this.getRecipeVersion(recipeId, fromVersion);
+    const to = await this.getRecipeVersion(recipeId, toVersion);
+
+    return RecipeDiffUtils.diff(from, to);
+  }
+
+  // List stored recipes with filters, sorting and cursor pagination
+  async listRecipes(options: RecipeListOptions): Promise<PaginatedResult<Recipe>> {
+    try {
+      return await RecipeModel.list(options);
+    } catch (error) {
+      if (error instanceof RecipeError || error instanceof ValidationError) throw error;
+      throw new RecipeError('Failed to list recipes', 'SERVICE_ERROR', 500);
+    }
+  }
+
   // Scale recipe for different serving sizes
   async scaleRecipe(request: ScaleRecipeRequest): Promise<Recipe> {
     try {
@@ -205,14 +703,23 @@ export class RecipeService {
     }
   }
 
-  // Get ingredient substitutions
+  // Get ingredient substitutions; substitutes the user's custom restrictions block are left out
   async getIngredientSubstitutions(request: SubstituteIngredientRequest): Promise<IngredientSubstitution[]> {
     try {
+      // Cache under the catalog's canonical name so "Eggs" and "2 large eggs" share entries
+      const { entry } = await IngredientCatalogModel.match(request.ingredient);
+      const cacheKey = entry ? entry.canonicalName : request.ingredient;
+      const customRestrictions = await dietaryService.customRestrictions(request.userId);
+      const allowed = (substitution: IngredientSubstitution) => !DietaryRuleEngine.blockedByCustom(
+        { ingredients: [{ name: substitution.substitute, amount: 0, unit: '' }], instructions: [] },
+        customRestrictions
+      );
+
       // Check cache first
-      const cachedSubstitutions = await IngredientSubstitutionModel.getSubstitutions(
-        request.ingredient,
+      const cachedSubstitutions = (await IngredientSubstitutionModel.getSubstitutions(
+        cacheKey,
         request.dietaryRestrictions[0] // Use first restriction for cache lookup
-      );
+      )).filter(allowed);
 
       if (cachedSubstitutions.length > 0) {
         return cachedSubstitutions;
@@ -222,13 +729,14 @@ export class RecipeService {
       const substitutions = await aiService.generateIngredientSubstitutions(
         request.ingredient,
         request.dietaryRestrictions,
-        request.recipeContext
+        request.recipeContext,
+        customRestrictions
       );
 
       // Cache the substitutions
       for (const substitution of substitutions) {
         await IngredientSubstitutionModel.saveSubstitution(
-          request.ingredient,
+          cacheKey,
           substitution.substitute,
           substitution.dietaryRestriction,
           substitution.ratio,
@@ -239,70 +747,241 @@ export class RecipeService {
         );
       }
 
-      return substitutions;
+      return substitutions.filter(allowed);
     } catch (error) {
+      if (error instanceof AIServiceError) throw error;
       throw new RecipeError('Failed to get ingredient substitutions', 'SERVICE_ERROR', 500);
     }
   }
 
-  // Analyze dietary compatibility
-  async analyzeDietaryCompatibility(request: AnalyzeDietaryRequest): Promise<{
-    compatible: boolean;
-    issues: string[];
-    suggestions: string[];
-  }> {
+  // Analyze dietary compatibility with the rule engine; the AI, when asked, only adds a second opinion
+  async analyzeDietaryCompatibility(request: AnalyzeDietaryRequest, useAI: boolean = true): Promise<DietaryAnalysis> {
     try {
-      const analysis = await aiService.analyzeDietaryCompatibility(
-        request.recipe.name,
-        request.recipe.ingredients.map(i => i.name),
-        request.recipe.instructions,
-        request.dietaryRestrictions
-      );
+      const { recipe, dietaryRestrictions } = request;
+      const nutritionalInfo = recipe.nutritionalInfo
+        || (recipe.id && await NutritionModel.getNutrition(recipe.id))
+        || (await nutritionService.calculate(recipe, false)).nutrition
+        || undefined;
+      const allergens = await IngredientCatalogModel.allergensFor(recipe.ingredients);
+
+      const verdicts = DietaryRuleEngine.analyze({ ...recipe, nutritionalInfo }, dietaryRestrictions, allergens);
+      const rules = DietaryRuleEngine.summarize(verdicts);
+      const risk = DietaryRuleEngine.worstRisk(verdicts.map(verdict => verdict.risk));
+
+      if (!useAI) return { ...rules, risk, verdicts, method: 'rules' };
+
+      try {
+        const opinion = await aiService.analyzeDietaryCompatibility(
+          recipe.name,
+          recipe.ingredients.map(i => i.name),
+          recipe.instructions,
+          dietaryRestrictions
+        );
+
+        // AI risks can only add "may contain" findings, so the rules still decide compatibility
+        const merged = DietaryRuleEngine.withSecondOpinion(verdicts, opinion.risks);
+        const summary = DietaryRuleEngine.summarize(merged);
 
-      return analysis;
+        return {
+          ...summary,
+          suggestions: [...new Set([...summary.suggestions, ...opinion.suggestions])],
+          risk: DietaryRuleEngine.worstRisk(merged.map(verdict => verdict.risk)),
+          verdicts: merged,
+          method: 'rules+ai',
+          secondOpinion: { ...opinion, agrees: opinion.compatible === rules.compatible }
+        };
+      } catch (error) {
+        // The rule verdicts stand on their own
+        if (!(error instanceof AIServiceError)) throw error;
+        console.warn(`AI dietary analysis failed for ${recipe.name}:`, error.message);
+        return { ...rules, risk, verdicts, method: 'rules' };
+      }
     } catch (error) {
+      if (error instanceof RecipeError) throw error;
       throw new RecipeError('Failed to analyze dietary compatibility', 'SERVICE_ERROR', 500);
     }
   }
 
+  // Analyze a stored recipe against the given restrictions plus the user's; every restriction when neither is given
+  async analyzeStoredRecipe(
+    recipeId: string,
+    dietaryRestrictions: DietaryRestriction[] = [],
+    userId?: string,
+    useAI: boolean = true
+  ): Promise<DietaryAnalysis> {
+    const recipe = await RecipeModel.findById(recipeId);
+    if (!recipe) {
+      throw new RecipeError('Recipe not found', 'NOT_FOUND', 404);
+    }
+
+    if (userId) {
+      const userRestrictions = await DietaryProfileModel.getAllRestrictions(userId);
+      dietaryRestrictions = [...new Set([...dietaryRestrictions, ...userRestrictions])];
+    }
+
+    if (dietaryRestrictions.length === 0) {
+      dietaryRestrictions = Object.values(DietaryRestriction);
+    }
+
+    return this.analyzeDietaryCompatibility({ recipe, dietaryRestrictions }, useAI);
+  }
+
   // Get popular recipes with dietary filtering
   async getPopularRecipes(
     limit: number = 10,
     dietaryRestrictions: DietaryRestriction[] = [],
-    userId?: string
+    userId?: string,
+    sort: PopularSort = 'popularity',
+    householdId?: string
   ): Promise<Recipe[]> {
     try {
-      // Add user's dietary restrictions if userId provided
-      if (userId) {
-        const userRestrictions = await DietaryProfileModel.getAllRestrictions(userId);
-        dietaryRestrictions = [...new Set([...dietaryRestrictions, ...userRestrictions])];
+      if (!userId && !householdId) {
+        return await RecipeModel.getPopular(limit, dietaryRestrictions, sort === 'fit' ? 'popularity' : sort);
+      }
+
+      // Add the user's and household members' dietary restrictions; recipes are scored against the user's goals
+      dietaryRestrictions = [...new Set([...dietaryRestrictions, ...await dietaryService.restrictions(userId, householdId)])];
+      const customRestrictions = await dietaryService.customRestrictions(userId, householdId);
+
+      if (sort === 'fit' && userId) {
+        const pool = await dietaryService.excludeBlocked(
+          await RecipeModel.getPopular(FIT_CANDIDATE_LIMIT, dietaryRestrictions, 'popularity'),
+          customRestrictions
+        );
+        const scored = await nutritionService.scoreForUser(pool, userId);
+        return await dietaryService.markAllergenSafety(
+          nutritionService.rankByFit(scored).slice(0, limit),
+          userId,
+          householdId
+        );
       }
 
-      return await RecipeModel.getPopular(limit, dietaryRestrictions);
+      // Custom restrictions are checked in code, so draw from a larger pool to still fill the limit
+      const order = sort === 'fit' ? 'popularity' : sort;
+      const recipes = customRestrictions.length > 0
+        ? (await dietaryService.excludeBlocked(
+          await RecipeModel.getPopular(FIT_CANDIDATE_LIMIT, dietaryRestrictions, order),
+          customRestrictions
+        )).slice(0, limit)
+        : await RecipeModel.getPopular(limit, dietaryRestrictions, order);
+      const scored: Recipe[] = userId ? await nutritionService.scoreForUser(recipes, userId) : recipes;
+      return await dietaryService.markAllergenSafety(scored, userId, householdId);
     } catch (error) {
+      if (error instanceof RecipeError) throw error;
       throw new RecipeError('Failed to get popular recipes', 'SERVICE_ERROR', 500);
     }
   }
 
-  // Search recipes with dietary filtering
-  async searchRecipes(
-    query: string,
-    dietaryRestrictions: DietaryRestriction[] = [],
-    userId?: string
-  ): Promise<Recipe[]> {
+  // Full-text search with dietary filtering, ranking, snippets and facets
+  async searchRecipes(options: RecipeSearchOptions, userId?: string, householdId?: string): Promise<RecipeSearchResult> {
     try {
-      // Add user's dietary restrictions if userId provided
-      if (userId) {
-        const userRestrictions = await DietaryProfileModel.getAllRestrictions(userId);
-        dietaryRestrictions = [...new Set([...dietaryRestrictions, ...userRestrictions])];
+      let dietaryRestrictions = options.dietaryRestrictions;
+
+      if (!userId && !householdId) {
+        return await RecipeModel.search({ ...options, dietaryRestrictions });
       }
 
-      return await RecipeModel.findByName(query, dietaryRestrictions);
+      // Add the user's and household members' dietary restrictions
+      dietaryRestrictions = [...new Set([...dietaryRestrictions, ...await dietaryService.restrictions(userId, householdId)])];
+      const customRestrictions = await dietaryService.customRestrictions(userId, householdId);
+      const score = async <T extends Recipe>(hits: T[]): Promise<T[]> =>
+        userId ? nutritionService.scoreForUser(hits, userId) : hits;
+
+      // Sorting by fit ranks only the most relevant matches, so total is capped at that pool (less blocked recipes)
+      // and pages past it are empty. Sorting by fit always comes with a userId (the route requires one)
+      if (options.sort === 'fit' && userId) {
+        const result = await RecipeModel.search({ ...options, dietaryRestrictions, limit: FIT_CANDIDATE_LIMIT, offset: 0 });
+        const allowed = await dietaryService.excludeBlocked(result.hits, customRestrictions);
+        const ranked = nutritionService.rankByFit(await nutritionService.scoreForUser(allowed, userId));
+        const hits = ranked.slice(options.offset, options.offset + options.limit);
+        return {
+          ...result,
+          total: allowed.length,
+          hits: await dietaryService.markAllergenSafety(hits, userId, householdId)
+        };
+      }
+
+      // Custom restrictions are checked here rather than in SQL, so read matches in batches until the page is
+      // filled. Blocked recipes past the last batch read are still counted in total
+      if (customRestrictions.length > 0) {
+        const allowed: RecipeSearchHit[] = [];
+        let scanned = 0;
+        let excluded = 0;
+        let result: RecipeSearchResult;
+
+        do {
+          result = await RecipeModel.search({ ...options, dietaryRestrictions, limit: FIT_CANDIDATE_LIMIT, offset: scanned });
+          const batch = await dietaryService.excludeBlocked(result.hits, customRestrictions);
+          allowed.push(...batch);
+          scanned += result.hits.length;
+          excluded += result.hits.length - batch.length;
+        } while (allowed.length < options.offset + options.limit && result.hits.length > 0 && scanned < result.total);
+
+        const hits = await score(allowed.slice(options.offset, options.offset + options.limit));
+        return {
+          ...result,
+          total: result.total - excluded,
+          hits: await dietaryService.markAllergenSafety(hits, userId, householdId)
+        };
+      }
+
+      const result = await RecipeModel.search({ ...options, dietaryRestrictions });
+      const hits = await score(result.hits);
+      return { ...result, hits: await dietaryService.markAllergenSafety(hits, userId, householdId) };
     } catch (error) {
+      if (error instanceof ValidationError || error instanceof RecipeError) throw error;
       throw new RecipeError('Failed to search recipes', 'SERVICE_ERROR', 500);
     }
   }
 
+  // Log that a user cooked a recipe, storing the ingredient quantities for the servings made
+  async recordCooked(recipeId: string, request: CookedRequest): Promise<CookingHistoryEntry> {
+    try {
+      const recipe = await RecipeModel.findById(recipeId);
+      if (!recipe) {
+        throw new RecipeError('Recipe not found', 'NOT_FOUND', 404);
+      }
+
+      const servings = request.servings || recipe.servingSize;
+
+      const entry = await CookingHistoryModel.create({
+        userId: request.userId,
+        recipeId: recipe.id,
+        recipeName: recipe.name,
+        cuisine: recipe.cuisine,
+        servings,
+        cookedOn: request.cookedOn || new Date().toISOString().slice(0, 10),
+        notes: request.notes,
+        ingredients: ScalingUtils.scaleIngredients(recipe.ingredients, recipe.servingSize, servings)
+      });
+
+      await RecipeModel.incrementCookCount(recipe.id);
+
+      return entry;
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to record cooked recipe', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  // A user's cooking timeline with per-cuisine and per-week stats
+  async getCookingHistory(
+    userId: string,
+    options: { from?: string; to?: string; limit?: number } = {}
+  ): Promise<{ entries: CookingHistoryEntry[]; stats: CookingHistoryStats }> {
+    try {
+      const [entries, stats] = await Promise.all([
+        CookingHistoryModel.findByUserId(userId, options),
+        CookingHistoryModel.getStats(userId, options)
+      ]);
+
+      return { entries, stats };
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to get cooking history', 'SERVICE_ERROR', 500);
+    }
+  }
+
   // Get recipe with nutritional information
   async getRecipeWithNutrition(recipeId: string, servingSize?: number): Promise<Recipe | null> {
     try {
@@ -324,74 +1003,32 @@ export class RecipeService {
     }
   }
 
-  // Helper methods
-  private convertRecipeToSuggestion(recipe: Recipe): RecipeSuggestion {
-    return {
-      name: recipe.name,
-      description: recipe.description,
-      ingredients: recipe.ingredients,
-      instructions: recipe.instructions,
-      cookingTime: recipe.cookingTime,
-      difficulty: recipe.difficulty,
-      cuisine: recipe.cuisine,
-      tags: recipe.tags,
-      nutritionalHighlights: [], // Default empty array
-      dietaryCompatibility: recipe.dietaryCompatibility,
-      confidence: 0.8 // Default confidence
-    };
-  }
+  // Save each generated item as a draft; items cached along with their draft keep it
+  private async withDrafts<T extends RecipeSuggestion | RecipeVariation>(
+    kind: RecipeDraftKind,
+    items: T[],
+    prompt: RecipeDraftPrompt,
+    dietaryRestrictions: DietaryRestriction[]
+  ): Promise<Drafted<T>[]> {
+    const drafted: Drafted<T>[] = [];
 
-  private async convertSuggestionToRecipe(suggestion: RecipeSuggestion): Promise<Recipe> {
-    const now = new Date();
-    return {
-      id: '', // Will be set when saved
-      name: suggestion.name,
-      description: suggestion.description,
-      ingredients: suggestion.ingredients,
-      instructions: [], // Will be generated when needed
-      servingSize: 4, // Default
-      cookingTime: suggestion.cookingTime,
-      difficulty: suggestion.difficulty,
-      cuisine: suggestion.cuisine,
-      tags: suggestion.tags,
-      dietaryCompatibility: suggestion.dietaryCompatibility,
-      createdAt: now,
-      updatedAt: now,
-      popularity: 0
-    };
-  }
+    for (const item of items) {
+      if ('id' in item && 'source' in item) {
+        drafted.push(item as Drafted<T>);
+        continue;
+      }
 
-  private convertRecipeToVariation(recipe: Recipe): RecipeVariation {
-    return {
-      name: recipe.name,
-      description: recipe.description,
-      variation: 'Cached version',
-      ingredients: recipe.ingredients,
-      instructions: recipe.instructions,
-      cookingTime: recipe.cookingTime,
-      difficulty: recipe.difficulty,
-      uniqueFeatures: recipe.tags
-    };
-  }
+      const draft = await RecipeDraftModel.create(kind, item, {
+        prompt,
+        provider: aiService.providerName,
+        model: aiService.modelName,
+        dietaryRestrictions,
+        generatedAt: new Date()
+      });
+      drafted.push({ ...item, id: draft.id, source: draft.source });
+    }
 
-  private async convertVariationToRecipe(variation: RecipeVariation): Promise<Recipe> {
-    const now = new Date();
-    return {
-      id: '', // Will be set when saved
-      name: variation.name,
-      description: variation.description,
-      ingredients: variation.ingredients,
-      instructions: variation.instructions,
-      servingSize: 4, // Default
-      cookingTime: variation.cookingTime,
-      difficulty: variation.difficulty,
-      cuisine: variation.culturalContext || 'International',
-      tags: variation.uniqueFeatures || [],
-      dietaryCompatibility: [], // Will be determined by AI analysis
-      createdAt: now,
-      updatedAt: now,
-      popularity: 0
-    };
+    return drafted;
   }
 }
 
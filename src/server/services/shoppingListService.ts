@@ -0,0 +1,118 @@
+import { RecipeModel } from '../models/Recipe';
+import { MealPlanModel } from '../models/MealPlan';
+import { ShoppingListModel } from '../models/ShoppingList';
+import { IngredientCatalogModel } from '../models/IngredientCatalog';
+import { ShoppingListBuilder } from '../utils/shoppingList';
+import {
+  CreateShoppingListRequest,
+  Ingredient,
+  Recipe,
+  ShoppingList,
+  ShoppingListItem,
+  ShoppingListRecipe,
+  RecipeError
+} from '../../types';
+
+export class ShoppingListService {
+  // Build a list from recipes (or a meal plan's recipes), minus what is on hand, and save it
+  async createList(request: CreateShoppingListRequest): Promise<ShoppingList> {
+    try {
+      let requested: ShoppingListRecipe[] = request.recipes || [];
+      let defaultName = `Shopping list ${new Date().toISOString().slice(0, 10)}`;
+
+      if (request.mealPlanId) {
+        const plan = await MealPlanModel.findById(request.mealPlanId);
+        if (!plan) {
+          throw new RecipeError('Meal plan not found', 'NOT_FOUND', 404);
+        }
+
+        // Entries are portions of one serving; entries whose recipe was deleted are skipped
+        requested = requested.concat(plan.entries
+          .filter(entry => entry.recipeId)
+          .map(entry => ({ recipeId: entry.recipeId!, servings: entry.servings })));
+        defaultName = `Meal plan week of ${plan.weekStart}`;
+      }
+
+      const sources = await this.resolveRecipes(requested);
+      const onHand = await this.canonicalize(request.onHand || []);
+      const items = ShoppingListBuilder.aggregate(sources, onHand);
+
+      return await ShoppingListModel.create({
+        userId: request.userId,
+        name: request.name || defaultName,
+        mealPlanId: request.mealPlanId
+      }, items);
+    } catch (error) {
+      if (error instanceof RecipeError) throw error;
+      throw new RecipeError('Failed to create shopping list', 'SERVICE_ERROR', 500);
+    }
+  }
+
+  async getList(id: string): Promise<ShoppingList> {
+    const list = await ShoppingListModel.findById(id);
+    if (!list) {
+      throw new RecipeError('Shopping list not found', 'NOT_FOUND', 404);
+    }
+    return list;
+  }
+
+  async listForUser(userId: string): Promise<ShoppingList[]> {
+    return ShoppingListModel.findByUserId(userId);
+  }
+
+  async setItemChecked(listId: string, itemId: string, checked: boolean): Promise<ShoppingListItem> {
+    return ShoppingListModel.setChecked(listId, itemId, checked);
+  }
+
+  async deleteList(id: string): Promise<void> {
+    await ShoppingListModel.delete(id);
+  }
+
+  async exportList(id: string, format: 'text' | 'csv'): Promise<{ list: ShoppingList; content: string }> {
+    const list = await this.getList(id);
+    const content = format === 'csv' ? ShoppingListBuilder.toCsv(list) : ShoppingListBuilder.toText(list);
+    return { list, content };
+  }
+
+  // Use catalog names so "2 large eggs, beaten" and "Eggs" land on the same line
+  private async canonicalize(ingredients: Ingredient[]): Promise<Ingredient[]> {
+    const result: Ingredient[] = [];
+
+    for (const ingredient of ingredients) {
+      const entry = await IngredientCatalogModel.resolve(ingredient);
+      result.push(entry ? { ...ingredient, name: entry.canonicalName } : ingredient);
+    }
+
+    return result;
+  }
+
+  // Load each recipe once and add up the servings asked for it
+  private async resolveRecipes(requested: ShoppingListRecipe[]): Promise<{ recipe: Recipe; servings: number }[]> {
+    const byId = new Map<string, { recipe: Recipe; servings: number }>();
+
+    for (const { recipeId, servings } of requested) {
+      const existing = byId.get(recipeId);
+      if (existing) {
+        existing.servings += servings || existing.recipe.servingSize;
+        continue;
+      }
+
+      const recipe = await RecipeModel.findById(recipeId);
+      if (!recipe) {
+        throw new RecipeError(`Recipe not found: ${recipeId}`, 'NOT_FOUND', 404);
+      }
+
+      recipe.ingredients = await this.canonicalize(recipe.ingredients);
+      byId.set(recipeId, { recipe, servings: servings || recipe.servingSize });
+    }
+
+    if (byId.size === 0) {
+      throw new RecipeError('No recipes to build a shopping list from', 'EMPTY_SHOPPING_LIST', 400);
+    }
+
+    return [...byId.values()];
+  }
+}
+
+// Singleton instance
+export const shoppingListService = new ShoppingListService();
@@ -1,32 +1,70 @@
 import dotenv from 'dotenv';
-import { AppConfig } from '../../types';
+import { AppConfig, AIProviderName } from '../../types';
 
 // Load environment variables
 dotenv.config();
 
+const AI_PROVIDERS: AIProviderName[] = ['openai', 'openai_compatible', 'ollama', 'mock'];
+
+// Resolve the AI provider, falling back to URL sniffing for older .env files
+const resolveAIProvider = (): AIProviderName => {
+  const provider = process.env.AI_PROVIDER?.trim().toLowerCase();
+  if (provider) return provider as AIProviderName;
+
+  const apiUrl = process.env.AI_API_URL || 'https://api.openai.com/v1';
+  return apiUrl.includes('openai.com') ? 'openai' : 'openai_compatible';
+};
+
 export const config: AppConfig = {
   port: parseInt(process.env.PORT || '3000', 10),
   nodeEnv: process.env.NODE_ENV || 'development',
   databasePath: process.env.DATABASE_PATH || './data/recipes.db',
   cacheTtlHours: parseInt(process.env.CACHE_TTL_HOURS || '24', 10),
   cacheMaxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10),
+  cacheCleanupIntervalMinutes: parseInt(process.env.CACHE_CLEANUP_INTERVAL_MINUTES || '60', 10),
+  cacheSimilarityEnabled: process.env.CACHE_SIMILARITY_ENABLED === 'true',
+  cacheSimilarityThreshold: parseFloat(process.env.CACHE_SIMILARITY_THRESHOLD || '0.8'),
+  pantryExpiringSoonDays: parseInt(process.env.PANTRY_EXPIRING_SOON_DAYS || '3', 10),
+  draftRetentionDays: parseInt(process.env.DRAFT_RETENTION_DAYS || '7', 10),
   rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
   rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3000',
+  adminApiKey: process.env.ADMIN_API_KEY || '',
+  dailyReferenceIntakes: {
+    calories: parseFloat(process.env.DV_CALORIES || '2000'),
+    fat: parseFloat(process.env.DV_FAT_G || '78'),
+    carbohydrates: parseFloat(process.env.DV_CARBOHYDRATES_G || '275'),
+    fiber: parseFloat(process.env.DV_FIBER_G || '28'),
+    protein: parseFloat(process.env.DV_PROTEIN_G || '50'),
+    sodium: parseFloat(process.env.DV_SODIUM_MG || '2300'),
+    vitaminA: parseFloat(process.env.DV_VITAMIN_A_UG || '900'),
+    vitaminC: parseFloat(process.env.DV_VITAMIN_C_MG || '90'),
+    calcium: parseFloat(process.env.DV_CALCIUM_MG || '1300'),
+    iron: parseFloat(process.env.DV_IRON_MG || '18')
+  },
   ai: {
+    provider: resolveAIProvider(),
     apiUrl: process.env.AI_API_URL || 'https://api.openai.com/v1',
     apiKey: process.env.AI_API_KEY || '',
     model: process.env.AI_MODEL || 'gpt-3.5-turbo',
     maxTokens: parseInt(process.env.AI_MAX_TOKENS || '2000', 10),
-    temperature: parseFloat(process.env.AI_TEMPERATURE || '0.7')
+    temperature: parseFloat(process.env.AI_TEMPERATURE || '0.7'),
+    timeoutMs: parseInt(process.env.AI_TIMEOUT_MS || '30000', 10),
+    maxRepairAttempts: parseInt(process.env.AI_MAX_REPAIR_ATTEMPTS || '2', 10),
+    mockFixturesPath: process.env.AI_MOCK_FIXTURES_PATH || undefined
   }
 };
 
 // Validate required configuration
 export function validateConfig(): void {
-  const requiredFields = [
-    { key: 'AI_API_KEY', value: config.ai.apiKey, name: 'AI API Key' }
-  ];
+  if (!AI_PROVIDERS.includes(config.ai.provider)) {
+    throw new Error(`AI_PROVIDER must be one of: ${AI_PROVIDERS.join(', ')}`);
+  }
+
+  // Local providers (Ollama, mock) run without credentials
+  const requiredFields = aiProviderRequiresApiKey()
+    ? [{ key: 'AI_API_KEY', value: config.ai.apiKey, name: 'AI API Key' }]
+    : [];
 
   const missingFields = requiredFields.filter(field => !field.value);
   
@@ -51,6 +89,40 @@ export function validateConfig(): void {
     throw new Error('AI_MAX_TOKENS must be between 1 and 4000');
   }
 
+  if (config.ai.timeoutMs < 1000) {
+    throw new Error('AI_TIMEOUT_MS must be at least 1000');
+  }
+
+  if (!Number.isInteger(config.ai.maxRepairAttempts) || config.ai.maxRepairAttempts < 0 || config.ai.maxRepairAttempts > 5) {
+    throw new Error('AI_MAX_REPAIR_ATTEMPTS must be a whole number between 0 and 5');
+  }
+
+  if (config.cacheTtlHours < 1) {
+    throw new Error('CACHE_TTL_HOURS must be at least 1');
+  }
+
+  if (config.cacheCleanupIntervalMinutes < 1) {
+    throw new Error('CACHE_CLEANUP_INTERVAL_MINUTES must be at least 1');
+  }
+
+  if (config.cacheSimilarityThreshold <= 0 || config.cacheSimilarityThreshold > 1) {
+    throw new Error('CACHE_SIMILARITY_THRESHOLD must be greater than 0 and at most 1');
+  }
+
+  if (config.pantryExpiringSoonDays < 0) {
+    throw new Error('PANTRY_EXPIRING_SOON_DAYS must be 0 or greater');
+  }
+
+  // Cached suggestions carry their draft ids, so drafts have to outlive the cache
+  if (config.draftRetentionDays * 24 < config.cacheTtlHours) {
+    throw new Error('DRAFT_RETENTION_DAYS must cover CACHE_TTL_HOURS');
+  }
+
+  const invalidIntake = Object.entries(config.dailyReferenceIntakes).find(([, value]) => !(value > 0));
+  if (invalidIntake) {
+    throw new Error(`Daily reference intake for ${invalidIntake[0]} must be greater than 0`);
+  }
+
   if (config.port < 1 || config.port > 65535) {
     throw new Error('PORT must be between 1 and 65535');
   }
@@ -74,6 +146,12 @@ export const getDatabaseConfig = () => ({
 });
 
 // AI service configuration helpers
+export const aiProviderRequiresApiKey = (): boolean =>
+  config.ai.provider === 'openai' || config.ai.provider === 'openai_compatible';
+
+export const isAIConfigured = (): boolean =>
+  !aiProviderRequiresApiKey() || !!(config.ai.apiKey && config.ai.apiUrl);
+
 export const getAIHeaders = () => ({
   'Authorization': `Bearer ${config.ai.apiKey}`,
   'Content-Type': 'application/json'
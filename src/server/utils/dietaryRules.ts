@@ -0,0 +1,873 @@
+import {
+  AIDietaryRisk,
+  CustomNutrient,
+  CustomRestriction,
+  CustomRestrictionVerdict,
+  DietaryFinding,
+  DietaryFindingKind,
+  DietaryOpinion,
+  DietaryRestriction,
+  DietaryRiskLevel,
+  DietaryVerdict,
+  DietaryVerdictStatus,
+  Ingredient,
+  NutritionalInfo
+} from '../../types';
+
+const {
+  NUTS, DAIRY, GLUTEN, SHELLFISH, EGGS, SOY, FISH,
+  VEGETARIAN, VEGAN, PESCATARIAN, KETO, PALEO, MEDITERRANEAN,
+  DIABETIC_FRIENDLY, LOW_SODIUM, HEART_HEALTHY, LOW_CHOLESTEROL,
+  HALAL, KOSHER, HINDU_VEGETARIAN
+} = DietaryRestriction;
+
+type GroupName =
+  | 'pork' | 'meat' | 'poultry' | 'fish' | 'shellfish' | 'dairy' | 'eggs' | 'gluten' | 'nuts' | 'soy'
+  | 'honey' | 'alcohol' | 'alliums' | 'grains' | 'legumes' | 'sugars' | 'starches' | 'highSodium' | 'saturatedFat' | 'processed';
+
+type NutrientLimit = { nutrient: CustomNutrient; max: number; unit: string };
+
+interface TermGroup {
+  label: string;
+  allergen?: DietaryRestriction; // catalog allergen that means an ingredient belongs to this group
+  terms: string[];
+  hidden?: Record<string, string>; // ingredients that contain the group without naming it, and why
+  likely?: Record<string, string>; // ingredients that usually contain the group
+  caution?: Record<string, string>; // ingredients that often, but not always, contain the group
+  except?: string[]; // phrases that contain a term but are not in the group, e.g. "coconut milk"
+  safe?: string[]; // qualifiers that clear the whole line, e.g. "dairy free"
+  swap?: string;
+}
+
+interface RestrictionRule {
+  groups: GroupName[];
+  cautionGroups?: GroupName[]; // groups that only warrant a caution for this restriction
+  cautionReason?: string;
+  mixed?: [GroupName[], GroupName[], string]; // groups that must not appear together
+  limits?: NutrientLimit[]; // per serving
+}
+
+interface Match {
+  term: string;
+  kind: 'ingredient' | 'hidden' | 'likely' | 'catalog' | 'caution' | 'cross_contact';
+  reason?: string;
+  ingredient?: string;
+  step?: number;
+  product?: string;
+}
+
+export interface DietaryRuleInput {
+  ingredients: Ingredient[];
+  instructions: string[];
+  nutritionalInfo?: NutritionalInfo;
+}
+
+export class DietaryRuleEngine {
+  /**
+   * Ingredient families shared by the restriction rules below
+   */
+  private static readonly GROUPS: Record<GroupName, TermGroup> = {
+    pork: {
+      label: 'pork',
+      terms: [
+        'pork', 'bacon', 'ham', 'lard', 'prosciutto', 'pancetta', 'guanciale', 'chorizo', 'pepperoni',
+        'salami', 'speck', 'mortadella', 'spare rib', 'pork rind', 'crackling'
+      ],
+      likely: {
+        'gelatin': 'usually made from pork or beef',
+        'gelatine': 'usually made from pork or beef',
+        'marshmallow': 'made with gelatin'
+      },
+      except: ['turkey bacon', 'beef bacon', 'vegan bacon', 'veggie bacon', 'agar gelatin'],
+      swap: 'plant-based alternatives, or agar in place of gelatin'
+    },
+    meat: {
+      label: 'meat',
+      terms: [
+        'beef', 'steak', 'veal', 'lamb', 'mutton', 'goat', 'venison', 'bison', 'rabbit', 'brisket',
+        'oxtail', 'short rib', 'meatball', 'meatloaf', 'hot dog', 'jerky', 'pastrami', 'bresaola',
+        'sausage', 'liver', 'kidney', 'tallow', 'suet', 'bone marrow', 'meat'
+      ],
+      hidden: {
+        'bone broth': 'made from animal bones',
+        'demi glace': 'made from veal stock',
+        'rennet': 'from calf stomach'
+      },
+      caution: {
+        'stock': 'may be meat-based unless labelled vegetable',
+        'broth': 'may be meat-based unless labelled vegetable',
+        'bouillon': 'may be meat-based unless labelled vegetable',
+        'parmesan': 'traditionally made with animal rennet',
+        'parmigiano': 'traditionally made with animal rennet',
+        'pecorino': 'traditionally made with animal rennet',
+        'gruyere': 'traditionally made with animal rennet'
+      },
+      except: [
+        'kidney bean', 'vegetable stock', 'vegetable broth', 'vegetable bouillon', 'veggie stock', 'veggie broth',
+        'mushroom stock', 'mushroom broth', 'vegan sausage', 'vegetarian sausage', 'plant based meat',
+        'meatless', 'lamb s lettuce', 'vegetable rennet', 'microbial rennet', 'vegetarian parmesan'
+      ],
+      swap: 'beans, lentils, tofu or mushrooms'
+    },
+    poultry: {
+      label: 'poultry',
+      terms: ['chicken', 'turkey', 'duck', 'goose', 'quail', 'pheasant', 'cornish hen', 'poultry', 'foie gras'],
+      hidden: {
+        'schmaltz': 'rendered chicken fat'
+      },
+      except: ['chicken of the woods', 'vegan chicken', 'duck sauce'],
+      swap: 'tofu, tempeh or chickpeas'
+    },
+    fish: {
+      label: 'fish',
+      allergen: FISH,
+      terms: [
+        'fish', 'salmon', 'tuna', 'cod', 'anchovy', 'sardine', 'mackerel', 'trout', 'halibut', 'tilapia',
+        'haddock', 'sea bass', 'snapper', 'swordfish', 'herring', 'catfish', 'pollock', 'sole', 'mahi mahi', 'roe', 'caviar'
+      ],
+      hidden: {
+        'fish sauce': 'made from fermented fish',
+        'nam pla': 'fish sauce',
+        'worcestershire': 'contains anchovies',
+        'dashi': 'made from bonito flakes',
+        'bonito': 'dried fish',
+        'surimi': 'made from fish',
+        'imitation crab': 'made from fish',
+        'fish stock': 'made from fish'
+      },
+      likely: {
+        'caesar dressing': 'usually made with anchovies'
+      },
+      caution: {
+        'seafood': 'may include fish'
+      },
+      except: ['vegan fish sauce', 'vegan worcestershire', 'fish free'],
+      swap: 'a fish-free sauce such as soy sauce with seaweed'
+    },
+    shellfish: {
+      label: 'shellfish',
+      allergen: SHELLFISH,
+      terms: [
+        'shrimp', 'prawn', 'crab', 'lobster', 'scallop', 'clam', 'mussel', 'oyster', 'crawfish', 'crayfish',
+        'langoustine', 'squid', 'calamari', 'octopus', 'shellfish'
+      ],
+      hidden: {
+        'oyster sauce': 'made from oysters',
+        'shrimp paste': 'made from shrimp',
+        'xo sauce': 'contains dried shrimp and scallops'
+      },
+      caution: {
+        'seafood': 'may include shellfish',
+        'imitation crab': 'sometimes flavoured with crab extract',
+        'bouillabaisse': 'usually includes shellfish'
+      },
+      except: ['oyster mushroom', 'vegetarian oyster sauce', 'mushroom oyster sauce'],
+      swap: 'firm white fish, mushrooms or hearts of palm'
+    },
+    dairy: {
+      label: 'dairy',
+      allergen: DAIRY,
+      terms: [
+        'milk', 'butter', 'cheese', 'cream', 'yogurt', 'yoghurt', 'buttermilk', 'parmesan', 'parmigiano',
+        'mozzarella', 'cheddar', 'ricotta', 'feta', 'pecorino', 'mascarpone', 'brie', 'gouda', 'gruyere',
+        'halloumi', 'paneer', 'ghee', 'kefir', 'custard', 'creme fraiche', 'half and half', 'queso', 'labneh'
+      ],
+      hidden: {
+        'whey': 'a milk protein',
+        'casein': 'a milk protein',
+        'caseinate': 'a milk protein',
+        'lactose': 'milk sugar',
+        'curd': 'made from milk',
+        'bechamel': 'made with milk and butter',
+        'alfredo': 'made with cream and cheese',
+        'tzatziki': 'made with yogurt'
+      },
+      likely: {
+        'nougat': 'usually made with milk powder',
+        'pesto': 'usually made with parmesan'
+      },
+      caution: {
+        'chocolate': 'milk chocolate contains dairy',
+        'margarine': 'some brands contain whey or buttermilk'
+      },
+      except: [
+        'coconut milk', 'almond milk', 'oat milk', 'soy milk', 'rice milk', 'cashew milk', 'coconut cream',
+        'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'sunflower butter', 'cocoa butter',
+        'apple butter', 'shea butter', 'butter bean', 'cream of tartar', 'coconut yogurt', 'soy yogurt',
+        'cream soda', 'bean curd', 'dark chocolate', 'coconut butter'
+      ],
+      safe: ['dairy free', 'non dairy', 'vegan', 'plant based', 'milk free'],
+      swap: 'plant-based milk, olive oil or vegan butter'
+    },
+    eggs: {
+      label: 'eggs',
+      allergen: EGGS,
+      terms: ['egg', 'mayonnaise', 'mayo', 'meringue', 'aioli', 'eggnog'],
+      hidden: {
+        'albumin': 'egg white protein',
+        'albumen': 'egg white protein',
+        'ovalbumin': 'egg white protein',
+        'lysozyme': 'an egg white enzyme',
+        'hollandaise': 'made with egg yolks',
+        'bearnaise': 'made with egg yolks',
+        'custard': 'made with eggs'
+      },
+      likely: {
+        'caesar dressing': 'usually made with egg yolk'
+      },
+      caution: {
+        'fresh pasta': 'often made with eggs',
+        'brioche': 'usually enriched with eggs',
+        'challah': 'usually enriched with eggs'
+      },
+      except: ['flax egg', 'chia egg', 'egg replacer', 'vegan mayo', 'vegan mayonnaise'],
+      safe: ['egg free', 'eggless', 'vegan'],
+      swap: 'flax or chia "eggs", aquafaba or a commercial egg replacer'
+    },
+    gluten: {
+      label: 'gluten',
+      allergen: GLUTEN,
+      terms: [
+        'wheat', 'flour', 'bread', 'breadcrumb', 'bread crumb', 'panko', 'pasta', 'spaghetti', 'macaroni',
+        'penne', 'fettuccine', 'linguine', 'lasagna', 'noodle', 'couscous', 'bulgur', 'semolina', 'durum',
+        'barley', 'rye', 'spelt', 'farro', 'seitan', 'crouton', 'cracker', 'pastry', 'pie crust', 'tortilla',
+        'pita', 'bagel', 'baguette', 'beer', 'ale'
+      ],
+      hidden: {
+        'malt': 'made from barley',
+        'brewer s yeast': 'a by-product of brewing barley',
+        'graham': 'made from wheat',
+        'roux': 'thickened with wheat flour'
+      },
+      likely: {
+        'soy sauce': 'usually brewed with wheat',
+        'teriyaki': 'made with soy sauce, usually brewed with wheat',
+        'hoisin': 'usually thickened with wheat'
+      },
+      caution: {
+        'oat': 'often cross-contaminated with wheat unless certified gluten free',
+        'oatmeal': 'often cross-contaminated with wheat unless certified gluten free',
+        'granola': 'usually contains oats',
+        'bouillon': 'some cubes contain wheat'
+      },
+      except: [
+        'rice flour', 'almond flour', 'coconut flour', 'corn flour', 'cornflour', 'chickpea flour', 'tapioca flour',
+        'cassava flour', 'potato flour', 'buckwheat flour', 'rice noodle', 'glass noodle', 'corn tortilla',
+        'rice paper', 'tamari', 'rice pasta', 'zucchini noodle', 'ginger ale'
+      ],
+      safe: ['gluten free'],
+      swap: 'certified gluten-free pasta, bread or flour, and tamari in place of soy sauce'
+    },
+    nuts: {
+      label: 'nuts',
+      allergen: NUTS,
+      terms: [
+        'nut', 'almond', 'walnut', 'pecan', 'cashew', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut',
+        'pine nut', 'peanut', 'praline', 'marzipan', 'frangipane', 'gianduja', 'nutella'
+      ],
+      hidden: {
+        'satay': 'made with peanuts',
+        'amaretto': 'made from almonds',
+        'baklava': 'made with nuts',
+        'dukkah': 'made with hazelnuts'
+      },
+      likely: {
+        'pesto': 'usually made with pine nuts',
+        'nougat': 'usually contains nuts',
+        'romesco': 'usually made with almonds or hazelnuts'
+      },
+      caution: {
+        'granola': 'often contains nuts',
+        'muesli': 'often contains nuts',
+        'trail mix': 'usually contains nuts'
+      },
+      except: ['water chestnut', 'nut free', 'tiger nut'],
+      safe: ['nut free'],
+      swap: 'toasted seeds such as sunflower or pumpkin seeds'
+    },
+    soy: {
+      label: 'soy',
+      allergen: SOY,
+      terms: ['soy', 'soya', 'soybean', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari', 'natto'],
+      hidden: {
+        'teriyaki': 'made with soy sauce',
+        'hoisin': 'made from soybeans',
+        'ponzu': 'made with soy sauce',
+        'textured vegetable protein': 'made from soy',
+        'tvp': 'made from soy',
+        'bean curd': 'tofu'
+      },
+      caution: {
+        'lecithin': 'often derived from soy',
+        'vegetable protein': 'often derived from soy'
+      },
+      except: ['soy free', 'coconut aminos'],
+      safe: ['soy free'],
+      swap: 'coconut aminos in place of soy sauce, or chickpeas in place of tofu'
+    },
+    honey: {
+      label: 'honey',
+      terms: ['honey', 'honeycomb', 'royal jelly', 'beeswax'],
+      hidden: {
+        'carmine': 'a red dye made from insects',
+        'cochineal': 'a red dye made from insects',
+        'isinglass': 'made from fish bladders'
+      },
+      except: ['honeydew', 'vegan honey'],
+      swap: 'maple or agave syrup'
+    },
+    alcohol: {
+      label: 'alcohol',
+      terms: [
+        'wine', 'beer', 'ale', 'rum', 'brandy', 'bourbon', 'whiskey', 'whisky', 'vodka', 'gin', 'tequila',
+        'sherry', 'port', 'marsala', 'sake', 'mirin', 'liqueur', 'cognac', 'kirsch', 'vermouth', 'champagne', 'prosecco'
+      ],
+      hidden: {
+        'amaretto': 'an almond liqueur',
+        'kahlua': 'a coffee liqueur',
+        'cointreau': 'an orange liqueur'
+      },
+      caution: {
+        'vanilla extract': 'usually contains alcohol',
+        'wine vinegar': 'made from wine',
+        'cooking wine': 'contains alcohol'
+      },
+      except: ['ginger ale', 'root beer', 'non alcoholic', 'alcohol free'],
+      swap: 'broth, grape juice or alcohol-free extracts'
+    },
+    alliums: {
+      label: 'onion or garlic',
+      terms: ['onion', 'garlic', 'shallot', 'leek', 'chive', 'scallion', 'spring onion', 'green onion', 'ramp'],
+      likely: {
+        'pesto': 'made with garlic',
+        'aioli': 'made with garlic',
+        'curry paste': 'usually made with garlic and shallots',
+        'sofrito': 'made with onion and garlic',
+        'salsa': 'usually made with onion'
+      },
+      except: ['onion seed', 'onion free', 'garlic free'],
+      safe: ['onion free', 'garlic free'],
+      swap: 'asafoetida (hing), ginger or celery'
+    },
+    grains: {
+      label: 'grains',
+      terms: [
+        'wheat', 'flour', 'bread', 'pasta', 'spaghetti', 'noodle', 'rice', 'oat', 'oatmeal', 'corn', 'cornmeal',
+        'cornstarch', 'polenta', 'quinoa', 'barley', 'rye', 'couscous', 'bulgur', 'tortilla', 'cracker', 'cereal'
+      ],
+      except: [
+        'almond flour', 'coconut flour', 'cassava flour', 'tapioca flour', 'cauliflower rice', 'rice vinegar',
+        'zucchini noodle', 'rice paper', 'corn syrup'
+      ],
+      swap: 'cauliflower rice, vegetable noodles or almond flour'
+    },
+    legumes: {
+      label: 'legumes',
+      terms: [
+        'bean', 'lentil', 'chickpea', 'pea', 'peanut', 'soy', 'soybean', 'tofu', 'tempeh', 'edamame', 'hummus', 'miso'
+      ],
+      except: ['green bean', 'snap pea', 'snow pea', 'vanilla bean', 'coffee bean', 'cocoa bean', 'sugar snap pea'],
+      swap: 'extra vegetables, nuts or seeds'
+    },
+    sugars: {
+      label: 'added sugar',
+      terms: [
+        'sugar', 'syrup', 'honey', 'molasses', 'agave', 'candy', 'caramel', 'dextrose', 'glucose', 'fructose',
+        'sweetened condensed milk', 'jam', 'jelly', 'soda'
+      ],
+      except: ['sugar free', 'sugar snap pea', 'baking soda', 'soda water', 'no sugar added', 'unsweetened'],
+      swap: 'a sugar-free sweetener or fruit'
+    },
+    starches: {
+      label: 'starchy carbohydrates',
+      terms: [
+        'potato', 'sweet potato', 'rice', 'pasta', 'bread', 'flour', 'noodle', 'tortilla', 'oat', 'corn',
+        'quinoa', 'couscous', 'banana', 'bean', 'lentil', 'chickpea'
+      ],
+      except: [
+        'almond flour', 'coconut flour', 'cauliflower rice', 'rice vinegar', 'zucchini noodle', 'shirataki noodle',
+        'green bean'
+      ],
+      swap: 'cauliflower, zucchini noodles or almond flour'
+    },
+    highSodium: {
+      label: 'high-sodium',
+      terms: [
+        'soy sauce', 'fish sauce', 'bouillon', 'stock cube', 'bacon', 'ham', 'salami', 'pepperoni', 'prosciutto',
+        'anchovy', 'caper', 'olive', 'pickle', 'feta', 'miso', 'salted', 'cured', 'smoked salmon'
+      ],
+      except: ['olive oil', 'low sodium', 'reduced sodium', 'no salt added'],
+      swap: 'low-sodium versions, herbs, citrus or vinegar'
+    },
+    saturatedFat: {
+      label: 'saturated fat or cholesterol',
+      terms: [
+        'butter', 'lard', 'bacon', 'sausage', 'heavy cream', 'double cream', 'shortening', 'cream cheese',
+        'egg yolk', 'liver', 'ghee', 'palm oil', 'coconut oil', 'suet', 'tallow', 'pork belly', 'salami'
+      ],
+      except: ['peanut butter', 'almond butter', 'nut butter', 'cocoa butter', 'butter bean'],
+      swap: 'olive oil, lean proteins or low-fat dairy'
+    },
+    processed: {
+      label: 'processed',
+      terms: [
+        'bacon', 'sausage', 'hot dog', 'salami', 'pepperoni', 'margarine', 'corn syrup', 'processed cheese',
+        'american cheese', 'instant noodle', 'shortening'
+      ],
+      swap: 'olive oil, fresh fish, legumes and whole grains'
+    }
+  };
+
+  /**
+   * What each restriction rules out; restrictions build on the shared groups
+   */
+  private static readonly RULES: Record<DietaryRestriction, RestrictionRule> = {
+    [NUTS]: { groups: ['nuts'] },
+    [DAIRY]: { groups: ['dairy'] },
+    [GLUTEN]: { groups: ['gluten'] },
+    [SHELLFISH]: { groups: ['shellfish'] },
+    [EGGS]: { groups: ['eggs'] },
+    [SOY]: { groups: ['soy'] },
+    [FISH]: { groups: ['fish'] },
+    [VEGETARIAN]: { groups: ['pork', 'meat', 'poultry', 'fish', 'shellfish'] },
+    [VEGAN]: { groups: ['pork', 'meat', 'poultry', 'fish', 'shellfish', 'dairy', 'eggs', 'honey'] },
+    [PESCATARIAN]: { groups: ['pork', 'meat', 'poultry'] },
+    [HINDU_VEGETARIAN]: { groups: ['pork', 'meat', 'poultry', 'fish', 'shellfish', 'eggs', 'alliums'] },
+    [KETO]: {
+      groups: ['sugars', 'starches'],
+      limits: [{ nutrient: 'carbohydrates', max: 20, unit: 'g' }]
+    },
+    [PALEO]: { groups: ['grains', 'gluten', 'legumes', 'soy', 'dairy', 'sugars', 'processed'] },
+    [MEDITERRANEAN]: {
+      groups: [],
+      cautionGroups: ['processed'],
+      cautionReason: 'not typical of a Mediterranean diet'
+    },
+    [DIABETIC_FRIENDLY]: {
+      groups: [],
+      cautionGroups: ['sugars'],
+      cautionReason: 'raises blood sugar',
+      limits: [{ nutrient: 'sugar', max: 20, unit: 'g' }]
+    },
+    [LOW_SODIUM]: {
+      groups: [],
+      cautionGroups: ['highSodium'],
+      cautionReason: 'high in sodium',
+      limits: [{ nutrient: 'sodium', max: 600, unit: 'mg' }]
+    },
+    [HEART_HEALTHY]: {
+      groups: [],
+      cautionGroups: ['saturatedFat', 'processed'],
+      cautionReason: 'high in saturated fat or sodium',
+      limits: [{ nutrient: 'sodium', max: 600, unit: 'mg' }]
+    },
+    [LOW_CHOLESTEROL]: {
+      groups: [],
+      cautionGroups: ['saturatedFat'],
+      cautionReason: 'high in saturated fat or cholesterol'
+    },
+    [HALAL]: {
+      groups: ['pork', 'alcohol'],
+      cautionGroups: ['meat', 'poultry'],
+      cautionReason: 'must come from a halal-certified source'
+    },
+    [KOSHER]: {
+      groups: ['pork', 'shellfish'],
+      cautionGroups: ['meat', 'poultry'],
+      cautionReason: 'must come from a kosher-certified source',
+      mixed: [['meat', 'poultry'], ['dairy'], 'mixes meat and dairy']
+    }
+  };
+
+  /**
+   * Store-bought products that can carry allergen traces from shared equipment
+   */
+  private static readonly PROCESSED_QUALIFIERS = [
+    'store bought', 'shop bought', 'storebought', 'jarred', 'canned', 'tinned', 'bottled', 'packaged',
+    'premade', 'pre made', 'ready made', 'prepared', 'instant', 'boxed'
+  ];
+
+  private static readonly SHARED_LINE_PRODUCTS = [
+    'chocolate', 'chocolate chip', 'granola', 'cereal', 'cracker', 'cookie', 'biscuit', 'protein powder',
+    'protein bar', 'spice mix', 'seasoning mix', 'curry paste', 'stock cube', 'bouillon', 'sprinkle',
+    'ice cream', 'puff pastry', 'pie crust', 'tortilla chip', 'candy'
+  ];
+
+  private static readonly RISK_BY_KIND: Record<DietaryFindingKind, Exclude<DietaryRiskLevel, 'safe'>> = {
+    ingredient: 'contains',
+    hidden: 'contains',
+    catalog: 'contains',
+    nutrition: 'contains',
+    combination: 'contains',
+    likely: 'likely_contains',
+    caution: 'may_contain',
+    cross_contact: 'may_contain',
+    ai: 'may_contain'
+  };
+
+  // Least to most severe
+  private static readonly RISK_ORDER: DietaryRiskLevel[] = ['safe', 'may_contain', 'likely_contains', 'contains'];
+
+  private static readonly NUTRIENT_UNITS: Record<CustomNutrient, string> = {
+    calories: 'kcal',
+    protein: 'g',
+    carbohydrates: 'g',
+    fat: 'g',
+    sugar: 'g',
+    sodium: 'mg'
+  };
+
+  private static readonly PATTERN_CACHE = new Map<string, RegExp>();
+
+  // Stands in for * while a pattern is normalized
+  private static readonly WILDCARD = 'qwildcardq';
+
+  /**
+   * Judge a recipe against each restriction.
+   * catalogAllergens maps ingredient names to the allergens their catalog entries declare.
+   */
+  static analyze(
+    recipe: DietaryRuleInput,
+    restrictions: DietaryRestriction[],
+    catalogAllergens: Record<string, DietaryRestriction[]> = {}
+  ): DietaryVerdict[] {
+    const matches = new Map<GroupName, Match[]>();
+    const groupMatches = (group: GroupName): Match[] => {
+      if (!matches.has(group)) {
+        matches.set(group, this.matchGroup(this.GROUPS[group], recipe, catalogAllergens));
+      }
+      return matches.get(group)!;
+    };
+
+    return [...new Set(restrictions)].map(restriction =>
+      this.verdict(restriction, recipe.nutritionalInfo, groupMatches)
+    );
+  }
+
+  /**
+   * Judge a recipe against the user's own restrictions; any blocked ingredient or exceeded limit makes it incompatible
+   */
+  static analyzeCustom(recipe: DietaryRuleInput, restrictions: CustomRestriction[]): CustomRestrictionVerdict[] {
+    return restrictions.map(restriction => {
+      const group: TermGroup = {
+        label: restriction.name,
+        terms: [...restriction.blockedIngredients, ...restriction.blockedPatterns]
+      };
+      const limits = restriction.nutrientLimits.map(limit => ({ ...limit, unit: this.NUTRIENT_UNITS[limit.nutrient] }));
+
+      const findings: DietaryFinding[] = [
+        ...this.matchGroup(group, recipe, {}).map(match => ({
+          kind: match.kind,
+          risk: this.RISK_BY_KIND[match.kind],
+          term: match.term,
+          category: restriction.name,
+          ...(match.ingredient !== undefined && { ingredient: match.ingredient }),
+          ...(match.step !== undefined && { step: match.step }),
+          reason: `blocked by "${restriction.name}"`
+        })),
+        ...this.limitFindings(limits, recipe.nutritionalInfo)
+      ];
+
+      return {
+        name: restriction.name,
+        status: this.status(findings),
+        risk: this.worstRisk(findings.map(finding => finding.risk)),
+        findings
+      };
+    });
+  }
+
+  /**
+   * Whether any of the user's own restrictions rules a recipe out
+   */
+  static blockedByCustom(recipe: DietaryRuleInput, restrictions: CustomRestriction[]): boolean {
+    return this.analyzeCustom(recipe, restrictions).some(verdict => verdict.status === 'incompatible');
+  }
+
+  /**
+   * Roll verdicts up into the compatible/issues/suggestions shape the AI analysis uses
+   */
+  static summarize(verdicts: DietaryVerdict[]): DietaryOpinion {
+    const issues: string[] = [];
+    const suggestions: string[] = [];
+    const verbs: Record<Exclude<DietaryRiskLevel, 'safe'>, string> = {
+      contains: 'contains',
+      likely_contains: 'likely contains',
+      may_contain: 'may contain'
+    };
+
+    for (const verdict of verdicts) {
+      const label = verdict.restriction.replace(/_/g, ' ');
+
+      for (const finding of verdict.findings) {
+        const where = finding.step ? `step ${finding.step}` : `"${finding.product || finding.ingredient}"`;
+        issues.push(finding.kind === 'nutrition' || finding.kind === 'combination' || finding.kind === 'ai'
+          ? `${label}: ${finding.reason}`
+          : `${label}: ${where} ${verbs[finding.risk]} ${finding.term} (${finding.reason})`);
+      }
+
+      for (const group of this.RULES[verdict.restriction].groups) {
+        const offending = [...new Set(verdict.findings
+          .filter(finding => finding.risk !== 'may_contain' && finding.category === this.GROUPS[group].label)
+          .map(finding => finding.ingredient || finding.term))];
+
+        if (offending.length > 0 && this.GROUPS[group].swap) {
+          suggestions.push(`For ${label}, replace ${offending.join(', ')} with ${this.GROUPS[group].swap}`);
+        }
+      }
+    }
+
+    return {
+      compatible: verdicts.every(verdict => verdict.status !== 'incompatible'),
+      issues,
+      suggestions: [...new Set(suggestions)]
+    };
+  }
+
+  /**
+   * Restrictions from `claimed` that the rules do not contradict
+   */
+  static confirmed(
+    recipe: DietaryRuleInput,
+    claimed: DietaryRestriction[],
+    catalogAllergens: Record<string, DietaryRestriction[]> = {}
+  ): DietaryRestriction[] {
+    return this.analyze(recipe, claimed, catalogAllergens)
+      .filter(verdict => verdict.status !== 'incompatible')
+      .map(verdict => verdict.restriction);
+  }
+
+  /**
+   * Add the AI's risks to the rule verdicts. They can raise a verdict to "may contain" at most,
+   * so a second opinion never turns a recipe incompatible on its own.
+   */
+  static withSecondOpinion(verdicts: DietaryVerdict[], risks: AIDietaryRisk[]): DietaryVerdict[] {
+    return verdicts.map(verdict => {
+      const added: DietaryFinding[] = risks
+        .filter(risk => risk.restriction === verdict.restriction)
+        .map(risk => ({
+          kind: 'ai' as const,
+          risk: 'may_contain' as const,
+          term: risk.evidence,
+          category: 'ai',
+          reason: `${risk.evidence}: ${risk.reason} (AI: ${risk.level.replace(/_/g, ' ')})`
+        }));
+
+      if (added.length === 0) return verdict;
+
+      const findings = [...verdict.findings, ...added];
+      return { ...verdict, findings, status: this.status(findings), risk: this.worstRisk(findings.map(f => f.risk)) };
+    });
+  }
+
+  /**
+   * Most severe of the given risk levels; "safe" when there are none
+   */
+  static worstRisk(levels: DietaryRiskLevel[]): DietaryRiskLevel {
+    return levels.reduce<DietaryRiskLevel>(
+      (worst, level) => this.RISK_ORDER.indexOf(level) > this.RISK_ORDER.indexOf(worst) ? level : worst,
+      'safe'
+    );
+  }
+
+  private static verdict(
+    restriction: DietaryRestriction,
+    nutrition: NutritionalInfo | undefined,
+    groupMatches: (group: GroupName) => Match[]
+  ): DietaryVerdict {
+    const rule = this.RULES[restriction];
+    const findings: DietaryFinding[] = [];
+
+    for (const group of rule.groups) {
+      findings.push(...groupMatches(group).map(match => this.finding(match, group)));
+    }
+
+    // Traces from shared equipment matter for allergies, not for the other restrictions in a caution group
+    for (const group of rule.cautionGroups || []) {
+      findings.push(...groupMatches(group)
+        .filter(match => match.kind !== 'cross_contact')
+        .map(match => ({
+          ...this.finding({ ...match, kind: 'caution' }, group),
+          reason: rule.cautionReason || match.reason || `a ${this.GROUPS[group].label} ingredient`
+        })));
+    }
+
+    if (rule.mixed) {
+      const [left, right, reason] = rule.mixed;
+      const definite = (match: Match) => this.RISK_BY_KIND[match.kind] === 'contains';
+      const first = left.flatMap(group => groupMatches(group)).find(definite);
+      const second = right.flatMap(group => groupMatches(group)).find(definite);
+
+      if (first && second) {
+        findings.push({
+          kind: 'combination',
+          risk: 'contains',
+          term: `${first.term} + ${second.term}`,
+          category: 'combination',
+          reason
+        });
+      }
+    }
+
+    findings.push(...this.limitFindings(rule.limits || [], nutrition));
+
+    return {
+      restriction,
+      status: this.status(findings),
+      risk: this.worstRisk(findings.map(finding => finding.risk)),
+      findings
+    };
+  }
+
+  private static limitFindings(limits: NutrientLimit[], nutrition: NutritionalInfo | undefined): DietaryFinding[] {
+    return limits
+      .filter(limit => nutrition !== undefined && nutrition[limit.nutrient] > limit.max)
+      .map(limit => ({
+        kind: 'nutrition' as const,
+        risk: 'contains' as const,
+        term: limit.nutrient,
+        category: 'nutrition',
+        reason: `${Math.round(nutrition![limit.nutrient])}${limit.unit} ${limit.nutrient} per serving is over the ${limit.max}${limit.unit} limit`
+      }));
+  }
+
+  private static finding(match: Match, group: GroupName): DietaryFinding {
+    const label = this.GROUPS[group].label;
+
+    return {
+      kind: match.kind,
+      risk: this.RISK_BY_KIND[match.kind],
+      term: match.term,
+      category: label,
+      ...(match.ingredient !== undefined && { ingredient: match.ingredient }),
+      ...(match.step !== undefined && { step: match.step }),
+      ...(match.product !== undefined && { product: match.product }),
+      reason: match.reason || `a ${label} ingredient`
+    };
+  }
+
+  private static status(findings: DietaryFinding[]): DietaryVerdictStatus {
+    if (findings.some(finding => finding.risk !== 'may_contain')) return 'incompatible';
+    return findings.length > 0 ? 'caution' : 'compatible';
+  }
+
+  // Every place a group shows up: ingredient lines first, then instruction steps that add something new
+  private static matchGroup(
+    group: TermGroup,
+    recipe: DietaryRuleInput,
+    catalogAllergens: Record<string, DietaryRestriction[]>
+  ): Match[] {
+    const found: Match[] = [];
+
+    for (const ingredient of recipe.ingredients) {
+      const text = [ingredient.name, ingredient.notes].filter(Boolean).join(' ');
+      const lineMatches = this.matchText(group, text);
+      found.push(...lineMatches.map(match => ({ ...match, ingredient: ingredient.name })));
+
+      if (lineMatches.length > 0 || !group.allergen) continue;
+
+      // The catalog knows allergens that the name alone does not reveal
+      if (catalogAllergens[ingredient.name]?.includes(group.allergen)) {
+        found.push({
+          term: ingredient.name,
+          kind: 'catalog',
+          ingredient: ingredient.name,
+          reason: `listed as containing ${group.label} in the ingredient catalog`
+        });
+      } else if (this.isProcessed(text, true)) {
+        found.push(this.crossContact(group, ingredient.name, { ingredient: ingredient.name }));
+      }
+    }
+
+    // Steps usually mention listed ingredients by a shorter name ("noodles" for "rice noodles"); those were judged above
+    const listed = ` ${recipe.ingredients.map(ingredient => this.normalize(ingredient.name)).join(' | ')} `;
+    const seen = new Set<string>();
+    recipe.instructions.forEach((instruction, index) => {
+      const stepMatches = this.matchText(group, instruction);
+      for (const match of stepMatches) {
+        if (seen.has(match.term) || this.pattern(match.term).test(listed)) continue;
+        seen.add(match.term);
+        found.push({ ...match, step: index + 1 });
+      }
+
+      // Only an explicit "store-bought ..." in a step points at a product the ingredient list does not name
+      if (group.allergen && stepMatches.length === 0 && this.isProcessed(instruction, false)) {
+        found.push(this.crossContact(group, instruction, { step: index + 1 }));
+      }
+    });
+
+    return found;
+  }
+
+  private static isProcessed(text: string, includeProducts: boolean): boolean {
+    const normalized = ` ${this.normalize(text)} `;
+    const phrases = includeProducts
+      ? [...this.PROCESSED_QUALIFIERS, ...this.SHARED_LINE_PRODUCTS]
+      : this.PROCESSED_QUALIFIERS;
+    return phrases.some(phrase => this.pattern(phrase).test(normalized));
+  }
+
+  private static crossContact(group: TermGroup, product: string, at: Pick<Match, 'ingredient' | 'step'>): Match {
+    return {
+      term: group.label,
+      kind: 'cross_contact',
+      product,
+      ...at,
+      reason: `processed products can carry traces of ${group.label} from shared equipment`
+    };
+  }
+
+  // Longest phrases claim their words first, so "fish sauce" is not also reported as "fish"
+  private static matchText(group: TermGroup, text: string): Match[] {
+    let remaining = ` ${this.normalize(text)} `;
+    if (group.safe?.some(qualifier => this.pattern(qualifier).test(remaining))) return [];
+
+    const phrases: [string, Match['kind'] | 'except', string | undefined][] = [
+      ...(group.except || []).map(term => [term, 'except', undefined] as [string, 'except', undefined]),
+      ...Object.entries(group.hidden || {}).map(([term, reason]) => [term, 'hidden', reason] as [string, 'hidden', string]),
+      ...Object.entries(group.likely || {}).map(([term, reason]) => [term, 'likely', reason] as [string, 'likely', string]),
+      ...Object.entries(group.caution || {}).map(([term, reason]) => [term, 'caution', reason] as [string, 'caution', string]),
+      ...group.terms.map(term => [term, 'ingredient', undefined] as [string, 'ingredient', undefined])
+    ];
+    phrases.sort((a, b) => b[0].length - a[0].length);
+
+    const found: Match[] = [];
+    for (const [term, kind, reason] of phrases) {
+      const pattern = this.pattern(term);
+      if (!pattern.test(remaining)) continue;
+
+      remaining = remaining.replace(new RegExp(pattern.source, 'g'), ' ');
+      if (kind !== 'except') {
+        found.push({ term, kind, ...(reason && { reason }) });
+      }
+    }
+
+    return found;
+  }
+
+  // Whole-word match that also accepts simple plurals ("anchovies", "eggs", "peaches");
+  // a * in a user's pattern stands for any letters within a word ("chil*")
+  private static pattern(term: string): RegExp {
+    let cached = this.PATTERN_CACHE.get(term);
+    if (!cached) {
+      const words = this.normalize(term.replace(/\*/g, this.WILDCARD))
+        .split(' ')
+        .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').split(this.WILDCARD).join('[a-z]*'));
+      const last = words.pop()!;
+      const stem = last.endsWith('[a-z]*') ? last
+        : last.endsWith('y') ? `${last.slice(0, -1)}(?:y|ies)` : `${last}(?:s|es)?`;
+      cached = new RegExp(`(?<![a-z])${[...words, stem].join(' ')}(?![a-z])`);
+      this.PATTERN_CACHE.set(term, cached);
+    }
+    return cached;
+  }
+
+  private static normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  FitDimension,
+  MealPlanTargets,
+  NutritionalInfo,
+  RecipeFitScore
+} from '../../types';
+
+export class FitScorer {
+  /**
+   * Main meals a day's targets are spread over when judging one serving
+   */
+  static readonly MEALS_PER_DAY = 3;
+
+  /**
+   * Relative weight of each dimension; dimensions without a goal are left out and the rest rescaled
+   */
+  private static readonly WEIGHTS = {
+    calories: 0.35,
+    macros: 0.35,
+    fiber: 0.15,
+    sodium: 0.15
+  };
+
+  private static readonly CALORIE_ZERO_AT = 0.5; // 50% over or under the meal budget scores 0
+  private static readonly MACRO_ZERO_AT = 60; // 60 percentage points of total macro drift scores 0
+
+  /**
+   * Score one serving against a day's targets, with an explanation per dimension
+   */
+  static score(
+    nutrition: NutritionalInfo,
+    targets: MealPlanTargets,
+    basis: RecipeFitScore['basis'],
+    mealsPerDay: number = this.MEALS_PER_DAY
+  ): RecipeFitScore {
+    const dimensions: FitDimension[] = [
+      this.caloriesDimension(nutrition, targets.calories / mealsPerDay),
+      this.macrosDimension(nutrition, targets)
+    ];
+
+    if (targets.fiber) {
+      dimensions.push(this.fiberDimension(nutrition, targets.fiber / mealsPerDay));
+    }
+
+    if (targets.sodiumLimit) {
+      dimensions.push(this.sodiumDimension(nutrition, targets.sodiumLimit / mealsPerDay));
+    }
+
+    const totalWeight = dimensions.reduce((sum, d) => sum + this.WEIGHTS[d.dimension], 0);
+    for (const dimension of dimensions) {
+      dimension.weight = Math.round((this.WEIGHTS[dimension.dimension] / totalWeight) * 100) / 100;
+    }
+
+    const score = dimensions.reduce((sum, d) => sum + d.score * (this.WEIGHTS[d.dimension] / totalWeight), 0);
+
+    return {
+      score: Math.round(score),
+      basis,
+      mealsPerDay,
+      dimensions
+    };
+  }
+
+  private static caloriesDimension(nutrition: NutritionalInfo, budget: number): FitDimension {
+    const miss = (nutrition.calories - budget) / budget;
+    const score = this.clamp(100 * (1 - Math.abs(miss) / this.CALORIE_ZERO_AT));
+    const percent = Math.round(Math.abs(miss) * 100);
+
+    let explanation = `${nutrition.calories} kcal is within 10% of the ${Math.round(budget)} kcal meal budget`;
+    if (Math.abs(miss) > 0.1) {
+      explanation = `${nutrition.calories} kcal is ${percent}% ${miss > 0 ? 'over' : 'under'} the ${Math.round(budget)} kcal meal budget`;
+    }
+
+    return {
+      dimension: 'calories',
+      score,
+      weight: 0,
+      actual: { calories: nutrition.calories },
+      target: { calories: Math.round(budget) },
+      explanation
+    };
+  }
+
+  private static macrosDimension(nutrition: NutritionalInfo, targets: MealPlanTargets): FitDimension {
+    const actual = this.energySplit(nutrition.protein, nutrition.carbohydrates, nutrition.fat);
+    const wanted = this.energySplit(targets.protein, targets.carbohydrates, targets.fat);
+    const keys = ['protein', 'carbohydrates', 'fat'] as const;
+
+    const drift = keys.reduce((sum, key) => sum + Math.abs(actual[key] - wanted[key]), 0);
+    const score = this.clamp(100 * (1 - drift / this.MACRO_ZERO_AT));
+
+    // Name the macro furthest from its target
+    const worst = keys.reduce((a, b) => Math.abs(actual[b] - wanted[b]) > Math.abs(actual[a] - wanted[a]) ? b : a);
+    const gap = actual[worst] - wanted[worst];
+    const split = `${actual.protein}/${actual.carbohydrates}/${actual.fat}% protein/carbs/fat`;
+    const explanation = Math.abs(gap) <= 5
+      ? `${split} is close to the ${wanted.protein}/${wanted.carbohydrates}/${wanted.fat}% target`
+      : `${split}; ${worst === 'carbohydrates' ? 'carbs' : worst} is ${Math.abs(gap)} points ${gap > 0 ? 'above' : 'below'} the ${wanted[worst]}% target`;
+
+    return {
+      dimension: 'macros',
+      score,
+      weight: 0,
+      actual,
+      target: wanted,
+      explanation
+    };
+  }
+
+  private static fiberDimension(nutrition: NutritionalInfo, goal: number): FitDimension {
+    const score = this.clamp(100 * (nutrition.fiber / goal));
+    const explanation = nutrition.fiber >= goal
+      ? `${nutrition.fiber}g fiber meets the ${this.oneDecimal(goal)}g per-meal goal`
+      : `${nutrition.fiber}g fiber is ${this.oneDecimal(goal - nutrition.fiber)}g short of the ${this.oneDecimal(goal)}g per-meal goal`;
+
+    return {
+      dimension: 'fiber',
+      score,
+      weight: 0,
+      actual: { fiber: nutrition.fiber },
+      target: { fiber: this.oneDecimal(goal) },
+      explanation
+    };
+  }
+
+  private static sodiumDimension(nutrition: NutritionalInfo, limit: number): FitDimension {
+    const over = (nutrition.sodium - limit) / limit;
+    const score = over <= 0 ? 100 : this.clamp(100 * (1 - over));
+    const explanation = over <= 0
+      ? `${Math.round(nutrition.sodium)}mg sodium is within the ${Math.round(limit)}mg per-meal limit`
+      : `${Math.round(nutrition.sodium)}mg sodium is ${Math.round(over * 100)}% over the ${Math.round(limit)}mg per-meal limit`;
+
+    return {
+      dimension: 'sodium',
+      score,
+      weight: 0,
+      actual: { sodium: Math.round(nutrition.sodium) },
+      target: { sodium: Math.round(limit) },
+      explanation
+    };
+  }
+
+  // Share of energy (%) from protein, carbohydrates and fat
+  private static energySplit(protein: number, carbohydrates: number, fat: number): Record<'protein' | 'carbohydrates' | 'fat', number> {
+    const energy = protein * 4 + carbohydrates * 4 + fat * 9;
+    if (energy === 0) return { protein: 0, carbohydrates: 0, fat: 0 };
+
+    return {
+      protein: Math.round((protein * 4 / energy) * 100),
+      carbohydrates: Math.round((carbohydrates * 4 / energy) * 100),
+      fat: Math.round((fat * 9 / energy) * 100)
+    };
+  }
+
+  private static clamp(score: number): number {
+    return Math.round(Math.min(100, Math.max(0, score)));
+  }
+
+  private static oneDecimal(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
@@ -0,0 +1,107 @@
+import { DietaryRestriction, IngredientCatalogInput } from '../../types';
+
+const { NUTS, DAIRY, GLUTEN, SHELLFISH, EGGS, SOY, FISH } = DietaryRestriction;
+
+// Common ingredients loaded into an empty ingredients_catalog; aliases are managed through the admin API afterwards
+export const INGREDIENT_CATALOG_SEED: IngredientCatalogInput[] = [
+  // Produce
+  { canonicalName: 'onion', aliases: ['yellow onion', 'white onion', 'brown onion'], pluralForms: ['onions'], category: 'Produce', defaultUnit: '', density: 0.6, allergens: [] },
+  { canonicalName: 'red onion', aliases: ['purple onion'], pluralForms: ['red onions'], category: 'Produce', defaultUnit: '', density: 0.6, allergens: [] },
+  { canonicalName: 'green onion', aliases: ['scallion', 'spring onion'], pluralForms: ['green onions', 'scallions'], category: 'Produce', defaultUnit: '', density: 0.3, allergens: [] },
+  { canonicalName: 'garlic', aliases: ['garlic clove', 'clove garlic'], pluralForms: ['garlic cloves'], category: 'Produce', defaultUnit: 'clove', density: 0.6, allergens: [] },
+  { canonicalName: 'ginger', aliases: ['ginger root', 'fresh ginger'], pluralForms: [], category: 'Produce', defaultUnit: 'tbsp', density: 0.5, allergens: [] },
+  { canonicalName: 'tomato', aliases: ['roma tomato', 'plum tomato'], pluralForms: ['tomatoes'], category: 'Produce', defaultUnit: '', density: 0.6, allergens: [] },
+  { canonicalName: 'cherry tomato', aliases: ['grape tomato'], pluralForms: ['cherry tomatoes'], category: 'Produce', defaultUnit: 'cup', density: 0.6, allergens: [] },
+  { canonicalName: 'potato', aliases: ['russet potato', 'yukon gold potato'], pluralForms: ['potatoes'], category: 'Produce', defaultUnit: '', density: 0.65, allergens: [] },
+  { canonicalName: 'sweet potato', aliases: ['yam'], pluralForms: ['sweet potatoes'], category: 'Produce', defaultUnit: '', density: 0.65, allergens: [] },
+  { canonicalName: 'carrot', aliases: [], pluralForms: ['carrots'], category: 'Produce', defaultUnit: '', density: 0.55, allergens: [] },
+  { canonicalName: 'celery', aliases: ['celery stalk', 'celery rib'], pluralForms: ['celery stalks'], category: 'Produce', defaultUnit: '', density: 0.5, allergens: [] },
+  { canonicalName: 'bell pepper', aliases: ['capsicum', 'sweet pepper', 'red bell pepper', 'green bell pepper'], pluralForms: ['bell peppers'], category: 'Produce', defaultUnit: '', density: 0.5, allergens: [] },
+  { canonicalName: 'chili pepper', aliases: ['chili', 'chilli', 'jalapeno', 'red chili'], pluralForms: ['chilies', 'chillies', 'jalapenos'], category: 'Produce', defaultUnit: '', density: 0.5, allergens: [] },
+  { canonicalName: 'spinach', aliases: ['baby spinach'], pluralForms: [], category: 'Produce', defaultUnit: 'cup', density: 0.13, allergens: [] },
+  { canonicalName: 'broccoli', aliases: ['broccoli floret'], pluralForms: ['broccoli florets'], category: 'Produce', defaultUnit: 'cup', density: 0.37, allergens: [] },
+  { canonicalName: 'mushroom', aliases: ['button mushroom', 'cremini mushroom'], pluralForms: ['mushrooms'], category: 'Produce', defaultUnit: 'cup', density: 0.3, allergens: [] },
+  { canonicalName: 'zucchini', aliases: ['courgette'], pluralForms: ['zucchinis', 'courgettes'], category: 'Produce', defaultUnit: '', density: 0.55, allergens: [] },
+  { canonicalName: 'eggplant', aliases: ['aubergine'], pluralForms: ['eggplants', 'aubergines'], category: 'Produce', defaultUnit: '', density: 0.4, allergens: [] },
+  { canonicalName: 'lemon', aliases: [], pluralForms: ['lemons'], category: 'Produce', defaultUnit: '', allergens: [] },
+  { canonicalName: 'lemon juice', aliases: [], pluralForms: [], category: 'Produce', defaultUnit: 'tbsp', density: 1.03, allergens: [] },
+  { canonicalName: 'lime', aliases: [], pluralForms: ['limes'], category: 'Produce', defaultUnit: '', allergens: [] },
+  { canonicalName: 'avocado', aliases: [], pluralForms: ['avocados'], category: 'Produce', defaultUnit: '', density: 0.95, allergens: [] },
+  { canonicalName: 'cilantro', aliases: ['coriander leaf', 'fresh coriander'], pluralForms: [], category: 'Produce', defaultUnit: 'cup', density: 0.07, allergens: [] },
+  { canonicalName: 'parsley', aliases: ['flat-leaf parsley', 'italian parsley'], pluralForms: [], category: 'Produce', defaultUnit: 'cup', density: 0.06, allergens: [] },
+  { canonicalName: 'basil', aliases: ['basil leaf', 'fresh basil'], pluralForms: ['basil leaves'], category: 'Produce', defaultUnit: 'cup', density: 0.09, allergens: [] },
+
+  // Meat & Seafood
+  { canonicalName: 'chicken breast', aliases: ['boneless chicken breast', 'skinless chicken breast'], pluralForms: ['chicken breasts'], category: 'Meat & Seafood', defaultUnit: 'lb', allergens: [] },
+  { canonicalName: 'chicken thigh', aliases: ['boneless chicken thigh'], pluralForms: ['chicken thighs'], category: 'Meat & Seafood', defaultUnit: 'lb', allergens: [] },
+  { canonicalName: 'chicken', aliases: ['whole chicken'], pluralForms: [], category: 'Meat & Seafood', defaultUnit: 'lb', allergens: [] },
+  { canonicalName: 'ground beef', aliases: ['minced beef', 'beef mince', 'hamburger meat'], pluralForms: [], category: 'Meat & Seafood', defaultUnit: 'lb', allergens: [] },
+  { canonicalName: 'bacon', aliases: ['bacon strip', 'streaky bacon'], pluralForms: ['bacon strips'], category: 'Meat & Seafood', defaultUnit: 'slice', allergens: [] },
+  { canonicalName: 'guanciale', aliases: [], pluralForms: [], category: 'Meat & Seafood', defaultUnit: 'g', allergens: [] },
+  { canonicalName: 'pancetta', aliases: [], pluralForms: [], category: 'Meat & Seafood', defaultUnit: 'g', allergens: [] },
+  { canonicalName: 'salmon', aliases: ['salmon fillet'], pluralForms: ['salmon fillets'], category: 'Meat & Seafood', defaultUnit: 'lb', allergens: [FISH] },
+  { canonicalName: 'tuna', aliases: ['canned tuna', 'tuna steak'], pluralForms: [], category: 'Meat & Seafood', defaultUnit: 'oz', allergens: [FISH] },
+  { canonicalName: 'shrimp', aliases: ['prawn', 'king prawn'], pluralForms: ['shrimps', 'prawns'], category: 'Meat & Seafood', defaultUnit: 'lb', allergens: [SHELLFISH] },
+
+  // Dairy & Eggs
+  { canonicalName: 'egg', aliases: ['whole egg', 'chicken egg'], pluralForms: ['eggs'], category: 'Dairy & Eggs', defaultUnit: '', allergens: [EGGS] },
+  { canonicalName: 'egg yolk', aliases: ['yolk'], pluralForms: ['egg yolks', 'yolks'], category: 'Dairy & Eggs', defaultUnit: '', allergens: [EGGS] },
+  { canonicalName: 'egg white', aliases: [], pluralForms: ['egg whites'], category: 'Dairy & Eggs', defaultUnit: '', allergens: [EGGS] },
+  { canonicalName: 'milk', aliases: ['whole milk', 'skim milk', 'cow milk'], pluralForms: [], category: 'Dairy & Eggs', defaultUnit: 'cup', density: 1.03, allergens: [DAIRY] },
+  { canonicalName: 'butter', aliases: ['unsalted butter', 'salted butter'], pluralForms: [], category: 'Dairy & Eggs', defaultUnit: 'tbsp', density: 0.96, allergens: [DAIRY] },
+  { canonicalName: 'heavy cream', aliases: ['double cream', 'heavy whipping cream', 'whipping cream'], pluralForms: [], category: 'Dairy & Eggs', defaultUnit: 'cup', density: 1.0, allergens: [DAIRY] },
+  { canonicalName: 'sour cream', aliases: [], pluralForms: [], category: 'Dairy & Eggs', defaultUnit: 'cup', density: 1.02, allergens: [DAIRY] },
+  { canonicalName: 'yogurt', aliases: ['greek yogurt', 'plain yogurt', 'yoghurt'], pluralForms: [], category: 'Dairy & Eggs', defaultUnit: 'cup', density: 1.05, allergens: [DAIRY] },
+  { canonicalName: 'parmesan', aliases: ['parmesan cheese', 'parmigiano reggiano', 'parmigiano'], pluralForms: [], category: 'Dairy & Eggs', defaultUnit: 'cup', density: 0.4, allergens: [DAIRY] },
+  { canonicalName: 'pecorino romano', aliases: ['pecorino', 'pecorino cheese'], pluralForms: [], category: 'Dairy & Eggs', defaultUnit: 'cup', density: 0.4, allergens: [DAIRY] },
+  { canonicalName: 'mozzarella', aliases: ['mozzarella cheese', 'fresh mozzarella'], pluralForms: [], category: 'Dairy & Eggs', defaultUnit: 'cup', density: 0.45, allergens: [DAIRY] },
+  { canonicalName: 'cheddar', aliases: ['cheddar cheese', 'sharp cheddar'], pluralForms: [], category: 'Dairy & Eggs', defaultUnit: 'cup', density: 0.45, allergens: [DAIRY] },
+
+  // Bakery
+  { canonicalName: 'bread', aliases: ['white bread', 'sandwich bread', 'bread slice'], pluralForms: ['breads'], category: 'Bakery', defaultUnit: 'slice', allergens: [GLUTEN] },
+  { canonicalName: 'tortilla', aliases: ['flour tortilla', 'wrap'], pluralForms: ['tortillas'], category: 'Bakery', defaultUnit: '', allergens: [GLUTEN] },
+  { canonicalName: 'breadcrumb', aliases: ['panko', 'bread crumb'], pluralForms: ['breadcrumbs', 'bread crumbs'], category: 'Bakery', defaultUnit: 'cup', density: 0.45, allergens: [GLUTEN] },
+
+  // Pantry
+  { canonicalName: 'all-purpose flour', aliases: ['flour', 'plain flour', 'white flour', 'wheat flour'], pluralForms: [], category: 'Pantry', defaultUnit: 'cup', density: 0.53, allergens: [GLUTEN] },
+  { canonicalName: 'sugar', aliases: ['granulated sugar', 'white sugar', 'caster sugar'], pluralForms: [], category: 'Pantry', defaultUnit: 'cup', density: 0.85, allergens: [] },
+  { canonicalName: 'brown sugar', aliases: ['light brown sugar', 'dark brown sugar'], pluralForms: [], category: 'Pantry', defaultUnit: 'cup', density: 0.93, allergens: [] },
+  { canonicalName: 'honey', aliases: [], pluralForms: [], category: 'Pantry', defaultUnit: 'tbsp', density: 1.42, allergens: [] },
+  { canonicalName: 'olive oil', aliases: ['extra virgin olive oil', 'virgin olive oil', 'evoo'], pluralForms: [], category: 'Pantry', defaultUnit: 'tbsp', density: 0.91, allergens: [] },
+  { canonicalName: 'vegetable oil', aliases: ['canola oil', 'sunflower oil', 'cooking oil', 'oil'], pluralForms: [], category: 'Pantry', defaultUnit: 'tbsp', density: 0.92, allergens: [] },
+  { canonicalName: 'rice', aliases: ['white rice', 'long grain rice', 'jasmine rice', 'basmati rice'], pluralForms: [], category: 'Pantry', defaultUnit: 'cup', density: 0.85, allergens: [] },
+  { canonicalName: 'arborio rice', aliases: ['risotto rice'], pluralForms: [], category: 'Pantry', defaultUnit: 'cup', density: 0.85, allergens: [] },
+  { canonicalName: 'pasta', aliases: ['penne', 'fusilli', 'rigatoni', 'macaroni'], pluralForms: ['pastas'], category: 'Pantry', defaultUnit: 'g', allergens: [GLUTEN] },
+  { canonicalName: 'spaghetti', aliases: ['linguine', 'spaghettini'], pluralForms: [], category: 'Pantry', defaultUnit: 'g', allergens: [GLUTEN] },
+  { canonicalName: 'rice noodle', aliases: ['rice stick', 'pad thai noodle'], pluralForms: ['rice noodles'], category: 'Pantry', defaultUnit: 'g', allergens: [] },
+  { canonicalName: 'egg noodle', aliases: [], pluralForms: ['egg noodles'], category: 'Pantry', defaultUnit: 'g', allergens: [GLUTEN, EGGS] },
+  { canonicalName: 'oat', aliases: ['rolled oat', 'oatmeal', 'porridge oat'], pluralForms: ['oats', 'rolled oats'], category: 'Pantry', defaultUnit: 'cup', density: 0.34, allergens: [] },
+  { canonicalName: 'chickpea', aliases: ['garbanzo bean', 'garbanzo'], pluralForms: ['chickpeas'], category: 'Pantry', defaultUnit: 'cup', density: 0.7, allergens: [] },
+  { canonicalName: 'black bean', aliases: [], pluralForms: ['black beans'], category: 'Pantry', defaultUnit: 'cup', density: 0.72, allergens: [] },
+  { canonicalName: 'lentil', aliases: ['red lentil', 'green lentil'], pluralForms: ['lentils'], category: 'Pantry', defaultUnit: 'cup', density: 0.8, allergens: [] },
+  { canonicalName: 'canned tomato', aliases: ['diced tomato', 'crushed tomato', 'tinned tomato'], pluralForms: ['canned tomatoes'], category: 'Pantry', defaultUnit: 'oz', density: 1.0, allergens: [] },
+  { canonicalName: 'tomato paste', aliases: ['tomato puree'], pluralForms: [], category: 'Pantry', defaultUnit: 'tbsp', density: 1.1, allergens: [] },
+  { canonicalName: 'chicken broth', aliases: ['chicken stock'], pluralForms: [], category: 'Pantry', defaultUnit: 'cup', density: 1.0, allergens: [] },
+  { canonicalName: 'vegetable broth', aliases: ['vegetable stock'], pluralForms: [], category: 'Pantry', defaultUnit: 'cup', density: 1.0, allergens: [] },
+  { canonicalName: 'soy sauce', aliases: ['shoyu', 'light soy sauce', 'dark soy sauce'], pluralForms: [], category: 'Pantry', defaultUnit: 'tbsp', density: 1.15, allergens: [SOY, GLUTEN] },
+  { canonicalName: 'fish sauce', aliases: ['nam pla'], pluralForms: [], category: 'Pantry', defaultUnit: 'tbsp', density: 1.2, allergens: [FISH] },
+  { canonicalName: 'tofu', aliases: ['firm tofu', 'silken tofu', 'bean curd'], pluralForms: [], category: 'Pantry', defaultUnit: 'oz', density: 1.0, allergens: [SOY] },
+  { canonicalName: 'coconut milk', aliases: ['canned coconut milk'], pluralForms: [], category: 'Pantry', defaultUnit: 'cup', density: 0.97, allergens: [] },
+  { canonicalName: 'peanut', aliases: ['roasted peanut'], pluralForms: ['peanuts'], category: 'Pantry', defaultUnit: 'cup', density: 0.6, allergens: [NUTS] },
+  { canonicalName: 'peanut butter', aliases: [], pluralForms: [], category: 'Pantry', defaultUnit: 'tbsp', density: 1.09, allergens: [NUTS] },
+  { canonicalName: 'almond', aliases: ['sliced almond', 'slivered almond'], pluralForms: ['almonds'], category: 'Pantry', defaultUnit: 'cup', density: 0.6, allergens: [NUTS] },
+  { canonicalName: 'walnut', aliases: [], pluralForms: ['walnuts'], category: 'Pantry', defaultUnit: 'cup', density: 0.5, allergens: [NUTS] },
+  { canonicalName: 'baking powder', aliases: [], pluralForms: [], category: 'Pantry', defaultUnit: 'tsp', density: 0.9, allergens: [] },
+  { canonicalName: 'baking soda', aliases: ['bicarbonate of soda', 'bicarb'], pluralForms: [], category: 'Pantry', defaultUnit: 'tsp', density: 0.9, allergens: [] },
+  { canonicalName: 'vinegar', aliases: ['white vinegar', 'distilled vinegar'], pluralForms: [], category: 'Pantry', defaultUnit: 'tbsp', density: 1.01, allergens: [] },
+
+  // Spices & Seasonings
+  { canonicalName: 'salt', aliases: ['kosher salt', 'sea salt', 'table salt'], pluralForms: [], category: 'Spices & Seasonings', defaultUnit: 'tsp', density: 1.2, allergens: [] },
+  { canonicalName: 'black pepper', aliases: ['pepper', 'ground black pepper', 'ground pepper', 'peppercorn'], pluralForms: ['peppercorns'], category: 'Spices & Seasonings', defaultUnit: 'tsp', density: 0.5, allergens: [] },
+  { canonicalName: 'cumin', aliases: ['ground cumin', 'cumin seed'], pluralForms: ['cumin seeds'], category: 'Spices & Seasonings', defaultUnit: 'tsp', density: 0.5, allergens: [] },
+  { canonicalName: 'paprika', aliases: ['smoked paprika', 'sweet paprika'], pluralForms: [], category: 'Spices & Seasonings', defaultUnit: 'tsp', density: 0.46, allergens: [] },
+  { canonicalName: 'cinnamon', aliases: ['ground cinnamon', 'cinnamon stick'], pluralForms: ['cinnamon sticks'], category: 'Spices & Seasonings', defaultUnit: 'tsp', density: 0.56, allergens: [] },
+  { canonicalName: 'oregano', aliases: ['dried oregano'], pluralForms: [], category: 'Spices & Seasonings', defaultUnit: 'tsp', density: 0.2, allergens: [] },
+  { canonicalName: 'chili powder', aliases: ['chilli powder'], pluralForms: [], category: 'Spices & Seasonings', defaultUnit: 'tsp', density: 0.5, allergens: [] },
+  { canonicalName: 'vanilla extract', aliases: ['vanilla', 'pure vanilla extract'], pluralForms: [], category: 'Spices & Seasonings', defaultUnit: 'tsp', density: 0.88, allergens: [] }
+];
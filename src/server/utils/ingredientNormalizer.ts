@@ -0,0 +1,219 @@
+export class IngredientNormalizer {
+  /**
+   * Regional and colloquial names mapped to one canonical name
+   */
+  private static readonly SYNONYMS: Record<string, string> = {
+    'scallion': 'green onion',
+    'spring onion': 'green onion',
+    'coriander leaf': 'cilantro',
+    'fresh coriander': 'cilantro',
+    'garbanzo bean': 'chickpea',
+    'garbanzo': 'chickpea',
+    'aubergine': 'eggplant',
+    'courgette': 'zucchini',
+    'capsicum': 'bell pepper',
+    'sweet pepper': 'bell pepper',
+    'prawn': 'shrimp',
+    'minced beef': 'ground beef',
+    'beef mince': 'ground beef',
+    'minced pork': 'ground pork',
+    'rocket': 'arugula',
+    'icing sugar': 'powdered sugar',
+    'confectioners sugar': 'powdered sugar',
+    'caster sugar': 'superfine sugar',
+    'plain flour': 'all-purpose flour',
+    'all purpose flour': 'all-purpose flour',
+    'maize': 'corn',
+    'beetroot': 'beet',
+    'swede': 'rutabaga',
+    'double cream': 'heavy cream',
+    'heavy whipping cream': 'heavy cream',
+    'bicarbonate of soda': 'baking soda',
+    'chick pea': 'chickpea'
+  };
+
+  /**
+   * Plurals that simple suffix rules get wrong
+   */
+  private static readonly IRREGULAR_PLURALS: Record<string, string> = {
+    'leaves': 'leaf',
+    'loaves': 'loaf',
+    'halves': 'half',
+    'calves': 'calf',
+    'geese': 'goose'
+  };
+
+  /**
+   * Words that look plural but are not (or are uncountable)
+   */
+  private static readonly INVARIANT_WORDS = new Set([
+    'molasses', 'grits', 'series', 'species', 'swiss'
+  ]);
+
+  /**
+   * Basics assumed to be in every kitchen; ignored when checking what a recipe needs
+   */
+  private static readonly STAPLES = new Set([
+    'salt', 'water', 'oil', 'olive oil', 'vegetable oil', 'canola oil', 'cooking oil',
+    'pepper', 'black pepper', 'ground black pepper', 'salt and pepper', 'ice'
+  ]);
+
+  /**
+   * Measures that can lead a free-text ingredient ("2 cups flour")
+   */
+  private static readonly LEADING_UNITS = new Set([
+    'cup', 'cups', 'c', 'tbsp', 'tablespoon', 'tablespoons', 'tsp', 'teaspoon', 'teaspoons',
+    'g', 'gram', 'grams', 'kg', 'kilogram', 'kilograms', 'ml', 'l', 'liter', 'liters', 'litre', 'litres',
+    'oz', 'ounce', 'ounces', 'lb', 'lbs', 'pound', 'pounds', 'pinch', 'dash', 'handful', 'clove', 'cloves',
+    'can', 'cans', 'package', 'packages', 'bunch', 'bunches', 'slice', 'slices', 'piece', 'pieces', 'of'
+  ]);
+
+  /**
+   * Size, freshness and preparation words that don't change what the ingredient is
+   */
+  private static readonly DESCRIPTORS = new Set([
+    'large', 'medium', 'small', 'extra', 'fresh', 'freshly', 'organic', 'ripe', 'raw', 'whole',
+    'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded', 'crushed', 'beaten', 'melted',
+    'softened', 'peeled', 'halved', 'quartered', 'cubed', 'julienned', 'trimmed', 'rinsed', 'drained',
+    'finely', 'roughly', 'thinly', 'coarsely', 'lightly', 'about', 'approximately', 'optional'
+  ]);
+
+  /**
+   * Words that change what the following words are, so a catalog lookup must not drop them:
+   * "almond milk" is not milk, "cooked rice" is not (raw) rice, "peanut butter" is not butter
+   */
+  private static readonly IDENTITY_MODIFIERS = new Set([
+    'almond', 'oat', 'soy', 'soya', 'rice', 'coconut', 'cashew', 'hemp', 'pea', 'hazelnut', 'macadamia',
+    'flax', 'peanut', 'sunflower', 'sesame', 'cocoa', 'apple', 'plant', 'plant-based', 'vegan',
+    'non-dairy', 'nondairy', 'dairy-free', 'cooked', 'boiled', 'steamed', 'roasted', 'toasted', 'fried',
+    'baked', 'grilled', 'smoked', 'dried', 'dehydrated', 'powdered', 'condensed', 'evaporated',
+    'sour', 'ice', 'cream'
+  ]);
+
+  /**
+   * Normalize a single ingredient name: case, whitespace, punctuation, plurals and synonyms
+   */
+  static normalizeName(name: string): string {
+    const cleaned = name
+      .toLowerCase()
+      .replace(/[^a-z0-9\s-]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (!cleaned) return '';
+
+    // Only the head noun (last word) carries the plural: "green onions" -> "green onion"
+    const words = cleaned.split(' ');
+    words[words.length - 1] = this.singularize(words[words.length - 1]);
+    const singular = words.join(' ');
+
+    return this.SYNONYMS[singular] || singular;
+  }
+
+  /**
+   * Normalize a list of ingredient names into a sorted, de-duplicated set
+   */
+  static normalizeList(names: string[]): string[] {
+    const normalized = names
+      .map(name => this.normalizeName(name))
+      .filter(name => name.length > 0);
+
+    return [...new Set(normalized)].sort();
+  }
+
+  /**
+   * Reduce free text to the ingredient itself: "2 large eggs, beaten" -> "egg"
+   */
+  static coreName(text: string): string {
+    const words = text
+      .toLowerCase()
+      .replace(/\([^)]*\)/g, ' ')
+      .split(',')[0]
+      .replace(/\b(to taste|as needed|for (garnish|serving|frying|greasing))\b/g, ' ')
+      .replace(/[\d½⅓⅔¼¾⅛/.\-–]+(?=\s|$)/g, ' ')
+      .split(/\s+/)
+      .filter(word => word.length > 0);
+
+    // Only leading measures are dropped, and never the last word
+    let start = 0;
+    while (start < words.length - 1 && this.LEADING_UNITS.has(words[start])) start++;
+
+    const kept = words.slice(start).filter(word => !this.DESCRIPTORS.has(word));
+    return this.normalizeName(kept.join(' '));
+  }
+
+  /**
+   * Keys to try against a catalog, most specific first: "extra virgin olive oil" -> ..., "olive oil", "oil".
+   * Shorter keys stop at the first identity modifier: "unsweetened almond milk" -> ..., "almond milk", never "milk"
+   */
+  static lookupKeys(text: string): string[] {
+    const core = this.coreName(text);
+    if (!core) return [];
+
+    const words = core.split(' ');
+    const modifierAt = words.findIndex(word => this.IDENTITY_MODIFIERS.has(word));
+    const shortest = modifierAt === -1 ? words.length - 1 : modifierAt;
+    const keys = words
+      .slice(0, shortest + 1)
+      .map((_, index) => words.slice(index))
+      .filter(tail => !['and', 'or', 'with', 'of'].includes(tail[0]))
+      .map(tail => this.normalizeName(tail.join(' ')));
+    return [...new Set(keys)].filter(key => key.length > 0);
+  }
+
+  /**
+   * Normalized lookup keys for a catalog entry, tagged with where each came from
+   */
+  static aliasKeys(
+    canonicalName: string,
+    aliases: string[],
+    pluralForms: string[]
+  ): { alias: string; kind: 'canonical' | 'alias' | 'plural' }[] {
+    const keys = [
+      { alias: this.normalizeName(canonicalName), kind: 'canonical' as const },
+      ...aliases.map(alias => ({ alias: this.normalizeName(alias), kind: 'alias' as const })),
+      ...pluralForms.map(plural => ({ alias: this.normalizeName(plural), kind: 'plural' as const })),
+      // Plurals are stored as typed too, in case singularization doesn't undo them
+      ...pluralForms.map(plural => ({ alias: plural.trim().toLowerCase(), kind: 'plural' as const }))
+    ];
+
+    const seen = new Set<string>();
+    return keys.filter(key => key.alias.length > 0 && !seen.has(key.alias) && seen.add(key.alias));
+  }
+
+  /**
+   * Whether an ingredient is a pantry staple (salt, water, cooking oil, ...)
+   */
+  static isStaple(name: string): boolean {
+    return this.STAPLES.has(this.normalizeName(name));
+  }
+
+  /**
+   * Best-effort English singularization for ingredient nouns
+   */
+  static singularize(word: string): string {
+    if (this.IRREGULAR_PLURALS[word]) return this.IRREGULAR_PLURALS[word];
+    if (this.INVARIANT_WORDS.has(word) || word.length <= 3) return word;
+
+    if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+    if (word.endsWith('oes')) return word.slice(0, -2);
+    if (/(ches|shes|sses|xes|zes)$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+
+    return word;
+  }
+
+  /**
+   * Jaccard similarity between two normalized ingredient sets (0-1)
+   */
+  static similarity(a: string[], b: string[]): number {
+    if (a.length === 0 && b.length === 0) return 1;
+
+    const setA = new Set(a);
+    const setB = new Set(b);
+    const intersection = [...setA].filter(item => setB.has(item)).length;
+    const union = new Set([...setA, ...setB]).size;
+
+    return intersection / union;
+  }
+}
@@ -0,0 +1,260 @@
+import { Ingredient, ParsedIngredientLine } from '../../types';
+
+export class IngredientParser {
+  /**
+   * Canonical units and the spellings that map to them (plurals and abbreviations included)
+   */
+  private static readonly UNITS: Record<string, string[]> = {
+    'cup': ['cup', 'cups', 'c'],
+    'tbsp': ['tbsp', 'tbsps', 'tbs', 'tbl', 'tablespoon', 'tablespoons'],
+    'tsp': ['tsp', 'tsps', 'teaspoon', 'teaspoons'],
+    'ml': ['ml', 'mls', 'milliliter', 'milliliters', 'millilitre', 'millilitres'],
+    'l': ['l', 'liter', 'liters', 'litre', 'litres'],
+    'fl oz': ['fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces'],
+    'pint': ['pint', 'pints', 'pt'],
+    'quart': ['quart', 'quarts', 'qt'],
+    'g': ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'],
+    'kg': ['kg', 'kgs', 'kilogram', 'kilograms'],
+    'oz': ['oz', 'ounce', 'ounces'],
+    'lb': ['lb', 'lbs', 'pound', 'pounds'],
+    'pinch': ['pinch', 'pinches'],
+    'dash': ['dash', 'dashes'],
+    'clove': ['clove', 'cloves'],
+    'can': ['can', 'cans', 'tin', 'tins'],
+    'jar': ['jar', 'jars'],
+    'package': ['package', 'packages', 'pkg', 'packet', 'packets'],
+    'slice': ['slice', 'slices'],
+    'piece': ['piece', 'pieces', 'pc', 'pcs'],
+    'bunch': ['bunch', 'bunches'],
+    'sprig': ['sprig', 'sprigs'],
+    'stick': ['stick', 'sticks'],
+    'head': ['head', 'heads'],
+    'handful': ['handful', 'handfuls']
+  };
+
+  /**
+   * Spellings whose case decides the unit: "1 T sugar" is a tablespoon, "1 t salt" a teaspoon
+   */
+  private static readonly CASE_SENSITIVE_UNITS: Record<string, string> = {
+    'T': 'tbsp',
+    'Tb': 'tbsp',
+    'Tbsp': 'tbsp',
+    't': 'tsp'
+  };
+
+  private static readonly UNICODE_FRACTIONS: Record<string, string> = {
+    '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5', '⅖': '2/5',
+    '⅗': '3/5', '⅘': '4/5', '⅙': '1/6', '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8'
+  };
+
+  private static readonly WORD_NUMBERS: Record<string, number> = {
+    'a': 1, 'an': 1, 'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5, 'six': 6,
+    'seven': 7, 'eight': 8, 'nine': 9, 'ten': 10, 'eleven': 11, 'twelve': 12,
+    'dozen': 12, 'half': 0.5
+  };
+
+  /**
+   * Phrases that mean "no fixed amount"; they move to notes
+   */
+  private static readonly UNMEASURED = /\b(to taste|as needed|as required|for garnish|for serving|for frying|for greasing|optional)\b/i;
+
+  private static readonly QUANTITY = '(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d*\\.\\d+|\\d+)';
+
+  /**
+   * Parse one free-text line ("1 1/2 cups all-purpose flour, sifted") into an Ingredient
+   */
+  static parse(line: string): ParsedIngredientLine {
+    const guesses: string[] = [];
+    const notes: string[] = [];
+
+    let text = this.normalizeFractions(line.trim().replace(/^[-*•·]\s*/, ''));
+
+    // Parentheticals are notes: "2-3 cloves garlic (minced)", "1 (14 oz) can tomatoes"
+    text = text
+      .replace(/\(([^)]*)\)/g, (_, inner: string) => {
+        if (inner.trim()) notes.push(inner.trim());
+        return ' ';
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    const quantity = this.readQuantity(text);
+    const size = this.readSize(quantity.amount, quantity.rest);
+    text = size.rest;
+    if (size.size) notes.push(size.size);
+
+    const unit = this.readUnit(text);
+    text = unit.rest.replace(/^of\s+/i, '');
+
+    if (quantity.range) {
+      notes.unshift(`${quantity.range.min}-${quantity.range.max}${unit.unit ? ` ${unit.raw}` : ''}`);
+    }
+
+    // Everything after the first comma describes preparation
+    const [namePart, ...prepParts] = text.split(',');
+    let name = namePart.trim();
+    const prep = prepParts.join(',').trim();
+    if (prep) notes.push(prep);
+
+    const unmeasured = line.match(this.UNMEASURED);
+    if (unmeasured) {
+      name = name.replace(this.UNMEASURED, '').replace(/\s+/g, ' ').trim();
+      if (!notes.some(note => note.toLowerCase().includes(unmeasured[1].toLowerCase()))) {
+        notes.push(unmeasured[1].toLowerCase());
+      }
+    }
+
+    let amount = size.amount;
+    if (amount === null) {
+      if (unmeasured) {
+        amount = 0;
+      } else {
+        amount = 1;
+        guesses.push('No amount found; assumed 1');
+      }
+    }
+
+    if (/\bplus\b/i.test(name)) {
+      guesses.push('Several amounts given; only the first was used');
+    }
+
+    if (/^\d/.test(name)) {
+      guesses.push('More numbers after the amount; kept them in the name');
+    }
+
+    if (!name) {
+      name = line.trim();
+      guesses.push('No ingredient name found; used the whole line');
+    }
+
+    const ingredient: Ingredient = {
+      name,
+      amount,
+      unit: unit.unit
+    };
+    if (notes.length > 0) ingredient.notes = notes.join('; ');
+
+    return {
+      input: line,
+      ingredient,
+      ...(quantity.range && { range: quantity.range }),
+      confidence: guesses.length === 0 ? 'high' : 'low',
+      guesses
+    };
+  }
+
+  /**
+   * Parse several lines, skipping blank ones
+   */
+  static parseLines(lines: string[]): ParsedIngredientLine[] {
+    return lines
+      .flatMap(line => line.split(/\r?\n/))
+      .filter(line => line.trim().length > 0)
+      .map(line => this.parse(line));
+  }
+
+  /**
+   * Canonical spelling of a unit ("Tablespoons" -> "tbsp"); unknown units are lowercased as-is
+   */
+  static canonicalUnit(unit: string): string {
+    const trimmed = unit.trim().replace(/\.$/, '');
+    if (this.CASE_SENSITIVE_UNITS[trimmed]) return this.CASE_SENSITIVE_UNITS[trimmed];
+
+    const lower = trimmed.toLowerCase();
+    for (const [canonical, spellings] of Object.entries(this.UNITS)) {
+      if (spellings.includes(lower)) return canonical;
+    }
+    return lower;
+  }
+
+  private static normalizeFractions(text: string): string {
+    return text
+      .replace(/⁄/g, '/')
+      .replace(/[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]/g, char => ` ${this.UNICODE_FRACTIONS[char]}`)
+      .replace(/(\d)\s+(?=\d+\/\d+)/g, '$1 ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private static readQuantity(text: string): {
+    amount: number | null;
+    range?: { min: number; max: number };
+    rest: string;
+  } {
+    const numeric = text.match(new RegExp(`^(${this.QUANTITY})(?:\\s*(?:-|–|to)\\s*(${this.QUANTITY}))?\\s*`));
+
+    if (numeric) {
+      const min = this.toNumber(numeric[1]);
+      const max = numeric[2] ? this.toNumber(numeric[2]) : null;
+      const rest = text.slice(numeric[0].length);
+
+      // Ranges use the upper bound so there is enough
+      if (max !== null && max > min) {
+        return { amount: max, range: { min, max }, rest };
+      }
+      return { amount: min, rest };
+    }
+
+    const word = text.match(/^(a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|dozen|half)\b\s*(?:a\s+|an\s+)?/i);
+    if (word) {
+      return { amount: this.WORD_NUMBERS[word[1].toLowerCase()], rest: text.slice(word[0].length) };
+    }
+
+    return { amount: null, rest: text };
+  }
+
+  /**
+   * A number joined to a word by a hyphen is the size of each item, not the amount: "2-inch piece ginger" is one
+   * 2-inch piece, "4 6-ounce salmon fillets" four fillets
+   */
+  private static readSize(amount: number | null, text: string): {
+    size: string | null;
+    amount: number | null;
+    rest: string;
+  } {
+    if (amount === null) return { size: null, amount, rest: text };
+
+    const joined = text.match(/^-\s?([A-Za-z]+)\b\s*/);
+    if (joined) {
+      return { size: `${amount}-${joined[1].toLowerCase()}`, amount: 1, rest: text.slice(joined[0].length) };
+    }
+
+    const following = text.match(new RegExp(`^(${this.QUANTITY})-([A-Za-z]+)\\b\\s*`));
+    if (following) {
+      return { size: `${following[1]}-${following[2].toLowerCase()}`, amount, rest: text.slice(following[0].length) };
+    }
+
+    return { size: null, amount, rest: text };
+  }
+
+  private static readUnit(text: string): { unit: string; raw: string; rest: string } {
+    // "fl oz" is the only two-word unit
+    const fluid = text.match(/^(fl\.?\s*oz|fluid\s+ounces?)\.?(?=[\s,]|$)/i);
+    if (fluid) {
+      return { unit: 'fl oz', raw: fluid[1], rest: text.slice(fluid[0].length).trim() };
+    }
+
+    const token = text.match(/^([A-Za-z]+)\.?(?=[\s,]|$)/);
+    if (!token) return { unit: '', raw: '', rest: text };
+
+    const unit = this.canonicalUnit(token[1]);
+    if (this.UNITS[unit]) {
+      return { unit, raw: token[1], rest: text.slice(token[0].length).trim() };
+    }
+
+    return { unit: '', raw: '', rest: text };
+  }
+
+  private static toNumber(quantity: string): number {
+    const parts = quantity.trim().split(/\s+/);
+    const value = parts.reduce((sum, part) => {
+      if (part.includes('/')) {
+        const [numerator, denominator] = part.split('/').map(Number);
+        return sum + (denominator ? numerator / denominator : 0);
+      }
+      return sum + Number(part);
+    }, 0);
+
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Incrementally splits a streamed top-level JSON array into its elements.
+ * Text before the opening bracket (code fences, preambles) is ignored.
+ */
+export class JsonArrayStreamParser {
+  private started = false;
+  private finished = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private current = '';
+
+  /**
+   * Feed a chunk of model output, returning the raw text of every element it completed
+   */
+  push(chunk: string): string[] {
+    const completed: string[] = [];
+
+    for (const char of chunk) {
+      if (this.finished) break;
+
+      if (!this.started) {
+        if (char === '[') this.started = true;
+        continue;
+      }
+
+      if (this.inString) {
+        this.current += char;
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (this.depth === 0) {
+        // Between elements: skip separators, stop at the closing bracket
+        if (char === ']') {
+          this.finished = true;
+        } else if (char === '{' || char === '[') {
+          this.depth = 1;
+          this.current = char;
+        }
+        continue;
+      }
+
+      this.current += char;
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        this.depth--;
+        if (this.depth === 0) {
+          completed.push(this.current);
+          this.current = '';
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Whether the closing bracket of the array has been seen
+   */
+  isComplete(): boolean {
+    return this.finished;
+  }
+}
@@ -0,0 +1,324 @@
+import {
+  MealCandidate,
+  MealNutrition,
+  MealPlanDaySummary,
+  MealPlanEntry,
+  MealPlanTargets,
+  MealSlot,
+  NutritionalGoals,
+  NutritionalInfo,
+  Recipe
+} from '../../types';
+
+type PlannedMeal = Pick<MealPlanEntry, 'day' | 'slot' | 'recipeId' | 'recipeName' | 'source' | 'servings' | 'nutrition'>;
+
+export class MealPlanner {
+  static readonly SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+  /**
+   * Share of the day's calories each slot should carry
+   */
+  private static readonly SLOT_SHARE: Record<MealSlot, number> = {
+    breakfast: 0.25,
+    lunch: 0.3,
+    dinner: 0.35,
+    snack: 0.1
+  };
+
+  /**
+   * Default calories and macro split (protein/carb/fat %) per goal when the profile leaves them unset
+   */
+  private static readonly GOAL_DEFAULTS: Record<NutritionalGoals['goal'], { calories: number; macros: [number, number, number] }> = {
+    weight_loss: { calories: 1800, macros: [30, 40, 30] },
+    weight_gain: { calories: 2800, macros: [20, 50, 30] },
+    maintenance: { calories: 2000, macros: [20, 50, 30] },
+    muscle_gain: { calories: 2600, macros: [30, 45, 25] }
+  };
+
+  /**
+   * Portions the planner may serve (in recipe servings) to get closer to a slot's calories
+   */
+  private static readonly PORTIONS = [0.5, 1, 1.5, 2];
+
+  static readonly CALORIE_TOLERANCE = 0.1; // +/- 10% of daily calories
+  static readonly MACRO_TOLERANCE_POINTS = 5; // +/- 5 percentage points of energy per macro
+  private static readonly MAX_WEEKLY_USES = 2;
+
+  /**
+   * Turn profile goals into daily gram targets
+   */
+  static buildTargets(goals?: NutritionalGoals): MealPlanTargets {
+    const defaults = this.GOAL_DEFAULTS[goals?.goal || 'maintenance'];
+    const calories = goals?.dailyCalories || defaults.calories;
+    const [proteinPct, carbPct, fatPct] = goals?.proteinPercentage && goals.carbPercentage && goals.fatPercentage
+      ? [goals.proteinPercentage, goals.carbPercentage, goals.fatPercentage]
+      : defaults.macros;
+
+    return {
+      calories,
+      protein: Math.round((calories * proteinPct) / 100 / 4),
+      carbohydrates: Math.round((calories * carbPct) / 100 / 4),
+      fat: Math.round((calories * fatPct) / 100 / 9),
+      fiber: goals?.fiberGoal,
+      sodiumLimit: goals?.sodiumLimit
+    };
+  }
+
+  /**
+   * Build a candidate from a stored recipe with per-serving nutrition; slot fit comes from its tags
+   */
+  static toCandidate(recipe: Recipe, nutrition: NutritionalInfo): MealCandidate {
+    const tags = recipe.tags.map(tag => tag.toLowerCase());
+    const tagged = this.SLOTS.filter(slot => tags.includes(slot));
+
+    return {
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      source: tags.includes('ai-generated') ? 'ai' : 'stored',
+      // Untagged recipes are treated as main meals
+      slots: tagged.length > 0 ? tagged : ['lunch', 'dinner'],
+      nutrition: {
+        calories: nutrition.calories,
+        protein: nutrition.protein,
+        carbohydrates: nutrition.carbohydrates,
+        fat: nutrition.fat,
+        fiber: nutrition.fiber,
+        sodium: nutrition.sodium
+      }
+    };
+  }
+
+  /**
+   * Fill every open (day, slot) of a week, keeping the fixed meals and avoiding repeats
+   */
+  static plan(
+    targets: MealPlanTargets,
+    slots: MealSlot[],
+    candidates: MealCandidate[],
+    fixed: PlannedMeal[] = []
+  ): PlannedMeal[] {
+    const planned: PlannedMeal[] = [...fixed];
+
+    for (let day = 0; day < 7; day++) {
+      for (const slot of this.orderSlots(slots)) {
+        if (planned.some(meal => meal.day === day && meal.slot === slot)) continue;
+
+        const meal = this.pickMeal(targets, slots, candidates, planned, day, slot);
+        if (meal) planned.push(meal);
+      }
+    }
+
+    return planned.sort((a, b) => a.day - b.day || this.SLOTS.indexOf(a.slot) - this.SLOTS.indexOf(b.slot));
+  }
+
+  /**
+   * Choose the best meal for one slot given everything already planned
+   */
+  static pickMeal(
+    targets: MealPlanTargets,
+    slots: MealSlot[],
+    candidates: MealCandidate[],
+    planned: PlannedMeal[],
+    day: number,
+    slot: MealSlot,
+    exclude: string[] = []
+  ): PlannedMeal | null {
+    const eligible = candidates.filter(c => c.slots.includes(slot) && !exclude.includes(c.recipeId));
+    if (eligible.length === 0) return null;
+
+    // Aim the slot at what is left of today's calories, shared among the slots still open
+    const today = planned.filter(meal => meal.day === day);
+    const eaten = today.reduce((sum, meal) => sum + meal.nutrition.calories, 0);
+    const openSlots = slots.filter(s => s === slot || !today.some(meal => meal.slot === s));
+    const openShare = openSlots.reduce((sum, s) => sum + this.SLOT_SHARE[s], 0);
+    const dayCalories = targets.calories * this.planShare(slots);
+    const slotCalories = Math.max(dayCalories - eaten, 0) * (this.SLOT_SHARE[slot] / openShare);
+
+    // Relax repeat rules step by step until something fits
+    const rules: ((c: MealCandidate) => boolean)[] = [
+      c => !this.usedOn(planned, c, day) && !this.usedOn(planned, c, day - 1) && !this.usedOn(planned, c, day + 1)
+        && this.weeklyUses(planned, c) < this.MAX_WEEKLY_USES,
+      c => !this.usedOn(planned, c, day) && this.weeklyUses(planned, c) < this.MAX_WEEKLY_USES,
+      c => !this.usedOn(planned, c, day),
+      () => true
+    ];
+
+    for (const rule of rules) {
+      const pool = eligible.filter(rule);
+      if (pool.length === 0) continue;
+
+      let best: PlannedMeal | null = null;
+      let bestScore = Infinity;
+
+      for (const candidate of pool) {
+        for (const portion of this.PORTIONS) {
+          const nutrition = this.scale(candidate.nutrition, portion);
+          const score = this.score(nutrition, slotCalories, targets, slot);
+          if (score < bestScore) {
+            bestScore = score;
+            best = {
+              day,
+              slot,
+              recipeId: candidate.recipeId,
+              recipeName: candidate.recipeName,
+              source: candidate.source,
+              servings: portion,
+              nutrition
+            };
+          }
+        }
+      }
+
+      return best;
+    }
+
+    return null;
+  }
+
+  /**
+   * Per-day totals checked against the targets, scaled to the share of the day the planned slots cover
+   */
+  static summarize(
+    targets: MealPlanTargets,
+    slots: MealSlot[],
+    entries: MealPlanEntry[],
+    weekStart: string
+  ): MealPlanDaySummary[] {
+    const summaries: MealPlanDaySummary[] = [];
+    const share = this.planShare(slots);
+    const calories = Math.round(targets.calories * share);
+
+    for (let day = 0; day < 7; day++) {
+      const totals = this.sum(entries.filter(entry => entry.day === day).map(entry => entry.nutrition));
+      const issues: string[] = [];
+
+      const calorieDeviation = (totals.calories - calories) / calories;
+      if (Math.abs(calorieDeviation) > this.CALORIE_TOLERANCE) {
+        issues.push(`Calories ${totals.calories} vs target ${calories}`);
+      }
+
+      const actual = this.macroSplit(totals);
+      const wanted = this.macroSplit({ ...targets, fiber: 0, sodium: 0 });
+      (['protein', 'carbohydrates', 'fat'] as const).forEach(macro => {
+        if (Math.abs(actual[macro] - wanted[macro]) > this.MACRO_TOLERANCE_POINTS) {
+          issues.push(`${macro} ${actual[macro]}% of energy vs target ${wanted[macro]}%`);
+        }
+      });
+
+      const sodiumLimit = targets.sodiumLimit && Math.round(targets.sodiumLimit * share);
+      if (sodiumLimit && totals.sodium > sodiumLimit) {
+        issues.push(`Sodium ${totals.sodium}mg exceeds limit ${sodiumLimit}mg`);
+      }
+
+      const fiber = targets.fiber && Math.round(targets.fiber * share);
+      if (fiber && totals.fiber < fiber) {
+        issues.push(`Fiber ${totals.fiber}g below goal ${fiber}g`);
+      }
+
+      summaries.push({
+        day,
+        date: this.dateForDay(weekStart, day),
+        totals,
+        withinTolerance: issues.length === 0,
+        issues
+      });
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Monday of the week containing the given date (today by default)
+   */
+  static resolveWeekStart(weekStart?: string): string {
+    const date = weekStart ? new Date(`${weekStart}T00:00:00Z`) : new Date();
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    return date.toISOString().slice(0, 10);
+  }
+
+  static dateForDay(weekStart: string, day: number): string {
+    const date = new Date(`${weekStart}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + day);
+    return date.toISOString().slice(0, 10);
+  }
+
+  // Lower is better: calorie miss relative to the slot, plus macro split distance, plus sodium overrun
+  private static score(nutrition: MealNutrition, slotCalories: number, targets: MealPlanTargets, slot: MealSlot): number {
+    const calorieMiss = slotCalories > 0
+      ? Math.abs(nutrition.calories - slotCalories) / slotCalories
+      : nutrition.calories / 100;
+
+    const actual = this.macroSplit(nutrition);
+    const wanted = this.macroSplit({ ...targets, fiber: 0, sodium: 0 });
+    const macroMiss = (
+      Math.abs(actual.protein - wanted.protein) +
+      Math.abs(actual.carbohydrates - wanted.carbohydrates) +
+      Math.abs(actual.fat - wanted.fat)
+    ) / 100;
+
+    const sodiumBudget = targets.sodiumLimit ? targets.sodiumLimit * this.SLOT_SHARE[slot] : Infinity;
+    const sodiumMiss = nutrition.sodium > sodiumBudget ? (nutrition.sodium - sodiumBudget) / sodiumBudget : 0;
+
+    return calorieMiss * 2 + macroMiss + sodiumMiss;
+  }
+
+  // Fraction of the day's intake the planned slots are expected to carry
+  private static planShare(slots: MealSlot[]): number {
+    return slots.reduce((sum, slot) => sum + this.SLOT_SHARE[slot], 0);
+  }
+
+  // Percentage of energy from each macro (4/4/9 kcal per gram)
+  private static macroSplit(nutrition: MealNutrition): { protein: number; carbohydrates: number; fat: number } {
+    const energy = nutrition.protein * 4 + nutrition.carbohydrates * 4 + nutrition.fat * 9;
+    if (energy === 0) return { protein: 0, carbohydrates: 0, fat: 0 };
+
+    return {
+      protein: Math.round((nutrition.protein * 4 * 100) / energy),
+      carbohydrates: Math.round((nutrition.carbohydrates * 4 * 100) / energy),
+      fat: Math.round((nutrition.fat * 9 * 100) / energy)
+    };
+  }
+
+  private static scale(nutrition: MealNutrition, portion: number): MealNutrition {
+    return {
+      calories: Math.round(nutrition.calories * portion),
+      protein: Math.round(nutrition.protein * portion * 10) / 10,
+      carbohydrates: Math.round(nutrition.carbohydrates * portion * 10) / 10,
+      fat: Math.round(nutrition.fat * portion * 10) / 10,
+      fiber: Math.round(nutrition.fiber * portion * 10) / 10,
+      sodium: Math.round(nutrition.sodium * portion)
+    };
+  }
+
+  private static sum(items: MealNutrition[]): MealNutrition {
+    const total = items.reduce((acc, item) => ({
+      calories: acc.calories + item.calories,
+      protein: acc.protein + item.protein,
+      carbohydrates: acc.carbohydrates + item.carbohydrates,
+      fat: acc.fat + item.fat,
+      fiber: acc.fiber + item.fiber,
+      sodium: acc.sodium + item.sodium
+    }), { calories: 0, protein: 0, carbohydrates: 0, fat: 0, fiber: 0, sodium: 0 });
+
+    return {
+      ...total,
+      protein: Math.round(total.protein * 10) / 10,
+      carbohydrates: Math.round(total.carbohydrates * 10) / 10,
+      fat: Math.round(total.fat * 10) / 10,
+      fiber: Math.round(total.fiber * 10) / 10
+    };
+  }
+
+  // Plan the small snack last so it can absorb what the main meals left over
+  private static orderSlots(slots: MealSlot[]): MealSlot[] {
+    return this.SLOTS.filter(slot => slots.includes(slot));
+  }
+
+  private static usedOn(planned: PlannedMeal[], candidate: MealCandidate, day: number): boolean {
+    return planned.some(meal => meal.day === day && meal.recipeId === candidate.recipeId);
+  }
+
+  private static weeklyUses(planned: PlannedMeal[], candidate: MealCandidate): number {
+    return planned.filter(meal => meal.recipeId === candidate.recipeId).length;
+  }
+}
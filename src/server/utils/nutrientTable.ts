@@ -0,0 +1,122 @@
+import { NutrientProfile } from '../../types';
+
+/**
+ * Build a profile from per-100g values: kcal, protein g, carbohydrates g, fat g, fiber g, sugar g,
+ * sodium mg, vitamin A µg RAE, vitamin C mg, calcium mg, iron mg
+ */
+const per100g = (
+  calories: number, protein: number, carbohydrates: number, fat: number, fiber: number, sugar: number,
+  sodium: number, vitaminA: number, vitaminC: number, calcium: number, iron: number,
+  unitWeights: Record<string, number> = {}
+): NutrientProfile => ({
+  per100g: {
+    calories, protein, carbohydrates, fat, fiber, sugar, sodium,
+    vitamins: { vitaminA, vitaminC },
+    minerals: { calcium, iron }
+  },
+  unitWeights
+});
+
+// Per-100g values (USDA-style, raw or as sold) keyed by ingredients_catalog canonical name
+export const NUTRIENT_TABLE: Record<string, NutrientProfile> = {
+  // Produce
+  'onion': per100g(40, 1.1, 9.3, 0.1, 1.7, 4.2, 4, 0, 7.4, 23, 0.2, { '': 110 }),
+  'red onion': per100g(40, 1.1, 9.3, 0.1, 1.7, 4.2, 4, 0, 7.4, 23, 0.2, { '': 110 }),
+  'green onion': per100g(32, 1.8, 7.3, 0.2, 2.6, 2.3, 16, 50, 18.8, 72, 1.5, { '': 15, 'bunch': 100 }),
+  'garlic': per100g(149, 6.4, 33.1, 0.5, 2.1, 1, 17, 0, 31.2, 181, 1.7, { '': 3, 'clove': 3, 'head': 40 }),
+  'ginger': per100g(80, 1.8, 17.8, 0.8, 2, 1.7, 13, 0, 5, 16, 0.6, { '': 15, 'piece': 15 }),
+  'tomato': per100g(18, 0.9, 3.9, 0.2, 1.2, 2.6, 5, 42, 13.7, 10, 0.3, { '': 123 }),
+  'cherry tomato': per100g(18, 0.9, 3.9, 0.2, 1.2, 2.6, 5, 42, 13.7, 10, 0.3, { '': 17 }),
+  'potato': per100g(77, 2, 17.5, 0.1, 2.2, 0.8, 6, 0, 19.7, 12, 0.8, { '': 213 }),
+  'sweet potato': per100g(86, 1.6, 20.1, 0.1, 3, 4.2, 55, 709, 2.4, 30, 0.6, { '': 130 }),
+  'carrot': per100g(41, 0.9, 9.6, 0.2, 2.8, 4.7, 69, 835, 5.9, 33, 0.3, { '': 61 }),
+  'celery': per100g(16, 0.7, 3, 0.2, 1.6, 1.3, 80, 22, 3.1, 40, 0.2, { '': 40, 'stalk': 40 }),
+  'bell pepper': per100g(26, 1, 6, 0.3, 2.1, 4.2, 4, 157, 128, 7, 0.4, { '': 120 }),
+  'chili pepper': per100g(40, 1.9, 8.8, 0.4, 1.5, 5.3, 9, 48, 144, 14, 1, { '': 14 }),
+  'spinach': per100g(23, 2.9, 3.6, 0.4, 2.2, 0.4, 79, 469, 28.1, 99, 2.7, { 'bunch': 340, 'handful': 30 }),
+  'broccoli': per100g(34, 2.8, 6.6, 0.4, 2.6, 1.7, 33, 31, 89.2, 47, 0.7, { '': 300, 'head': 300 }),
+  'mushroom': per100g(22, 3.1, 3.3, 0.3, 1, 2, 5, 0, 2.1, 3, 0.5, { '': 18 }),
+  'zucchini': per100g(17, 1.2, 3.1, 0.3, 1, 2.5, 8, 10, 17.9, 16, 0.4, { '': 200 }),
+  'eggplant': per100g(25, 1, 5.9, 0.2, 3, 3.5, 2, 1, 2.2, 9, 0.2, { '': 450 }),
+  'lemon': per100g(29, 1.1, 9.3, 0.3, 2.8, 2.5, 2, 1, 53, 26, 0.6, { '': 85 }),
+  'lemon juice': per100g(22, 0.4, 6.9, 0.2, 0.3, 2.5, 1, 1, 38.7, 6, 0.1),
+  'lime': per100g(30, 0.7, 10.5, 0.2, 2.8, 1.7, 2, 2, 29.1, 33, 0.6, { '': 67 }),
+  'avocado': per100g(160, 2, 8.5, 14.7, 6.7, 0.7, 7, 7, 10, 12, 0.6, { '': 150 }),
+  'cilantro': per100g(23, 2.1, 3.7, 0.5, 2.8, 0.9, 46, 337, 27, 67, 1.8, { 'bunch': 60, 'sprig': 1, 'handful': 10 }),
+  'parsley': per100g(36, 3, 6.3, 0.8, 3.3, 0.9, 56, 421, 133, 138, 6.2, { 'bunch': 60, 'sprig': 1, 'handful': 10 }),
+  'basil': per100g(23, 3.2, 2.7, 0.6, 1.6, 0.3, 4, 264, 18, 177, 3.2, { 'bunch': 30, 'sprig': 2, 'handful': 10 }),
+
+  // Meat & seafood
+  'chicken breast': per100g(120, 22.5, 0, 2.6, 0, 0, 45, 9, 0, 5, 0.4, { '': 200 }),
+  'chicken thigh': per100g(121, 19.7, 0, 4.1, 0, 0, 86, 12, 0, 9, 0.8, { '': 115 }),
+  'chicken': per100g(215, 18.6, 0, 15.1, 0, 0, 70, 41, 0, 11, 0.9, { '': 1500 }),
+  'ground beef': per100g(254, 17.2, 0, 20, 0, 0, 66, 0, 0, 18, 1.9),
+  'bacon': per100g(417, 13, 1.4, 40, 0, 0, 833, 11, 0, 6, 0.4, { '': 28, 'slice': 28 }),
+  'guanciale': per100g(655, 7.3, 0, 69.6, 0, 0, 1200, 0, 0, 3, 0.4, { 'slice': 10 }),
+  'pancetta': per100g(458, 14.3, 0, 44.6, 0, 0, 1600, 0, 0, 7, 0.6, { 'slice': 10 }),
+  'salmon': per100g(208, 20.4, 0, 13.4, 0, 0, 59, 58, 3.9, 9, 0.3, { '': 170 }),
+  'tuna': per100g(116, 25.5, 0, 0.8, 0, 0, 247, 17, 0, 11, 1.5, { 'can': 142 }),
+  'shrimp': per100g(85, 20.1, 0, 0.5, 0, 0, 119, 0, 0, 64, 0.5, { '': 15 }),
+
+  // Dairy & eggs
+  'egg': per100g(143, 12.6, 0.7, 9.5, 0, 0.4, 142, 160, 0, 56, 1.8, { '': 50 }),
+  'egg yolk': per100g(322, 15.9, 3.6, 26.5, 0, 0.6, 48, 381, 0, 129, 2.7, { '': 17 }),
+  'egg white': per100g(52, 10.9, 0.7, 0.2, 0, 0.7, 166, 0, 0, 7, 0.1, { '': 33 }),
+  'milk': per100g(61, 3.2, 4.8, 3.3, 0, 5.1, 43, 46, 0, 113, 0),
+  'butter': per100g(717, 0.9, 0.1, 81.1, 0, 0.1, 11, 684, 0, 24, 0, { 'stick': 113 }),
+  'heavy cream': per100g(340, 2.8, 2.7, 36.1, 0, 2.9, 27, 411, 0.6, 66, 0.1),
+  'sour cream': per100g(198, 2.4, 4.6, 19.4, 0, 3.4, 31, 175, 0.9, 101, 0.1),
+  'yogurt': per100g(61, 3.5, 4.7, 3.3, 0, 4.7, 46, 27, 0.5, 121, 0.1),
+  'parmesan': per100g(392, 35.8, 3.2, 25.8, 0, 0.9, 1529, 207, 0, 1184, 0.8),
+  'pecorino romano': per100g(387, 31.8, 3.6, 26.9, 0, 0.8, 1200, 160, 0, 1064, 0.8),
+  'mozzarella': per100g(300, 22.2, 2.2, 22.4, 0, 1, 627, 179, 0, 505, 0.4, { '': 125, 'slice': 28 }),
+  'cheddar': per100g(403, 24.9, 1.3, 33.1, 0, 0.5, 621, 265, 0, 721, 0.7, { 'slice': 28 }),
+
+  // Bakery
+  'bread': per100g(265, 9, 49.4, 3.2, 2.7, 5, 491, 0, 0, 151, 3.6, { '': 28, 'slice': 28 }),
+  'tortilla': per100g(306, 8.2, 50.6, 7.7, 3.5, 2.5, 628, 0, 0, 140, 3.6, { '': 45 }),
+  'breadcrumb': per100g(395, 13.4, 71.9, 5.3, 4.5, 6.2, 732, 0, 0, 183, 4.8),
+
+  // Pantry
+  'all-purpose flour': per100g(364, 10.3, 76.3, 1, 2.7, 0.3, 2, 0, 0, 15, 4.6),
+  'sugar': per100g(387, 0, 100, 0, 0, 99.8, 1, 0, 0, 1, 0.1),
+  'brown sugar': per100g(380, 0.1, 98.1, 0, 0, 97, 28, 0, 0, 83, 0.7),
+  'honey': per100g(304, 0.3, 82.4, 0, 0.2, 82.1, 4, 0, 0.5, 6, 0.4),
+  'olive oil': per100g(884, 0, 0, 100, 0, 0, 2, 0, 0, 1, 0.6),
+  'vegetable oil': per100g(884, 0, 0, 100, 0, 0, 0, 0, 0, 0, 0),
+  'rice': per100g(365, 7.1, 80, 0.7, 1.3, 0.1, 5, 0, 0, 28, 0.8),
+  'arborio rice': per100g(360, 6.5, 79, 0.6, 1.4, 0.1, 1, 0, 0, 10, 0.8),
+  'pasta': per100g(371, 13, 74.7, 1.5, 3.2, 2.7, 6, 0, 0, 21, 3.3, { 'package': 454 }),
+  'spaghetti': per100g(371, 13, 74.7, 1.5, 3.2, 2.7, 6, 0, 0, 21, 3.3, { 'package': 454 }),
+  'rice noodle': per100g(364, 6, 80.2, 0.6, 1.6, 0.1, 182, 0, 0, 18, 0.7, { 'package': 227 }),
+  'egg noodle': per100g(384, 14.2, 71.3, 4.4, 3.3, 1.9, 21, 15, 0, 35, 4.3, { 'package': 340 }),
+  'oat': per100g(389, 16.9, 66.3, 6.9, 10.6, 0, 2, 0, 0, 54, 4.7),
+  'chickpea': per100g(164, 8.9, 27.4, 2.6, 7.6, 4.8, 7, 1, 1.3, 49, 2.9, { 'can': 240 }),
+  'black bean': per100g(132, 8.9, 23.7, 0.5, 8.7, 0.3, 1, 0, 0, 27, 2.1, { 'can': 240 }),
+  'lentil': per100g(352, 24.6, 63.4, 1.1, 10.7, 2, 6, 2, 4.5, 35, 6.5),
+  'canned tomato': per100g(21, 1, 4, 0.3, 1.3, 2.6, 115, 34, 12.6, 31, 1.3, { 'can': 400 }),
+  'tomato paste': per100g(82, 4.3, 18.9, 0.5, 4.1, 12.2, 59, 76, 21.9, 36, 3, { 'can': 170 }),
+  'chicken broth': per100g(6, 0.6, 0.4, 0.2, 0, 0.3, 343, 0, 0, 4, 0.2, { 'can': 400 }),
+  'vegetable broth': per100g(5, 0.2, 0.9, 0.1, 0, 0.5, 300, 0, 0, 4, 0.1, { 'can': 400 }),
+  'soy sauce': per100g(53, 8.1, 4.9, 0.6, 0.8, 0.4, 5493, 0, 0, 33, 1.5),
+  'fish sauce': per100g(35, 5.1, 3.6, 0, 0, 3.6, 7851, 4, 0.5, 43, 0.8),
+  'tofu': per100g(144, 17.3, 2.8, 8.7, 2.3, 0.6, 14, 0, 0.2, 683, 2.7, { 'package': 400 }),
+  'coconut milk': per100g(197, 2, 2.8, 21.3, 0, 3.3, 13, 0, 1, 18, 3.3, { 'can': 400 }),
+  'peanut': per100g(567, 25.8, 16.1, 49.2, 8.5, 4.7, 18, 0, 0, 92, 4.6),
+  'peanut butter': per100g(588, 25.1, 19.6, 50.4, 6, 9.2, 459, 0, 0, 43, 1.9),
+  'almond': per100g(579, 21.2, 21.6, 49.9, 12.5, 4.4, 1, 0, 0, 269, 3.7),
+  'walnut': per100g(654, 15.2, 13.7, 65.2, 6.7, 2.6, 2, 1, 1.3, 98, 2.9),
+  'baking powder': per100g(53, 0, 27.7, 0, 0.2, 0, 10600, 0, 0, 5876, 11),
+  'baking soda': per100g(0, 0, 0, 0, 0, 0, 27360, 0, 0, 0, 0),
+  'vinegar': per100g(18, 0, 0, 0, 0, 0, 2, 0, 0, 6, 0),
+
+  // Spices & seasonings
+  'salt': per100g(0, 0, 0, 0, 0, 0, 38758, 0, 0, 24, 0.3),
+  'black pepper': per100g(251, 10.4, 64, 3.3, 25.3, 0.6, 20, 27, 0, 443, 9.7),
+  'cumin': per100g(375, 17.8, 44.2, 22.3, 10.5, 2.3, 168, 64, 7.7, 931, 66.4),
+  'paprika': per100g(282, 14.1, 54, 12.9, 34.9, 10.3, 68, 2463, 0.9, 229, 21.1),
+  'cinnamon': per100g(247, 4, 80.6, 1.2, 53.1, 2.2, 10, 15, 3.8, 1002, 8.3),
+  'oregano': per100g(265, 9, 68.9, 4.3, 42.5, 4.1, 25, 85, 2.3, 1597, 36.8),
+  'chili powder': per100g(282, 13.5, 49.7, 14.3, 34.8, 7.2, 1640, 1483, 0.7, 330, 17.3),
+  'vanilla extract': per100g(288, 0.1, 12.7, 0.1, 0, 12.7, 9, 0, 0, 11, 0.1)
+};
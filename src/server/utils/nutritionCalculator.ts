@@ -0,0 +1,153 @@
+import {
+  Ingredient,
+  IngredientCatalogEntry,
+  NutrientProfile,
+  NutrientValues,
+  ResolvedIngredientNutrition,
+  UnresolvedIngredient,
+  UnresolvedReason
+} from '../../types';
+import { IngredientParser } from './ingredientParser';
+
+export interface IngredientLookup {
+  ingredient: Ingredient;
+  entry: IngredientCatalogEntry | null;
+  profile: NutrientProfile | null;
+}
+
+export class NutritionCalculator {
+  private static readonly GRAMS_PER_UNIT: Record<string, number> = {
+    'g': 1, 'kg': 1000, 'oz': 28.3495, 'lb': 453.592
+  };
+
+  private static readonly ML_PER_UNIT: Record<string, number> = {
+    'ml': 1, 'l': 1000, 'tsp': 4.92892, 'tbsp': 14.7868, 'cup': 236.588, 'fl oz': 29.5735,
+    'pint': 473.176, 'quart': 946.353, 'pinch': 0.31, 'dash': 0.62
+  };
+
+  /**
+   * Units that mean "one of the thing"; they share the profile's whole-item weight
+   */
+  private static readonly WHOLE_ITEM_UNITS = ['', 'piece', 'whole', 'each', 'medium', 'large', 'small'];
+
+  /**
+   * Sum nutrients for the recipe's ingredients and divide by servings.
+   * Ingredients without a catalog entry, nutrient data or a usable unit are reported, not guessed.
+   */
+  static calculate(lookups: IngredientLookup[], servingSize: number): {
+    perServing: NutrientValues;
+    resolved: ResolvedIngredientNutrition[];
+    unresolved: UnresolvedIngredient[];
+  } {
+    const total = this.empty();
+    const resolved: ResolvedIngredientNutrition[] = [];
+    const unresolved: UnresolvedIngredient[] = [];
+
+    for (const { ingredient, entry, profile } of lookups) {
+      // "Salt to taste" and similar lines carry no measurable amount
+      if (ingredient.amount <= 0) continue;
+
+      const reason = this.unresolvedReason(ingredient, entry, profile);
+      if (reason) {
+        unresolved.push({ name: ingredient.name, reason });
+        continue;
+      }
+
+      const grams = this.toGrams(ingredient, entry!, profile!)!;
+      this.addInto(total, profile!.per100g, grams / 100);
+      resolved.push({ name: ingredient.name, catalogName: entry!.canonicalName, grams: Math.round(grams * 10) / 10 });
+    }
+
+    return {
+      perServing: this.round(this.scale(total, 1 / Math.max(servingSize, 1))),
+      resolved,
+      unresolved
+    };
+  }
+
+  /**
+   * Weight in grams of an ingredient line, or null when its unit cannot be converted
+   */
+  static toGrams(ingredient: Ingredient, entry: IngredientCatalogEntry, profile: NutrientProfile): number | null {
+    const unit = IngredientParser.canonicalUnit(ingredient.unit);
+
+    if (this.GRAMS_PER_UNIT[unit]) {
+      return ingredient.amount * this.GRAMS_PER_UNIT[unit];
+    }
+
+    if (this.ML_PER_UNIT[unit]) {
+      return entry.density ? ingredient.amount * this.ML_PER_UNIT[unit] * entry.density : null;
+    }
+
+    const countUnit = this.WHOLE_ITEM_UNITS.includes(unit) ? '' : unit;
+    const weight = profile.unitWeights[countUnit];
+    return weight ? ingredient.amount * weight : null;
+  }
+
+  /**
+   * Add two sets of nutrient values, e.g. local results and an AI estimate for the remainder
+   */
+  static combine(a: NutrientValues, b: NutrientValues): NutrientValues {
+    const total = this.empty();
+    this.addInto(total, a, 1);
+    this.addInto(total, b, 1);
+    return this.round(total);
+  }
+
+  private static unresolvedReason(
+    ingredient: Ingredient,
+    entry: IngredientCatalogEntry | null,
+    profile: NutrientProfile | null
+  ): UnresolvedReason | null {
+    if (!entry) return 'not_in_catalog';
+    if (!profile) return 'no_nutrient_data';
+    if (this.toGrams(ingredient, entry, profile) !== null) return null;
+
+    return this.ML_PER_UNIT[IngredientParser.canonicalUnit(ingredient.unit)] ? 'no_density' : 'unknown_unit';
+  }
+
+  private static empty(): NutrientValues {
+    return { calories: 0, protein: 0, carbohydrates: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0, vitamins: {}, minerals: {} };
+  }
+
+  private static addInto(total: NutrientValues, values: NutrientValues, factor: number): void {
+    total.calories += values.calories * factor;
+    total.protein += values.protein * factor;
+    total.carbohydrates += values.carbohydrates * factor;
+    total.fat += values.fat * factor;
+    total.fiber += values.fiber * factor;
+    total.sugar += values.sugar * factor;
+    total.sodium += values.sodium * factor;
+
+    for (const [key, value] of Object.entries(values.vitamins)) {
+      total.vitamins[key] = (total.vitamins[key] || 0) + value * factor;
+    }
+    for (const [key, value] of Object.entries(values.minerals)) {
+      total.minerals[key] = (total.minerals[key] || 0) + value * factor;
+    }
+  }
+
+  private static scale(values: NutrientValues, factor: number): NutrientValues {
+    const scaled = this.empty();
+    this.addInto(scaled, values, factor);
+    return scaled;
+  }
+
+  private static round(values: NutrientValues): NutrientValues {
+    const twoDecimals = (value: number) => Math.round(value * 100) / 100;
+    const roundMap = (map: Record<string, number>) =>
+      Object.fromEntries(Object.entries(map).map(([key, value]) => [key, twoDecimals(value)]));
+
+    return {
+      calories: Math.round(values.calories),
+      protein: twoDecimals(values.protein),
+      carbohydrates: twoDecimals(values.carbohydrates),
+      fat: twoDecimals(values.fat),
+      fiber: twoDecimals(values.fiber),
+      sugar: twoDecimals(values.sugar),
+      sodium: twoDecimals(values.sodium),
+      vitamins: roundMap(values.vitamins),
+      minerals: roundMap(values.minerals)
+    };
+  }
+}
@@ -0,0 +1,290 @@
+import {
+  DailyReferenceIntakes,
+  NutritionalGoals,
+  NutritionalInfo,
+  NutritionLabel,
+  NutritionLabelLine,
+  Recipe
+} from '../../types';
+
+type Rounding = 'fat' | 'sodium' | 'grams';
+
+export class NutritionLabelBuilder {
+  /**
+   * Main panel rows in label order
+   */
+  private static readonly NUTRIENTS: {
+    key: 'fat' | 'sodium' | 'carbohydrates' | 'fiber' | 'sugar' | 'protein';
+    label: string;
+    unit: 'g' | 'mg';
+    rounding: Rounding;
+    indent: boolean;
+  }[] = [
+    { key: 'fat', label: 'Total Fat', unit: 'g', rounding: 'fat', indent: false },
+    { key: 'sodium', label: 'Sodium', unit: 'mg', rounding: 'sodium', indent: false },
+    { key: 'carbohydrates', label: 'Total Carbohydrate', unit: 'g', rounding: 'grams', indent: false },
+    { key: 'fiber', label: 'Dietary Fiber', unit: 'g', rounding: 'grams', indent: true },
+    { key: 'sugar', label: 'Total Sugars', unit: 'g', rounding: 'grams', indent: true },
+    { key: 'protein', label: 'Protein', unit: 'g', rounding: 'grams', indent: false }
+  ];
+
+  /**
+   * Vitamins and minerals with a reference intake, and the step their amounts round to
+   */
+  private static readonly MICRONUTRIENTS: {
+    key: 'vitaminA' | 'vitaminC' | 'calcium' | 'iron';
+    label: string;
+    unit: string;
+    step: number;
+    source: 'vitamins' | 'minerals';
+  }[] = [
+    { key: 'vitaminA', label: 'Vitamin A', unit: 'µg', step: 10, source: 'vitamins' },
+    { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', step: 0.1, source: 'vitamins' },
+    { key: 'calcium', label: 'Calcium', unit: 'mg', step: 10, source: 'minerals' },
+    { key: 'iron', label: 'Iron', unit: 'mg', step: 0.1, source: 'minerals' }
+  ];
+
+  /**
+   * Reference intakes for a user's goals: calories, sodium and fiber goals replace the defaults,
+   * macronutrient percentages set their gram targets, and anything else scales with calories
+   */
+  static referenceFor(base: DailyReferenceIntakes, goals?: NutritionalGoals): DailyReferenceIntakes {
+    if (!goals) return base;
+
+    const calories = goals.dailyCalories || base.calories;
+    const factor = calories / base.calories;
+    const fromPercentage = (percentage: number | undefined, kcalPerGram: number, fallback: number) =>
+      percentage ? (calories * percentage) / 100 / kcalPerGram : fallback * factor;
+    const oneDecimal = (value: number) => Math.round(value * 10) / 10;
+
+    return {
+      ...base,
+      calories,
+      fat: oneDecimal(fromPercentage(goals.fatPercentage, 9, base.fat)),
+      carbohydrates: oneDecimal(fromPercentage(goals.carbPercentage, 4, base.carbohydrates)),
+      protein: oneDecimal(fromPercentage(goals.proteinPercentage, 4, base.protein)),
+      fiber: oneDecimal(goals.fiberGoal || base.fiber * factor),
+      sodium: goals.sodiumLimit || base.sodium
+    };
+  }
+
+  /**
+   * Build a Nutrition Facts panel for one serving, rounding amounts and %DV per FDA labeling rules
+   */
+  static build(
+    recipe: Recipe,
+    nutrition: NutritionalInfo,
+    intakes: DailyReferenceIntakes,
+    reference: { basis: 'standard' | 'user'; userId?: string }
+  ): NutritionLabel {
+    const nutrients = this.NUTRIENTS.map(({ key, label, unit, rounding, indent }) => {
+      const raw = nutrition[key];
+      const { amount, display } = this.roundAmount(raw, rounding, unit);
+      const line: NutritionLabelLine = { key, label, amount, unit, display, indent };
+
+      if (key !== 'sugar') {
+        line.dailyValue = Math.round((raw / intakes[key]) * 100);
+      }
+      return line;
+    });
+
+    const micronutrients = this.MICRONUTRIENTS
+      .filter(({ key, source }) => nutrition[source][key] !== undefined)
+      .map(({ key, label, unit, step, source }) => {
+        const raw = nutrition[source][key];
+        const amount = Math.round(Math.round(raw / step) * step * 10) / 10;
+        return {
+          key,
+          label,
+          amount,
+          unit,
+          display: `${amount}${unit}`,
+          dailyValue: this.roundMicronutrientPercent((raw / intakes[key]) * 100),
+          indent: false
+        };
+      });
+
+    return {
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      servingsPerRecipe: recipe.servingSize,
+      servingSize: '1 serving',
+      calories: this.roundCalories(nutrition.calories),
+      nutrients,
+      micronutrients,
+      reference: { ...reference, intakes },
+      ...(nutrition.method && { method: nutrition.method }),
+      ...(nutrition.unresolvedIngredients?.length && { unresolvedIngredients: nutrition.unresolvedIngredients })
+    };
+  }
+
+  /**
+   * Standalone HTML panel with inline styles
+   */
+  static toHtml(label: NutritionLabel): string {
+    const row = (line: NutritionLabelLine) => `
+      <tr${line.indent ? ' class="indent"' : ''}>
+        <td>${line.indent ? '' : '<strong>'}${this.escape(line.label)}${line.indent ? '' : '</strong>'} ${this.escape(line.display)}</td>
+        <td class="dv">${line.dailyValue !== undefined ? `<strong>${line.dailyValue}%</strong>` : ''}</td>
+      </tr>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Nutrition Facts - ${this.escape(label.recipeName)}</title>
+<style>
+  .nutrition-label { width: 280px; border: 1px solid #000; padding: 6px; font-family: Helvetica, Arial, sans-serif; font-size: 13px; }
+  .nutrition-label h1 { font-size: 30px; margin: 0; font-weight: 900; }
+  .nutrition-label p { margin: 2px 0; }
+  .nutrition-label .serving { display: flex; justify-content: space-between; font-weight: bold; border-bottom: 10px solid #000; padding-bottom: 2px; }
+  .nutrition-label .calories { display: flex; justify-content: space-between; align-items: baseline; font-weight: 900; border-bottom: 5px solid #000; }
+  .nutrition-label .calories span:first-child { font-size: 20px; }
+  .nutrition-label .calories span:last-child { font-size: 34px; }
+  .nutrition-label table { width: 100%; border-collapse: collapse; }
+  .nutrition-label td { border-top: 1px solid #000; padding: 1px 0; }
+  .nutrition-label tr.indent td:first-child { padding-left: 14px; }
+  .nutrition-label .dv { text-align: right; }
+  .nutrition-label .dv-head { text-align: right; font-weight: bold; }
+  .nutrition-label .micros { border-top: 10px solid #000; }
+  .nutrition-label .footnote { border-top: 5px solid #000; font-size: 10px; padding-top: 2px; }
+</style>
+</head>
+<body>
+<section class="nutrition-label">
+  <h1>Nutrition Facts</h1>
+  <p>${label.servingsPerRecipe} serving${label.servingsPerRecipe === 1 ? '' : 's'} per recipe</p>
+  <p class="serving"><span>Serving size</span><span>${this.escape(label.servingSize)}</span></p>
+  <p>Amount per serving</p>
+  <div class="calories"><span>Calories</span><span>${label.calories}</span></div>
+  <p class="dv-head">% Daily Value*</p>
+  <table>${label.nutrients.map(row).join('')}
+  </table>
+  <table class="micros">${label.micronutrients.map(row).join('')}
+  </table>
+  <p class="footnote">* ${this.escape(this.footnote(label))}</p>
+</section>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Self-contained SVG rendering of the same panel
+   */
+  static toSvg(label: NutritionLabel): string {
+    const width = 300;
+    const left = 10;
+    const right = width - 10;
+    const parts: string[] = [];
+    let y = 0;
+
+    const text = (x: number, content: string, size: number, weight = 'normal', anchor = 'start') =>
+      parts.push(`<text x="${x}" y="${y}" font-size="${size}" font-weight="${weight}" text-anchor="${anchor}">${this.escape(content)}</text>`);
+    const rule = (thickness: number) => {
+      parts.push(`<rect x="${left}" y="${y}" width="${right - left}" height="${thickness}" fill="#000"/>`);
+      y += thickness;
+    };
+
+    y += 34; text(left, 'Nutrition Facts', 30, '900');
+    y += 18; text(left, `${label.servingsPerRecipe} serving${label.servingsPerRecipe === 1 ? '' : 's'} per recipe`, 13);
+    y += 18; text(left, 'Serving size', 14, 'bold'); text(right, label.servingSize, 14, 'bold', 'end');
+    y += 5; rule(10);
+    y += 14; text(left, 'Amount per serving', 11, 'bold');
+    y += 30; text(left, 'Calories', 22, '900'); text(right, String(label.calories), 32, '900', 'end');
+    y += 4; rule(5);
+    y += 14; text(right, '% Daily Value*', 11, 'bold', 'end');
+
+    const lines = (rows: NutritionLabelLine[]) => {
+      for (const line of rows) {
+        y += 3; rule(1);
+        y += 14;
+        const x = line.indent ? left + 14 : left;
+        parts.push(
+          `<text x="${x}" y="${y}" font-size="13">` +
+          `<tspan font-weight="${line.indent ? 'normal' : 'bold'}">${this.escape(line.label)}</tspan> ${this.escape(line.display)}</text>`
+        );
+        if (line.dailyValue !== undefined) text(right, `${line.dailyValue}%`, 13, 'bold', 'end');
+      }
+    };
+
+    lines(label.nutrients);
+    y += 3; rule(10);
+    lines(label.micronutrients);
+    y += 4; rule(5);
+
+    // Wrap the footnote to the panel width
+    const words = `* ${this.footnote(label)}`.split(' ');
+    let current = '';
+    for (const word of words) {
+      if ((current + ' ' + word).trim().length > 52) {
+        y += 12; text(left, current, 10);
+        current = word;
+      } else {
+        current = `${current} ${word}`.trim();
+      }
+    }
+    if (current) { y += 12; text(left, current, 10); }
+
+    const height = y + 10;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">
+<rect x="0.5" y="0.5" width="${width - 1}" height="${height - 1}" fill="#fff" stroke="#000"/>
+${parts.join('\n')}
+</svg>
+`;
+  }
+
+  // Calories: under 5 is 0, up to 50 rounds to 5, above to 10
+  private static roundCalories(calories: number): number {
+    if (calories < 5) return 0;
+    if (calories <= 50) return Math.round(calories / 5) * 5;
+    return Math.round(calories / 10) * 10;
+  }
+
+  private static roundAmount(value: number, rounding: Rounding, unit: string): { amount: number; display: string } {
+    const format = (amount: number) => ({ amount, display: `${amount}${unit}` });
+
+    switch (rounding) {
+      // Fat: under 0.5g is 0, under 5g rounds to 0.5g, above to 1g
+      case 'fat':
+        if (value < 0.5) return format(0);
+        if (value < 5) return format(Math.round(value * 2) / 2);
+        return format(Math.round(value));
+
+      // Sodium: under 5mg is 0, up to 140mg rounds to 5mg, above to 10mg
+      case 'sodium':
+        if (value < 5) return format(0);
+        if (value <= 140) return format(Math.round(value / 5) * 5);
+        return format(Math.round(value / 10) * 10);
+
+      // Carbohydrate, fiber, sugars, protein: under 0.5g is 0, under 1g is "<1g", above rounds to 1g
+      case 'grams':
+        if (value < 0.5) return format(0);
+        if (value < 1) return { amount: Math.round(value * 10) / 10, display: `<1${unit}` };
+        return format(Math.round(value));
+    }
+  }
+
+  // Vitamin and mineral %DV: under 2% is 0, up to 10% in steps of 2, up to 50% in 5s, then 10s
+  private static roundMicronutrientPercent(percent: number): number {
+    if (percent < 2) return 0;
+    if (percent <= 10) return Math.round(percent / 2) * 2;
+    if (percent <= 50) return Math.round(percent / 5) * 5;
+    return Math.round(percent / 10) * 10;
+  }
+
+  private static footnote(label: NutritionLabel): string {
+    const calories = label.reference.intakes.calories.toLocaleString('en-US');
+    return label.reference.basis === 'user'
+      ? `The % Daily Value (DV) is based on your nutritional goals of ${calories} calories a day.`
+      : `The % Daily Value (DV) tells you how much a nutrient in a serving of food contributes to a daily diet. ${calories} calories a day is used for general nutrition advice.`;
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
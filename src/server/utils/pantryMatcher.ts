@@ -0,0 +1,43 @@
+import { Ingredient, Recipe } from '../../types';
+import { IngredientNormalizer } from './ingredientNormalizer';
+
+export class PantryMatcher {
+  /**
+   * Score how much of a recipe can be made from the pantry, ignoring staples
+   */
+  static coverage(recipe: Recipe, pantry: string[]): {
+    coverage: number;
+    matchedIngredients: string[];
+    missingIngredients: Ingredient[];
+  } {
+    const normalizedPantry = IngredientNormalizer.normalizeList(pantry);
+    const required = recipe.ingredients.filter(i => !IngredientNormalizer.isStaple(i.name));
+
+    const matchedIngredients: string[] = [];
+    const missingIngredients: Ingredient[] = [];
+
+    for (const ingredient of required) {
+      if (this.isCovered(IngredientNormalizer.normalizeName(ingredient.name), normalizedPantry)) {
+        matchedIngredients.push(ingredient.name);
+      } else {
+        missingIngredients.push(ingredient);
+      }
+    }
+
+    // A recipe made only of staples needs nothing from the pantry
+    const coverage = required.length === 0
+      ? 100
+      : Math.round((matchedIngredients.length / required.length) * 100);
+
+    return { coverage, matchedIngredients, missingIngredients };
+  }
+
+  /**
+   * A pantry item covers an ingredient when it names it exactly or as whole words
+   * ("parmesan" covers "parmesan cheese", "egg" does not cover "eggplant")
+   */
+  static isCovered(ingredient: string, normalizedPantry: string[]): boolean {
+    const words = ` ${ingredient} `;
+    return normalizedPantry.some(item => item === ingredient || words.includes(` ${item} `));
+  }
+}
@@ -0,0 +1,128 @@
+import { Ingredient, NutritionalInfo, RecipeVersion, RecipeVersionDiff, FieldChange } from '../../types';
+import { IngredientNormalizer } from './ingredientNormalizer';
+
+export class RecipeDiffUtils {
+  /**
+   * Scalar recipe fields compared one-to-one
+   */
+  private static readonly SCALAR_FIELDS = [
+    'name', 'description', 'servingSize', 'cookingTime', 'difficulty', 'cuisine'
+  ] as const;
+
+  /**
+   * Per-serving nutrient totals compared between versions
+   */
+  private static readonly NUTRIENT_FIELDS = [
+    'calories', 'protein', 'carbohydrates', 'fat', 'fiber', 'sugar', 'sodium'
+  ] as const;
+
+  /**
+   * Build a structured diff between two versions of the same recipe
+   */
+  static diff(from: RecipeVersion, to: RecipeVersion): RecipeVersionDiff {
+    const fields: FieldChange[] = [];
+    for (const field of this.SCALAR_FIELDS) {
+      if (from.snapshot[field] !== to.snapshot[field]) {
+        fields.push({ field, from: from.snapshot[field], to: to.snapshot[field] });
+      }
+    }
+
+    return {
+      recipeId: to.recipeId,
+      fromVersion: from.version,
+      toVersion: to.version,
+      fields,
+      ingredients: this.diffIngredients(from.snapshot.ingredients, to.snapshot.ingredients),
+      instructions: this.diffInstructions(from.snapshot.instructions, to.snapshot.instructions),
+      tags: this.diffSet(from.snapshot.tags, to.snapshot.tags),
+      dietaryCompatibility: this.diffSet(
+        from.snapshot.dietaryCompatibility,
+        to.snapshot.dietaryCompatibility
+      ),
+      nutrition: this.diffNutrition(from.snapshot.nutritionalInfo, to.snapshot.nutritionalInfo)
+    };
+  }
+
+  /**
+   * Match ingredients by normalized name and report amount/unit/notes changes
+   */
+  static diffIngredients(from: Ingredient[], to: Ingredient[]): RecipeVersionDiff['ingredients'] {
+    const fromByName = new Map(from.map(i => [IngredientNormalizer.normalizeName(i.name), i]));
+    const toByName = new Map(to.map(i => [IngredientNormalizer.normalizeName(i.name), i]));
+    const result: RecipeVersionDiff['ingredients'] = { added: [], removed: [], changed: [] };
+
+    for (const [key, ingredient] of fromByName) {
+      const next = toByName.get(key);
+      if (!next) {
+        result.removed.push(ingredient);
+        continue;
+      }
+
+      const changes: string[] = [];
+      if (ingredient.amount !== next.amount) changes.push('amount');
+      if (ingredient.unit !== next.unit) changes.push('unit');
+      if ((ingredient.notes || '') !== (next.notes || '')) changes.push('notes');
+      if (ingredient.name !== next.name) changes.push('name');
+
+      if (changes.length > 0) {
+        result.changed.push({ name: next.name, from: ingredient, to: next, changes });
+      }
+    }
+
+    for (const [key, ingredient] of toByName) {
+      if (!fromByName.has(key)) result.added.push(ingredient);
+    }
+
+    return result;
+  }
+
+  /**
+   * Compare steps by text; steps kept in both versions whose relative order changed count as reordered
+   */
+  static diffInstructions(from: string[], to: string[]): RecipeVersionDiff['instructions'] {
+    const normalize = (step: string) => step.trim().replace(/\s+/g, ' ').toLowerCase();
+    const fromKeys = from.map(normalize);
+    const toKeys = to.map(normalize);
+    const toSet = new Set(toKeys);
+    const fromSet = new Set(fromKeys);
+
+    const removed = from
+      .map((text, index) => ({ index, text }))
+      .filter((_, index) => !toSet.has(fromKeys[index]));
+    const added = to
+      .map((text, index) => ({ index, text }))
+      .filter((_, index) => !fromSet.has(toKeys[index]));
+
+    // Rank of each shared step among shared steps, so insertions/removals alone don't count as moves
+    const sharedFrom = fromKeys.filter(key => toSet.has(key));
+    const sharedTo = toKeys.filter(key => fromSet.has(key));
+    const reordered: RecipeVersionDiff['instructions']['reordered'] = [];
+
+    sharedTo.forEach((key, rank) => {
+      if (sharedFrom[rank] !== key) {
+        reordered.push({
+          text: to[toKeys.indexOf(key)],
+          fromIndex: fromKeys.indexOf(key),
+          toIndex: toKeys.indexOf(key)
+        });
+      }
+    });
+
+    return { added, removed, reordered };
+  }
+
+  private static diffSet<T>(from: T[], to: T[]): { added: T[]; removed: T[] } {
+    return {
+      added: to.filter(item => !from.includes(item)),
+      removed: from.filter(item => !to.includes(item))
+    };
+  }
+
+  private static diffNutrition(from?: NutritionalInfo, to?: NutritionalInfo): FieldChange[] {
+    if (!from && !to) return [];
+
+    return this.NUTRIENT_FIELDS
+      .filter(field => from?.[field] !== to?.[field])
+      .map(field => ({ field, from: from?.[field], to: to?.[field] }));
+  }
+}
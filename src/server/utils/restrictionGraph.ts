@@ -0,0 +1,147 @@
+import { DietaryRestriction, RestrictionRelations, RestrictionWarning } from '../../types';
+
+const {
+  NUTS, DAIRY, GLUTEN, SHELLFISH, EGGS, SOY, FISH,
+  VEGETARIAN, VEGAN, PESCATARIAN, KETO, PALEO, MEDITERRANEAN,
+  DIABETIC_FRIENDLY, LOW_SODIUM, HEART_HEALTHY, LOW_CHOLESTEROL,
+  HALAL, KOSHER, HINDU_VEGETARIAN
+} = DietaryRestriction;
+
+interface RestrictionNode {
+  subsumes?: DietaryRestriction[]; // looser versions of the same diet; a recipe that fits this one fits those
+  implies?: DietaryRestriction[]; // other restrictions a compatible recipe always meets
+}
+
+export class RestrictionGraph {
+  /**
+   * How restrictions relate; a restriction's rules must rule out everything the restrictions it implies do
+   */
+  private static readonly GRAPH: Record<DietaryRestriction, RestrictionNode> = {
+    [NUTS]: {},
+    [DAIRY]: {},
+    [GLUTEN]: {},
+    [SHELLFISH]: {},
+    [EGGS]: {},
+    [SOY]: {},
+    [FISH]: {},
+    [VEGETARIAN]: { subsumes: [PESCATARIAN], implies: [FISH, SHELLFISH] },
+    [VEGAN]: { subsumes: [VEGETARIAN], implies: [DAIRY, EGGS] },
+    [PESCATARIAN]: {},
+    [HINDU_VEGETARIAN]: { subsumes: [VEGETARIAN], implies: [EGGS] },
+    [KETO]: {},
+    [PALEO]: { implies: [DAIRY, GLUTEN, SOY] },
+    [MEDITERRANEAN]: {},
+    [DIABETIC_FRIENDLY]: {},
+    [LOW_SODIUM]: {},
+    [HEART_HEALTHY]: {},
+    [LOW_CHOLESTEROL]: {},
+    [HALAL]: {},
+    [KOSHER]: { implies: [SHELLFISH] }
+  };
+
+  /**
+   * Combinations that can both be met, but leave very few recipes
+   */
+  private static readonly CONFLICTS: [DietaryRestriction, DietaryRestriction, string][] = [
+    [KETO, VEGAN, 'most vegan proteins (beans, lentils, grains) are too high in carbohydrates for keto'],
+    [PALEO, VEGAN, 'paleo rules out the legumes and grains vegan diets rely on for protein'],
+    [KETO, HINDU_VEGETARIAN, 'without meat, fish or eggs, keto leaves few protein sources'],
+    [PALEO, HINDU_VEGETARIAN, 'without meat, fish, eggs, legumes or grains, paleo leaves few protein sources']
+  ];
+
+  // The restrictions plus everything they imply, in enum order
+  static expand(restrictions: DietaryRestriction[]): DietaryRestriction[] {
+    const expanded = new Set<DietaryRestriction>();
+    const pending = [...restrictions];
+
+    while (pending.length > 0) {
+      const restriction = pending.pop()!;
+      if (expanded.has(restriction)) continue;
+
+      expanded.add(restriction);
+      pending.push(...this.edges(restriction));
+    }
+
+    return Object.values(DietaryRestriction).filter(restriction => expanded.has(restriction));
+  }
+
+  // Drop restrictions another one in the list already implies, e.g. [vegan, vegetarian, dairy] -> [vegan]
+  static reduce(restrictions: DietaryRestriction[]): DietaryRestriction[] {
+    const unique = [...new Set(restrictions)];
+
+    return unique.filter(restriction =>
+      !unique.some(other => other !== restriction && this.implied(other).includes(restriction))
+    );
+  }
+
+  // Whether a recipe tagged with these restrictions meets the given one
+  static satisfies(tags: DietaryRestriction[], restriction: DietaryRestriction): boolean {
+    return this.expand(tags).includes(restriction);
+  }
+
+  // Profile combinations worth a warning; neither is an error, since each restriction can still be met
+  static validate(restrictions: DietaryRestriction[]): RestrictionWarning[] {
+    const unique = [...new Set(restrictions)];
+    const warnings: RestrictionWarning[] = [];
+
+    for (const [a, b, reason] of this.CONFLICTS) {
+      if (unique.includes(a) && unique.includes(b)) {
+        warnings.push({
+          type: 'conflict',
+          restrictions: [a, b],
+          message: `${this.label(a)} and ${this.label(b)} rarely go together: ${reason}`
+        });
+      }
+    }
+
+    for (const restriction of unique) {
+      const coveredBy = unique.find(other =>
+        other !== restriction && this.subsumed(other).includes(restriction)
+      );
+
+      if (coveredBy) {
+        warnings.push({
+          type: 'redundant',
+          restrictions: [restriction, coveredBy],
+          message: `${this.label(restriction)} is already covered by ${this.label(coveredBy)}`
+        });
+      }
+    }
+
+    return warnings;
+  }
+
+  static relations(restriction: DietaryRestriction): RestrictionRelations {
+    return {
+      restriction,
+      implies: this.implied(restriction),
+      subsumes: this.subsumed(restriction),
+      impliedBy: Object.values(DietaryRestriction).filter(other =>
+        other !== restriction && this.implied(other).includes(restriction)
+      ),
+      conflicts: this.CONFLICTS
+        .filter(([a, b]) => a === restriction || b === restriction)
+        .map(([a, b, reason]) => ({ restriction: a === restriction ? b : a, reason }))
+    };
+  }
+
+  // Everything a restriction implies, not including itself
+  private static implied(restriction: DietaryRestriction): DietaryRestriction[] {
+    return this.expand(this.edges(restriction)).filter(other => other !== restriction);
+  }
+
+  // Looser versions of the same diet, transitively
+  private static subsumed(restriction: DietaryRestriction): DietaryRestriction[] {
+    const direct = this.GRAPH[restriction].subsumes || [];
+    return [...new Set([...direct, ...direct.flatMap(other => this.subsumed(other))])];
+  }
+
+  private static edges(restriction: DietaryRestriction): DietaryRestriction[] {
+    const node = this.GRAPH[restriction];
+    return [...(node.subsumes || []), ...(node.implies || [])];
+  }
+
+  private static label(restriction: DietaryRestriction): string {
+    return restriction.replace(/_/g, ' ');
+  }
+}
@@ -0,0 +1,262 @@
+import { AisleCategory, Ingredient, Recipe, ShoppingList, ShoppingListItem } from '../../types';
+import { IngredientNormalizer } from './ingredientNormalizer';
+import { IngredientParser } from './ingredientParser';
+import { ScalingUtils } from './scaling';
+
+type UnitFamily = 'volume' | 'weight';
+
+export interface AggregatedItem {
+  name: string;
+  amount: number;
+  unit: string;
+  aisle: AisleCategory;
+  recipes: string[];
+  notes?: string;
+}
+
+interface Bucket {
+  key: string;
+  name: string;
+  family: UnitFamily | null;
+  unit: string; // display unit: the largest unit seen for this ingredient
+  total: number; // in the family's base unit (ml / g), or in `unit` for counts
+  recipes: string[];
+  notes?: string;
+}
+
+export class ShoppingListBuilder {
+  private static readonly UNIT_FAMILIES: Record<string, UnitFamily> = {
+    'ml': 'volume', 'l': 'volume', 'cup': 'volume', 'tbsp': 'volume', 'tsp': 'volume',
+    'g': 'weight', 'kg': 'weight', 'oz': 'weight', 'lb': 'weight'
+  };
+
+  /**
+   * Store layout order and the keywords that place an ingredient in each aisle
+   */
+  private static readonly AISLES: [AisleCategory, string[]][] = [
+    ['Produce', [
+      'apple', 'avocado', 'banana', 'basil', 'bean sprout', 'beet', 'bell pepper', 'berry', 'broccoli',
+      'cabbage', 'carrot', 'cauliflower', 'celery', 'chili', 'cilantro', 'corn', 'cucumber', 'eggplant',
+      'garlic', 'ginger', 'green onion', 'herb', 'kale', 'leek', 'lemon', 'lettuce', 'lime', 'mint',
+      'mushroom', 'onion', 'orange', 'parsley', 'pea', 'potato', 'rosemary', 'shallot', 'spinach',
+      'squash', 'sweet potato', 'thyme', 'tomato', 'zucchini', 'arugula', 'fruit', 'vegetable'
+    ]],
+    ['Meat & Seafood', [
+      'bacon', 'beef', 'chicken', 'chorizo', 'cod', 'crab', 'duck', 'fish', 'ground beef', 'ground pork',
+      'ham', 'lamb', 'lobster', 'mussel', 'pork', 'prosciutto', 'salmon', 'sausage', 'scallop', 'shrimp',
+      'steak', 'tuna', 'turkey', 'guanciale', 'pancetta'
+    ]],
+    ['Dairy & Eggs', [
+      'butter', 'cheese', 'cream', 'egg', 'heavy cream', 'milk', 'mozzarella', 'parmesan', 'pecorino',
+      'ricotta', 'sour cream', 'yogurt', 'feta', 'cheddar'
+    ]],
+    ['Bakery', ['bagel', 'baguette', 'bread', 'bun', 'pita', 'roll', 'tortilla', 'naan']],
+    ['Frozen', ['frozen', 'ice cream']],
+    ['Beverages', ['beer', 'coffee', 'juice', 'soda', 'tea', 'wine']],
+    ['Spices & Seasonings', [
+      'bay leaf', 'black pepper', 'cayenne', 'chili powder', 'cinnamon', 'cumin', 'curry powder',
+      'garlic powder', 'nutmeg', 'onion powder', 'oregano', 'paprika', 'pepper', 'salt', 'seasoning',
+      'spice', 'turmeric', 'vanilla'
+    ]],
+    ['Pantry', [
+      'baking powder', 'baking soda', 'bean', 'broth', 'chickpea', 'coconut milk', 'couscous', 'flour',
+      'honey', 'lentil', 'noodle', 'nut', 'oat', 'oil', 'pasta', 'quinoa', 'rice', 'sauce', 'spaghetti',
+      'stock', 'sugar', 'syrup', 'tofu', 'vinegar', 'almond', 'peanut butter', 'soy sauce', 'tomato paste',
+      'canned tomato'
+    ]]
+  ];
+
+  /**
+   * Merge recipe ingredients (already scaled) into one list and take away what is on hand
+   */
+  static aggregate(
+    sources: { recipe: Recipe; servings: number }[],
+    onHand: Ingredient[] = []
+  ): AggregatedItem[] {
+    const buckets = new Map<string, Bucket>();
+
+    for (const { recipe, servings } of sources) {
+      const scaled = ScalingUtils.scaleIngredients(recipe.ingredients, recipe.servingSize, servings);
+      for (const ingredient of scaled) {
+        this.add(buckets, ingredient, recipe.name);
+      }
+    }
+
+    for (const item of onHand) {
+      this.subtract(buckets, item);
+    }
+
+    return [...buckets.values()]
+      .map(bucket => this.toItem(bucket))
+      .filter((item): item is AggregatedItem => item !== null)
+      .sort((a, b) => this.aisleOrder(a.aisle) - this.aisleOrder(b.aisle) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Aisle for an ingredient. Keywords that end the name (the head noun) beat earlier ones, so the modifier words
+   * don't decide ("vegetable oil" is oil, "chicken stock" is stock); then the longest wins ("black pepper" over
+   * "pepper")
+   */
+  static aisleFor(name: string): AisleCategory {
+    const normalized = IngredientNormalizer.normalizeName(name);
+
+    // How it is stored decides the aisle before what it is: "frozen peas"
+    if (normalized.startsWith('frozen ')) return 'Frozen';
+
+    let best: { aisle: AisleCategory; head: boolean; length: number } | null = null;
+
+    for (const [aisle, keywords] of this.AISLES) {
+      for (const keyword of keywords) {
+        if (!new RegExp(`(^|\\s)${keyword}(\\s|$)`).test(normalized)) continue;
+
+        const head = new RegExp(`(^|\\s)${keyword}$`).test(normalized);
+        const better = !best
+          || (head && !best.head)
+          || (head === best.head && keyword.length > best.length);
+        if (better) {
+          best = { aisle, head, length: keyword.length };
+        }
+      }
+    }
+
+    return best ? best.aisle : 'Other';
+  }
+
+  /**
+   * Every aisle category in store order
+   */
+  static aisleCategories(): AisleCategory[] {
+    return [...this.AISLES.map(([aisle]) => aisle), 'Other'];
+  }
+
+  static aisleOrder(aisle: AisleCategory): number {
+    const index = this.AISLES.findIndex(([name]) => name === aisle);
+    return index === -1 ? this.AISLES.length : index;
+  }
+
+  /**
+   * Plain-text export grouped by aisle, with checkboxes
+   */
+  static toText(list: ShoppingList): string {
+    const lines = [list.name, ''];
+
+    for (const { aisle, items } of list.aisles) {
+      lines.push(`${aisle}:`);
+      for (const item of items) {
+        lines.push(`  [${item.checked ? 'x' : ' '}] ${this.describe(item)}`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * CSV export, one row per item
+   */
+  static toCsv(list: ShoppingList): string {
+    const escape = (value: string | number | boolean) => {
+      const text = String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = [['aisle', 'item', 'amount', 'unit', 'checked', 'recipes', 'notes']];
+    for (const { aisle, items } of list.aisles) {
+      for (const item of items) {
+        rows.push([
+          aisle,
+          item.name,
+          String(item.amount),
+          item.unit,
+          String(item.checked),
+          item.recipes.join('; '),
+          item.notes || ''
+        ]);
+      }
+    }
+
+    return rows.map(row => row.map(escape).join(',')).join('\n') + '\n';
+  }
+
+  private static add(buckets: Map<string, Bucket>, ingredient: Ingredient, recipeName: string): void {
+    const unit = IngredientParser.canonicalUnit(ingredient.unit);
+    const family = this.UNIT_FAMILIES[unit] || null;
+    const name = IngredientNormalizer.normalizeName(ingredient.name);
+    if (!name) return;
+
+    // Volume and weight cannot be merged without densities, so they stay separate lines
+    const key = `${name}|${family || unit}`;
+    const amount = family ? this.toBase(ingredient.amount, unit, family) : ingredient.amount;
+    const bucket = buckets.get(key);
+
+    if (bucket) {
+      bucket.total += amount;
+      if (!bucket.recipes.includes(recipeName)) bucket.recipes.push(recipeName);
+      if (family && this.toBase(1, unit, family) > this.toBase(1, bucket.unit, family)) bucket.unit = unit;
+      return;
+    }
+
+    buckets.set(key, { key, name, family, unit, total: amount, recipes: [recipeName] });
+  }
+
+  private static subtract(buckets: Map<string, Bucket>, item: Ingredient): void {
+    const unit = IngredientParser.canonicalUnit(item.unit);
+    const family = this.UNIT_FAMILIES[unit] || null;
+    const name = IngredientNormalizer.normalizeName(item.name);
+    const bucket = buckets.get(`${name}|${family || unit}`);
+
+    if (bucket) {
+      bucket.total -= family ? this.toBase(item.amount, unit, family) : item.amount;
+      // Unmeasured needs ("salt to taste") are covered by having any at all
+      if (bucket.family === null && bucket.total <= 0) buckets.delete(bucket.key);
+      return;
+    }
+
+    // Same ingredient needed in a unit we cannot convert to: keep the full amount but say so
+    for (const other of buckets.values()) {
+      if (other.name === name) {
+        const note = `${`${item.amount} ${item.unit}`.trim()} on hand not deducted, different unit`;
+        other.notes = other.notes ? `${other.notes}; ${note}` : note;
+      }
+    }
+  }
+
+  private static toItem(bucket: Bucket): AggregatedItem | null {
+    let amount = bucket.total;
+    let unit = bucket.unit;
+
+    if (bucket.family) {
+      const display = ScalingUtils.suggestBetterUnit(
+        ScalingUtils.convertUnit(bucket.total, this.baseUnit(bucket.family), bucket.unit),
+        bucket.unit
+      );
+      amount = display.amount;
+      unit = display.unit;
+    }
+
+    amount = Math.round(amount * 100) / 100;
+    if (amount <= 0 && bucket.family) return null;
+
+    return {
+      name: bucket.name,
+      amount: Math.max(amount, 0),
+      unit,
+      aisle: this.aisleFor(bucket.name),
+      recipes: bucket.recipes,
+      notes: bucket.notes
+    };
+  }
+
+  private static describe(item: ShoppingListItem): string {
+    const quantity = item.amount > 0 ? `${item.amount} ${item.unit}`.trim() + ' ' : '';
+    return `${quantity}${item.name}${item.notes ? ` - ${item.notes}` : ''}`;
+  }
+
+  private static toBase(amount: number, unit: string, family: UnitFamily): number {
+    return ScalingUtils.convertUnit(amount, unit, this.baseUnit(family));
+  }
+
+  private static baseUnit(family: UnitFamily): string {
+    return family === 'volume' ? 'ml' : 'g';
+  }
+}
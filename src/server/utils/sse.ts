@@ -0,0 +1,45 @@
+import { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  isClosed(): boolean;
+}
+
+/**
+ * Switch a response into Server-Sent Events mode
+ */
+export function openEventStream(res: Response): EventStream {
+  let closed = false;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx)
+  res.flushHeaders();
+
+  // Fires when the client disconnects (or after we end the response)
+  res.on('close', () => {
+    closed = true;
+  });
+
+  // compression() buffers output unless flushed explicitly
+  const flush = () => (res as Response & { flush?: () => void }).flush?.();
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      flush();
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+    isClosed() {
+      return closed;
+    }
+  };
+}
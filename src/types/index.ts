@@ -14,13 +14,15 @@ export interface Recipe {
   dietaryCompatibility: DietaryRestriction[];
   createdAt: Date;
   updatedAt: Date;
-  popularity: number;
+  popularity: number; // detail views
+  cookCount: number; // times logged as cooked
 }
 
 export interface Ingredient {
   name: string;
   amount: number;
   unit: string;
+  catalogId?: string; // ingredients_catalog entry the name resolved to
   notes?: string;
   substitutions?: IngredientSubstitution[];
 }
@@ -45,8 +47,12 @@ export interface NutritionalInfo {
   vitamins: Record<string, number>;
   minerals: Record<string, number>;
   servingSize: number;
+  method?: NutritionMethod; // how the numbers were produced; absent for rows saved before it was tracked
+  unresolvedIngredients?: string[]; // ingredients the local nutrient table could not account for
 }
 
+export type NutritionMethod = 'local' | 'local+ai' | 'ai' | 'manual';
+
 // Dietary Restrictions and Preferences
 export enum DietaryRestriction {
   // Allergies
@@ -85,10 +91,27 @@ export interface DietaryProfile {
   dietaryPreferences: DietaryRestriction[];
   healthConditions: DietaryRestriction[];
   nutritionalGoals: NutritionalGoals;
+  allergyStrict: boolean; // "may contain" counts as unsafe for the user's allergies
+  customRestrictions: CustomRestriction[]; // the user's own rules, beyond the built-in restrictions
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A user-defined restriction such as "no cilantro" or "nightshade-free"
+export interface CustomRestriction {
+  name: string; // unique within the profile
+  blockedIngredients: string[]; // whole-word matches, plurals included
+  blockedPatterns: string[]; // like blockedIngredients, but * stands for any letters, e.g. "chil*"
+  nutrientLimits: CustomNutrientLimit[]; // per serving
+}
+
+export type CustomNutrient = 'calories' | 'protein' | 'carbohydrates' | 'fat' | 'sugar' | 'sodium';
+
+export interface CustomNutrientLimit {
+  nutrient: CustomNutrient;
+  max: number; // grams; milligrams for sodium; kcal for calories
+}
+
 export interface NutritionalGoals {
   dailyCalories?: number;
   proteinPercentage?: number;
@@ -141,6 +164,449 @@ export interface RecipeVariation {
   uniqueFeatures: string[];
 }
 
+// Recipe Draft Types
+// Every AI suggestion and variation is saved as a draft when generated, so clients can use it by id
+export type RecipeDraftKind = 'suggestion' | 'variation';
+
+export interface RecipeDraftPrompt {
+  ingredients?: string[];
+  priorityIngredients?: string[];
+  cuisinePreference?: string;
+  foodName?: string;
+  servingSize: number;
+}
+
+export interface RecipeDraftSource {
+  prompt: RecipeDraftPrompt; // what the AI was asked for
+  provider: AIProviderName;
+  model: string;
+  dietaryRestrictions: DietaryRestriction[]; // everything the AI was told to respect, the user's included
+  generatedAt: Date;
+}
+
+export interface RecipeDraft {
+  id: string;
+  kind: RecipeDraftKind;
+  recipe: RecipeSuggestion | RecipeVariation;
+  servingSize: number; // what the ingredient amounts are for
+  source: RecipeDraftSource;
+  promotedRecipeId?: string; // the stored recipe made from it, once promoted
+  createdAt: Date;
+}
+
+// A generated suggestion or variation with the id of its draft
+export type Drafted<T> = T & { id: string; source: RecipeDraftSource };
+
+// Pantry Types
+export interface PantryItem {
+  id: string;
+  userId: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  purchasedOn?: string; // YYYY-MM-DD
+  expiresOn?: string; // YYYY-MM-DD
+  daysUntilExpiry?: number; // negative once expired
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PantryItemInput = Pick<PantryItem, 'name' | 'quantity' | 'unit' | 'purchasedOn' | 'expiresOn'>;
+
+export interface PantryIngredients {
+  ingredients: string[]; // usable items, soonest expiry first
+  expiringSoon: string[];
+}
+
+// Cooking History Types
+export interface CookingHistoryEntry {
+  id: string;
+  userId: string;
+  recipeId: string | null; // null once the recipe has been deleted
+  recipeName: string;
+  cuisine: string;
+  servings: number;
+  cookedOn: string; // YYYY-MM-DD
+  notes?: string;
+  ingredients: Ingredient[]; // scaled to servings
+  createdAt: Date;
+}
+
+export interface CookedRequest {
+  userId: string;
+  servings?: number;
+  cookedOn?: string;
+  notes?: string;
+}
+
+export interface CookingHistoryStats {
+  totalCooked: number;
+  totalServings: number;
+  byCuisine: { cuisine: string; count: number }[];
+  byWeek: { weekStart: string; count: number; servings: number }[]; // weeks start on Monday
+}
+
+// Meal Plan Types
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface MealNutrition {
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+}
+
+// Daily targets derived from NutritionalGoals (macros in grams)
+export interface MealPlanTargets {
+  calories: number;
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  fiber?: number;
+  sodiumLimit?: number;
+}
+
+export interface MealPlanEntry {
+  id: string;
+  planId: string;
+  day: number; // 0-6 from weekStart
+  date: string; // YYYY-MM-DD
+  slot: MealSlot;
+  recipeId: string | null;
+  recipeName: string;
+  source: 'stored' | 'ai';
+  servings: number; // portion of one recipe serving
+  nutrition: MealNutrition; // for the portion eaten
+  locked: boolean;
+}
+
+export interface MealPlanDaySummary {
+  day: number;
+  date: string;
+  totals: MealNutrition;
+  withinTolerance: boolean;
+  issues: string[];
+}
+
+export interface MealPlan {
+  id: string;
+  userId: string;
+  weekStart: string; // YYYY-MM-DD
+  slots: MealSlot[];
+  restrictions: DietaryRestriction[];
+  targets: MealPlanTargets;
+  entries: MealPlanEntry[];
+  summary?: MealPlanDaySummary[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GenerateMealPlanRequest {
+  userId: string;
+  weekStart?: string;
+  slots: MealSlot[];
+  useAI: boolean;
+}
+
+// A stored recipe the planner can place in a slot
+export interface MealCandidate {
+  recipeId: string;
+  recipeName: string;
+  source: 'stored' | 'ai';
+  slots: MealSlot[];
+  nutrition: MealNutrition; // per serving
+}
+
+// Ingredient Catalog Types
+export interface IngredientCatalogEntry {
+  id: string;
+  canonicalName: string;
+  aliases: string[];
+  pluralForms: string[];
+  category: AisleCategory;
+  defaultUnit: string;
+  density?: number; // grams per millilitre
+  allergens: DietaryRestriction[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type IngredientCatalogInput = Omit<IngredientCatalogEntry, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface IngredientCatalogMatch {
+  input: string;
+  entry: IngredientCatalogEntry | null;
+  matchedKey?: string; // the normalized key that hit an alias
+}
+
+export interface ParsedIngredientLine {
+  input: string;
+  ingredient: Ingredient;
+  range?: { min: number; max: number }; // "2-3 cloves"; ingredient.amount holds the upper bound
+  confidence: 'high' | 'low'; // low when the parser had to guess
+  guesses: string[];
+}
+
+// Nutrition Calculation Types
+export type NutrientValues = Omit<NutritionalInfo, 'servingSize' | 'method' | 'unresolvedIngredients'>;
+
+export interface NutrientProfile {
+  per100g: NutrientValues;
+  unitWeights: Record<string, number>; // grams per count unit ("clove", "slice"); '' is one whole item
+}
+
+export type UnresolvedReason = 'not_in_catalog' | 'no_nutrient_data' | 'no_density' | 'unknown_unit';
+
+export interface ResolvedIngredientNutrition {
+  name: string;
+  catalogName: string;
+  grams: number; // for the whole recipe
+}
+
+export interface UnresolvedIngredient {
+  name: string;
+  reason: UnresolvedReason;
+}
+
+export interface NutritionCalculation {
+  nutrition: NutritionalInfo | null; // per serving; null when nothing could be accounted for
+  method: NutritionMethod;
+  resolved: ResolvedIngredientNutrition[];
+  unresolved: UnresolvedIngredient[];
+}
+
+// Nutrition Label Types
+export interface DailyReferenceIntakes {
+  calories: number;
+  fat: number; // g
+  carbohydrates: number; // g
+  fiber: number; // g
+  protein: number; // g
+  sodium: number; // mg
+  vitaminA: number; // µg RAE
+  vitaminC: number; // mg
+  calcium: number; // mg
+  iron: number; // mg
+}
+
+export interface NutritionLabelLine {
+  key: string;
+  label: string;
+  amount: number; // rounded per labeling rules
+  unit: string;
+  display: string; // e.g. "12g", "<1g", "140mg"
+  dailyValue?: number; // percent, rounded per labeling rules
+  indent: boolean;
+}
+
+export interface NutritionLabel {
+  recipeId: string;
+  recipeName: string;
+  servingsPerRecipe: number;
+  servingSize: string;
+  calories: number;
+  nutrients: NutritionLabelLine[];
+  micronutrients: NutritionLabelLine[];
+  reference: {
+    basis: 'standard' | 'user';
+    userId?: string;
+    intakes: DailyReferenceIntakes;
+  };
+  method?: NutritionMethod;
+  unresolvedIngredients?: string[];
+}
+
+// Recipe Fit Types
+export type FitDimensionName = 'calories' | 'macros' | 'fiber' | 'sodium';
+
+export interface FitDimension {
+  dimension: FitDimensionName;
+  score: number; // 0-100
+  weight: number; // share of the overall score, 0-1
+  actual: Record<string, number>; // per serving
+  target: Record<string, number>; // per meal
+  explanation: string;
+}
+
+export interface RecipeFitScore {
+  score: number; // 0-100, weighted across dimensions
+  basis: 'user' | 'default'; // 'default' when the user has no nutritional goals
+  mealsPerDay: number;
+  dimensions: FitDimension[];
+}
+
+// fit is null when the recipe has no nutritional information
+export type ScoredRecipe<T extends Recipe = Recipe> = T & { fit: RecipeFitScore | null };
+
+export type PopularSort = PopularityMetric | 'fit';
+
+// Dietary Rule Types
+export type DietaryVerdictStatus = 'compatible' | 'caution' | 'incompatible';
+
+// How sure we are that a recipe contains something a restriction rules out
+export type DietaryRiskLevel = 'contains' | 'likely_contains' | 'may_contain' | 'safe';
+
+export type DietaryFindingKind =
+  | 'ingredient' | 'hidden' | 'likely' | 'catalog' | 'nutrition' | 'combination' | 'caution' | 'cross_contact' | 'ai';
+
+export interface DietaryFinding {
+  kind: DietaryFindingKind;
+  risk: Exclude<DietaryRiskLevel, 'safe'>;
+  term: string; // the rule term that matched, e.g. "whey"
+  category: string; // what the term stands for, e.g. "dairy", "pork", or "nutrition" for per-serving limits
+  ingredient?: string; // the offending ingredient as written in the recipe
+  step?: number; // 1-based instruction step, when found in the method
+  product?: string; // processed product the risk comes from, e.g. "store-bought pesto"
+  reason: string;
+}
+
+export interface DietaryVerdict {
+  restriction: DietaryRestriction;
+  status: DietaryVerdictStatus;
+  risk: DietaryRiskLevel; // the worst finding's risk
+  findings: DietaryFinding[];
+}
+
+export interface DietaryOpinion {
+  compatible: boolean;
+  issues: string[];
+  suggestions: string[];
+}
+
+export interface AIDietaryRisk {
+  restriction: DietaryRestriction;
+  level: Exclude<DietaryRiskLevel, 'safe'>;
+  evidence: string;
+  reason: string;
+}
+
+export interface AIDietaryAnalysis extends DietaryOpinion {
+  compatibilityScore?: number; // 0-1
+  risks: AIDietaryRisk[];
+}
+
+export interface DietaryAnalysis extends DietaryOpinion {
+  risk: DietaryRiskLevel; // the worst verdict's risk
+  verdicts: DietaryVerdict[];
+  method: 'rules' | 'rules+ai';
+  secondOpinion?: AIDietaryAnalysis & { agrees: boolean }; // the AI's view; it never overrides a rule verdict
+}
+
+// How safe a listed recipe is for the user's allergies
+export interface AllergenSafety {
+  safe: boolean;
+  strict: boolean; // allergy-strict profiles treat "may contain" as unsafe
+  risk: DietaryRiskLevel;
+  allergens: { restriction: DietaryRestriction; risk: DietaryRiskLevel; evidence: string[] }[];
+}
+
+// allergenSafety is only present for users with allergies
+export type AllergenChecked<T> = T & { allergenSafety?: AllergenSafety };
+
+export interface CustomRestrictionVerdict {
+  name: string; // the custom restriction's name
+  status: DietaryVerdictStatus;
+  risk: DietaryRiskLevel;
+  findings: DietaryFinding[];
+}
+
+// Restriction Graph Types
+export interface RestrictionRelations {
+  restriction: DietaryRestriction;
+  implies: DietaryRestriction[]; // everything a compatible recipe is also compatible with, transitively
+  subsumes: DietaryRestriction[]; // looser restrictions of the same kind, e.g. vegan subsumes vegetarian
+  impliedBy: DietaryRestriction[];
+  conflicts: { restriction: DietaryRestriction; reason: string }[];
+}
+
+export interface RestrictionWarning {
+  type: 'conflict' | 'redundant';
+  restrictions: DietaryRestriction[];
+  message: string;
+}
+
+// Household Types
+export interface HouseholdMember {
+  userId: string; // a member's dietary profile
+  name?: string; // display name, e.g. "Sam"
+  servings: number; // portion of a standard serving, e.g. 0.5 for a young child
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  members: HouseholdMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type HouseholdInput = Pick<Household, 'name' | 'members'>;
+
+// What cooking for the whole household has to respect
+export interface HouseholdRestrictions {
+  householdId: string;
+  restrictions: DietaryRestriction[]; // union of every member's, with implications
+  allergies: DietaryRestriction[];
+  customRestrictions: CustomRestriction[];
+  members: { userId: string; name?: string; restrictions: DietaryRestriction[]; hasProfile: boolean }[];
+  warnings: RestrictionWarning[]; // e.g. one member keto and another vegan
+  servings: number;
+}
+
+// Shopping List Types
+export type AisleCategory =
+  | 'Produce'
+  | 'Meat & Seafood'
+  | 'Dairy & Eggs'
+  | 'Bakery'
+  | 'Pantry'
+  | 'Spices & Seasonings'
+  | 'Frozen'
+  | 'Beverages'
+  | 'Other';
+
+export interface ShoppingListItem {
+  id: string;
+  listId: string;
+  name: string;
+  amount: number;
+  unit: string;
+  aisle: AisleCategory;
+  recipes: string[]; // names of the recipes that need it
+  notes?: string;
+  checked: boolean;
+}
+
+export interface ShoppingListAisle {
+  aisle: AisleCategory;
+  items: ShoppingListItem[];
+}
+
+export interface ShoppingList {
+  id: string;
+  userId?: string;
+  name: string;
+  mealPlanId?: string;
+  aisles: ShoppingListAisle[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ShoppingListRecipe {
+  recipeId: string;
+  servings?: number; // defaults to the recipe's own serving size
+}
+
+export interface CreateShoppingListRequest {
+  userId?: string;
+  name?: string;
+  recipes?: ShoppingListRecipe[];
+  mealPlanId?: string;
+  onHand?: Ingredient[];
+}
+
 // API Request/Response Types
 export interface CreateRecipeRequest {
   ingredients?: string[];
@@ -150,6 +616,132 @@ export interface CreateRecipeRequest {
   cuisinePreference?: string;
 }
 
+export interface PantryMatchRequest {
+  ingredients: string[];
+  dietaryRestrictions: DietaryRestriction[];
+  minCoverage: number; // 0-1, below this stored recipes don't count as a match
+  limit: number;
+  servingSize: number;
+  cuisinePreference?: string;
+  userId?: string;
+}
+
+export interface PantryMatch {
+  recipe: Recipe;
+  coverage: number; // percentage of non-staple ingredients on hand
+  matchedIngredients: string[];
+  missingIngredients: Ingredient[];
+}
+
+export interface PantryMatchResult {
+  source: 'stored' | 'ai';
+  matches: PantryMatch[];
+  suggestions: RecipeSuggestion[]; // AI fallback, only when no stored recipe clears minCoverage
+}
+
+export type RecipeInput = Omit<Recipe, 'id' | 'createdAt' | 'updatedAt' | 'popularity' | 'cookCount'>;
+
+export type RecipeSortField = 'popularity' | 'cookCount' | 'createdAt' | 'cookingTime' | 'difficulty';
+
+export type PopularityMetric = 'popularity' | 'cookCount';
+
+export interface RecipeListOptions {
+  limit: number;
+  cursor?: string;
+  sort: RecipeSortField;
+  order: 'asc' | 'desc';
+  cuisine?: string;
+  tags?: string[];
+  dietaryRestrictions?: DietaryRestriction[];
+  maxCookingTime?: number;
+  minDifficulty?: number;
+  maxDifficulty?: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+// Full-text Search
+export interface RecipeSearchOptions {
+  query: string;
+  dietaryRestrictions: DietaryRestriction[];
+  cuisine?: string;
+  difficulty?: number;
+  maxCookingTime?: number;
+  sort?: 'relevance' | 'fit'; // fit needs a userId
+  limit: number;
+  offset: number;
+}
+
+export interface RecipeSearchHit extends Recipe {
+  score: number; // BM25 relevance, higher is better
+  highlights: {
+    name: string;
+    snippet: string;
+  };
+}
+
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface RecipeSearchFacets {
+  cuisine: FacetCount[];
+  difficulty: FacetCount<number>[];
+  dietaryTags: FacetCount<DietaryRestriction>[];
+}
+
+export interface RecipeSearchResult {
+  hits: RecipeSearchHit[];
+  total: number;
+  facets: RecipeSearchFacets;
+}
+
+// Recipe Version History
+export interface RecipeVersion {
+  id: string;
+  recipeId: string;
+  version: number;
+  snapshot: RecipeInput;
+  author?: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+export interface RecipeChangeMeta {
+  author?: string;
+  reason?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RecipeVersionDiff {
+  recipeId: string;
+  fromVersion: number;
+  toVersion: number;
+  fields: FieldChange[];
+  ingredients: {
+    added: Ingredient[];
+    removed: Ingredient[];
+    changed: { name: string; from: Ingredient; to: Ingredient; changes: string[] }[];
+  };
+  instructions: {
+    added: { index: number; text: string }[];
+    removed: { index: number; text: string }[];
+    reordered: { text: string; fromIndex: number; toIndex: number }[];
+  };
+  tags: { added: string[]; removed: string[] };
+  dietaryCompatibility: { added: DietaryRestriction[]; removed: DietaryRestriction[] };
+  nutrition: FieldChange[];
+}
+
 export interface ScaleRecipeRequest {
   recipeId: string;
   newServingSize: number;
@@ -159,6 +751,7 @@ export interface SubstituteIngredientRequest {
   ingredient: string;
   dietaryRestrictions: DietaryRestriction[];
   recipeContext: string;
+  userId?: string; // substitutes must also respect the user's custom restrictions
 }
 
 export interface AnalyzeDietaryRequest {
@@ -171,15 +764,38 @@ export interface UserPreferencesRequest {
   dietaryPreferences: DietaryRestriction[];
   healthConditions: DietaryRestriction[];
   nutritionalGoals: NutritionalGoals;
+  customRestrictions?: CustomRestriction[];
 }
 
 // Database Models
-export interface RecipeCache {
+export type RecipeCacheQueryType = 'ingredients' | 'foodName';
+
+// Normalized cache lookup descriptor built from a raw request
+export interface RecipeCacheQuery {
+  type: RecipeCacheQueryType;
+  key: string; // hash of the full normalized query
+  contextKey: string; // hash of everything except the ingredient set
+  ingredients: string[]; // normalized ingredient set, empty for food-name queries
+}
+
+export interface RecipeCacheStats {
+  entries: number;
+  exactHits: number;
+  similarHits: number;
+  misses: number;
+  hitRate: number;
+  similarityEnabled: boolean;
+  similarityThreshold: number;
+}
+
+export interface RecipeCache<T = RecipeSuggestion | RecipeVariation> {
   id: string;
   queryHash: string;
-  recipeData: Recipe;
+  queryType: RecipeCacheQueryType;
+  payload: T[];
   hitCount: number;
   lastAccessed: Date;
+  expiresAt: Date;
   createdAt: Date;
 }
 
@@ -196,13 +812,47 @@ export interface IngredientSubstitutionCache {
   createdAt: Date;
 }
 
+// AI Provider Types
+export type AIProviderName = 'openai' | 'openai_compatible' | 'ollama' | 'mock';
+
+export type AITask =
+  | 'recipe_suggestions'
+  | 'recipe_variations'
+  | 'recipe_instructions'
+  | 'nutritional_info'
+  | 'ingredient_substitutions'
+  | 'dietary_analysis';
+
+export interface AICompletionRequest {
+  task: AITask;
+  prompt: string;
+  responseSchema: Record<string, any>; // JSON Schema describing the expected output
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  complete(request: AICompletionRequest): Promise<string>;
+  stream?(request: AICompletionRequest): AsyncIterable<string>; // yields raw text deltas
+}
+
+// Events emitted by the streaming recipe endpoints
+export type RecipeStreamEvent<T> =
+  | { type: 'progress'; stage: 'cache_lookup' | 'generating' | 'caching'; message: string }
+  | { type: 'recipe'; index: number; data: T }
+  | { type: 'done'; count: number; cached: boolean }
+  | { type: 'error'; code: string; message: string };
+
 // Configuration Types
 export interface AIConfig {
+  provider: AIProviderName;
   apiUrl: string;
   apiKey: string;
   model: string;
   maxTokens: number;
   temperature: number;
+  timeoutMs: number;
+  maxRepairAttempts: number;
+  mockFixturesPath?: string;
 }
 
 export interface AppConfig {
@@ -211,9 +861,16 @@ export interface AppConfig {
   databasePath: string;
   cacheTtlHours: number;
   cacheMaxEntries: number;
+  cacheCleanupIntervalMinutes: number;
+  cacheSimilarityEnabled: boolean;
+  cacheSimilarityThreshold: number;
+  pantryExpiringSoonDays: number;
+  draftRetentionDays: number;
   rateLimitWindowMs: number;
   rateLimitMaxRequests: number;
   corsOrigin: string;
+  adminApiKey: string;
+  dailyReferenceIntakes: DailyReferenceIntakes;
   ai: AIConfig;
 }
 
@@ -229,11 +886,19 @@ export class RecipeError extends Error {
   }
 }
 
+export type AIServiceErrorCode =
+  | 'INIT_FAILED'
+  | 'API_ERROR'
+  | 'GENERATION_FAILED'
+  | 'ANALYSIS_FAILED'
+  | 'INVALID_RESPONSE';
+
 export class AIServiceError extends Error {
   constructor(
     message: string,
-    public code: string,
-    public statusCode: number = 500
+    public code: AIServiceErrorCode,
+    public statusCode: number = 500,
+    public details: string[] = []
   ) {
     super(message);
     this.name = 'AIServiceError';